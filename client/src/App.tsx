@@ -13,6 +13,7 @@ import BookingHistoryPage from "@/pages/booking-history-page";
 import AmbulanceDetectionPage from "@/pages/ambulance-detection-page";
 import ServicesPage from "@/pages/services-page";
 import AdminDashboardPage from "@/pages/admin-dashboard-page";
+import DriverDashboardPage from "@/pages/driver-dashboard-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -29,6 +30,11 @@ function Router() {
         component={AdminDashboardPage} 
         requiredRole={["admin"]} 
       />
+      <ProtectedRoute 
+        path="/driver" 
+        component={DriverDashboardPage} 
+        requiredRole={["driver"]} 
+      />
       <Route path="/ambulance-detection" component={AmbulanceDetectionPage} />
       <Route component={NotFound} />
     </Switch>
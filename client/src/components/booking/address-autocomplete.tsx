@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { usePlaceSearch } from "@/hooks/use-geocoding";
+import type { PlaceSuggestion } from "@shared/schema";
+import { Landmark, Loader2, MapPin, Hash } from "lucide-react";
+
+interface AddressAutocompleteProps {
+  value: string;
+  placeholder?: string;
+  // Typing changes the text only; the caller should drop any pin that no longer matches it
+  onChange: (value: string) => void;
+  onSelect: (place: PlaceSuggestion) => void;
+  near?: [number, number] | null;
+}
+
+const kindIcons = {
+  locality: MapPin,
+  landmark: Landmark,
+  pincode: Hash,
+};
+
+// Address field with suggestions from the gazetteer; choosing one sets the address and the pin together
+export function AddressAutocomplete({ value, placeholder, onChange, onSelect, near }: AddressAutocompleteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const { data: suggestions = [], isFetching } = usePlaceSearch(isOpen ? value : "", near);
+
+  const choose = (place: PlaceSuggestion) => {
+    onSelect(place);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted(current => Math.min(current + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(current => Math.max(current - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(suggestions[highlighted]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Let a click on a suggestion land before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+      />
+      {isFetching && (
+        <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin text-gray-400" />
+      )}
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-[1000] mt-1 w-full rounded-md border bg-white dark:bg-gray-900 shadow-lg max-h-64 overflow-y-auto">
+          {suggestions.map((place, i) => {
+            const Icon = kindIcons[place.kind];
+            return (
+              <li
+                key={place.id}
+                className={`flex items-start gap-2 px-3 py-2 cursor-pointer text-sm ${i === highlighted ? "bg-gray-100 dark:bg-gray-800" : ""}`}
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setHighlighted(i)}
+                onClick={() => choose(place)}
+              >
+                <Icon className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />
+                <span className="flex-grow">{place.label}</span>
+                {place.distanceKm != null && (
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{place.distanceKm} km</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
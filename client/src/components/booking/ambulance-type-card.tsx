@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { AmbulanceType } from "@shared/schema";
-import { Ambulance, Heart, Baby, Building2, Brain, PawPrint } from "lucide-react";
+import { AmbulanceTypeIcon } from "@/components/booking/ambulance-type-icon";
+import { formatRupees } from "@/lib/utils";
 
 interface AmbulanceTypeCardProps {
   ambulanceType: AmbulanceType;
@@ -8,27 +9,8 @@ interface AmbulanceTypeCardProps {
   onSelect: (id: number) => void;
 }
 
-const getIconForType = (iconName: string) => {
-  switch (iconName) {
-    case "ambulance":
-      return <Ambulance className="h-5 w-5" />;
-    case "heartbeat":
-      return <Heart className="h-5 w-5" />;
-    case "baby":
-      return <Baby className="h-5 w-5" />;
-    case "hospital":
-      return <Building2 className="h-5 w-5" />;
-    case "brain":
-      return <Brain className="h-5 w-5" />;
-    case "paw":
-      return <PawPrint className="h-5 w-5" />;
-    default:
-      return <Ambulance className="h-5 w-5" />;
-  }
-};
-
 export function AmbulanceTypeCard({ ambulanceType, selected, onSelect }: AmbulanceTypeCardProps) {
-  const { id, name, description, basePrice, pricePerKm, icon } = ambulanceType;
+  const { id, name, description, basePrice, pricePerKm, icon, features } = ambulanceType;
   
   const handleClick = () => {
     onSelect(id);
@@ -45,13 +27,18 @@ export function AmbulanceTypeCard({ ambulanceType, selected, onSelect }: Ambulan
     <div className={cardClasses} onClick={handleClick}>
       <div className="flex items-start">
         <div className={`w-10 h-10 rounded-full ${selected ? 'bg-primary' : 'bg-primary-100 dark:bg-primary-900'} flex items-center justify-center ${selected ? 'text-white' : 'text-primary'}`}>
-          {getIconForType(icon)}
+          <AmbulanceTypeIcon icon={icon} />
         </div>
         <div className="ml-4">
           <h4 className="font-medium text-foreground">{name}</h4>
           <p className="text-sm text-muted-foreground">{description}</p>
+          {features && features.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {features.slice(0, 3).join(" • ")}
+            </p>
+          )}
           <p className="text-sm font-medium text-primary mt-1">
-            ₹{basePrice.toFixed(2)} base + ₹{pricePerKm.toFixed(2)}/km
+            {formatRupees(basePrice)} base + {formatRupees(pricePerKm)}/km
           </p>
         </div>
       </div>
@@ -0,0 +1,25 @@
+import { Ambulance, Heart, Baby, Building2, Brain, PawPrint } from "lucide-react";
+
+interface AmbulanceTypeIconProps {
+  icon: string;
+  className?: string;
+}
+
+// Maps the icon names stored on ambulance types (ambulanceTypeIcons) to lucide icons
+export function AmbulanceTypeIcon({ icon, className = "h-5 w-5" }: AmbulanceTypeIconProps) {
+  switch (icon) {
+    case "heartbeat":
+      return <Heart className={className} />;
+    case "baby":
+      return <Baby className={className} />;
+    case "hospital":
+      return <Building2 className={className} />;
+    case "brain":
+      return <Brain className={className} />;
+    case "paw":
+      return <PawPrint className={className} />;
+    case "ambulance":
+    default:
+      return <Ambulance className={className} />;
+  }
+}
@@ -4,6 +4,8 @@ import { Booking, AmbulanceType, Hospital } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { CheckCircle, MapPin, Calendar, Share2 } from "lucide-react";
 import { Link } from "wouter";
+import { useBookingUpdates } from "@/hooks/use-booking-updates";
+import { formatRupees } from "@/lib/utils";
 
 interface BookingConfirmationProps {
   bookingId: number;
@@ -11,6 +13,9 @@ interface BookingConfirmationProps {
 }
 
 export function BookingConfirmation({ bookingId, onViewTracking }: BookingConfirmationProps) {
+  // Keep the booking current (e.g. once an ambulance accepts) without polling
+  useBookingUpdates(bookingId);
+
   // Fetch booking details
   const { data: booking, isLoading: isLoadingBooking } = useQuery<Booking>({
     queryKey: [`/api/secure/bookings/${bookingId}`],
@@ -22,8 +27,9 @@ export function BookingConfirmation({ bookingId, onViewTracking }: BookingConfir
   });
 
   // Fetch hospital details if we have hospitalId
-  const { data: hospitals } = useQuery<Hospital[]>({
-    queryKey: ["/api/hospitals"],
+  const { data: hospital } = useQuery<Hospital>({
+    queryKey: [`/api/hospitals/${booking?.hospitalId}`],
+    enabled: !!booking?.hospitalId,
   });
 
   if (isLoadingBooking || !booking) {
@@ -35,7 +41,6 @@ export function BookingConfirmation({ bookingId, onViewTracking }: BookingConfir
   }
 
   const ambulanceType = ambulanceTypes?.find(type => type.id === booking.ambulanceTypeId);
-  const hospital = booking.hospitalId ? hospitals?.find(h => h.id === booking.hospitalId) : null;
 
   // Format scheduled time
   const formatScheduledTime = (dateString: string | null | undefined) => {
@@ -129,9 +134,15 @@ export function BookingConfirmation({ bookingId, onViewTracking }: BookingConfir
             </div>
           </div>
           <div>
-            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Estimated Fare</div>
+            <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+              {booking.actualFare ? "Fare" : "Estimated Fare"}
+            </div>
             <div className="font-medium text-primary">
-              ${booking.estimatedFare?.toFixed(2) || (ambulanceType ? ambulanceType.basePrice.toFixed(2) + "+" : "Calculating...")}
+              {booking.actualFare
+                ? formatRupees(booking.actualFare)
+                : booking.estimatedFare
+                  ? formatRupees(booking.estimatedFare)
+                  : ambulanceType ? `${formatRupees(ambulanceType.basePrice)}+` : "Calculating..."}
             </div>
           </div>
         </div>
@@ -4,11 +4,19 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useFareEstimate } from "@/hooks/use-fare-estimate";
+import { useServiceAreas, parseOutOfServiceArea } from "@/hooks/use-service-areas";
+import { reverseGeocode } from "@/hooks/use-geocoding";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { patientDetailsSchema, emergencyContactSchema, AmbulanceType, Hospital } from "@shared/schema";
+import { formatRupees } from "@/lib/utils";
+import { patientDetailsSchema, emergencyContactSchema, AmbulanceType, Hospital, type PlaceSuggestion } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Map } from "@/components/ui/map";
 import { AmbulanceTypeCard } from "@/components/booking/ambulance-type-card";
+import { HospitalSpecialtyFilter } from "@/components/booking/hospital-specialty-filter";
+import { ServiceAreaNotice } from "@/components/booking/service-area-notice";
+import { AddressAutocomplete } from "@/components/booking/address-autocomplete";
+import { getSpecialtyLabel, suggestSpecialtiesForCondition, type HospitalSpecialty } from "@shared/hospital-specialties";
 import { Loader2, MapPin, ArrowRight, ArrowLeft, CheckCircle } from "lucide-react";
 
 import {
@@ -83,15 +91,26 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
     queryKey: ["/api/ambulance-types"],
   });
 
+  // Filter hospitals by the specialty the patient's condition needs unless the user picks another
+  const condition = form.watch("patientDetails.condition");
+  const suggestedSpecialty = suggestSpecialtiesForCondition(condition || "")[0];
+  const [chosenSpecialty, setChosenSpecialty] = useState<HospitalSpecialty | null>();
+  const specialtyFilter = chosenSpecialty === undefined ? suggestedSpecialty ?? null : chosenSpecialty;
+
   // Fetch nearby hospitals based on user's location
   const { data: hospitals, isLoading: isLoadingHospitals, refetch: refetchHospitals } = useQuery<Hospital[]>({
-    queryKey: ["/api/hospitals", pickupLatitude, pickupLongitude],
+    queryKey: ["/api/hospitals", pickupLatitude, pickupLongitude, specialtyFilter],
     enabled: pickupLatitude !== 0 && pickupLongitude !== 0,
     queryFn: async () => {
       if (pickupLatitude === 0 || pickupLongitude === 0) return [];
       
       console.log("Fetching hospitals with coordinates:", pickupLatitude, pickupLongitude);
-      const response = await fetch(`/api/hospitals?latitude=${pickupLatitude}&longitude=${pickupLongitude}`);
+      const params = new URLSearchParams({
+        latitude: pickupLatitude.toString(),
+        longitude: pickupLongitude.toString(),
+      });
+      if (specialtyFilter) params.set("specialty", specialtyFilter);
+      const response = await fetch(`/api/hospitals?${params}`);
       const data = await response.json();
       console.log("Hospitals found:", data.length);
       return data;
@@ -131,7 +150,7 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
     onError: (error: Error) => {
       toast({
         title: "Booking failed",
-        description: error.message,
+        description: parseOutOfServiceArea(error)?.message || error.message,
         variant: "destructive",
       });
     },
@@ -151,38 +170,12 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          // Get reverse geocoding using Nominatim OpenStreetMap API
-          fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${position.coords.latitude}&lon=${position.coords.longitude}`)
-            .then(response => response.json())
-            .then(data => {
-              const lat = position.coords.latitude;
-              const lng = position.coords.longitude;
-              
-              form.setValue("pickupLatitude", lat);
-              form.setValue("pickupLongitude", lng);
-              form.setValue("pickupAddress", data.display_name || "Current Location");
-              
-              // Update state variables to trigger hospital query
-              setPickupLatitude(lat);
-              setPickupLongitude(lng);
-              
-              setIsUsingCurrentLocation(false);
-            })
-            .catch(() => {
-              // If reverse geocoding fails, just set coordinates
-              const lat = position.coords.latitude;
-              const lng = position.coords.longitude;
-              
-              form.setValue("pickupLatitude", lat);
-              form.setValue("pickupLongitude", lng);
-              form.setValue("pickupAddress", "Current Location");
-              
-              // Update state variables to trigger hospital query
-              setPickupLatitude(lat);
-              setPickupLongitude(lng);
-              
-              setIsUsingCurrentLocation(false);
-            });
+          const lat = position.coords.latitude;
+          const lng = position.coords.longitude;
+          reverseGeocode(lat, lng).then(address => {
+            setPickup(lat, lng, address);
+            setIsUsingCurrentLocation(false);
+          });
         },
         (error) => {
           setIsUsingCurrentLocation(false);
@@ -203,23 +196,31 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
     }
   };
 
-  const handleMapClick = (lat: number, lng: number) => {
+  // Keeps the form values and the hospital query coordinates in step with each other
+  const setPickup = (lat: number, lng: number, address?: string) => {
     form.setValue("pickupLatitude", lat);
     form.setValue("pickupLongitude", lng);
+    if (address !== undefined) {
+      form.setValue("pickupAddress", address);
+    }
     
     // Update state variables to trigger hospital query
     setPickupLatitude(lat);
     setPickupLongitude(lng);
-    
-    // Get address from coordinates using Nominatim
-    fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`)
-      .then(response => response.json())
-      .then(data => {
-        form.setValue("pickupAddress", data.display_name || `${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-      })
-      .catch(() => {
-        form.setValue("pickupAddress", `${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-      });
+  };
+
+  const handleMapClick = (lat: number, lng: number) => {
+    setPickup(lat, lng);
+    reverseGeocode(lat, lng).then(address => form.setValue("pickupAddress", address));
+  };
+
+  const handlePickupSelect = (place: PlaceSuggestion) => {
+    setPickup(place.latitude, place.longitude, place.label);
+  };
+
+  // Typed text no longer describes the pin, so drop it until a suggestion or map click sets one
+  const handlePickupTyped = (address: string) => {
+    setPickup(0, 0, address);
   };
 
   const handleSelectHospital = (hospitalId: number) => {
@@ -250,13 +251,22 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
     { id: "allergies", label: "Allergies" },
   ];
 
+  // Coverage shown on the pickup map; pickups outside every service area can't be booked
+  const { mapAreas, checkPickup } = useServiceAreas();
+  const watchedPickupLatitude = form.watch("pickupLatitude");
+  const watchedPickupLongitude = form.watch("pickupLongitude");
+  const pickupOutOfArea = watchedPickupLatitude !== 0 && watchedPickupLongitude !== 0
+    ? checkPickup(watchedPickupLatitude, watchedPickupLongitude)
+    : null;
+
   // Determine if the current step is valid
   const isStepValid = () => {
     if (step === 1) {
       return (
         form.getValues("pickupLatitude") !== 0 &&
         form.getValues("pickupLongitude") !== 0 &&
-        form.getValues("pickupAddress") !== ""
+        form.getValues("pickupAddress") !== "" &&
+        !pickupOutOfArea
       );
     }
     return true;
@@ -270,33 +280,21 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
   const selectedAmbulanceTypeId = form.watch("ambulanceTypeId");
   const selectedAmbulanceType = ambulanceTypes?.find(t => t.id === selectedAmbulanceTypeId);
   
-  // Calculate estimated fare if we have the necessary data
-  let estimatedFare = "Not available";
-  if (selectedAmbulanceType && form.getValues("pickupLatitude") && form.getValues("destinationLatitude")) {
-    const pickupLat = form.getValues("pickupLatitude");
-    const pickupLng = form.getValues("pickupLongitude");
-    const destLat = form.getValues("destinationLatitude") || 0;
-    const destLng = form.getValues("destinationLongitude") || 0;
-    
-    if (destLat && destLng) {
-      // Calculate distance (crude approximation)
-      const R = 6371; // Earth's radius in km
-      const dLat = (destLat - pickupLat) * Math.PI / 180;
-      const dLon = (destLng - pickupLng) * Math.PI / 180;
-      const a = 
-        Math.sin(dLat/2) * Math.sin(dLat/2) +
-        Math.cos(pickupLat * Math.PI / 180) * Math.cos(destLat * Math.PI / 180) * 
-        Math.sin(dLon/2) * Math.sin(dLon/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-      const distance = R * c;
-      
-      const baseFare = selectedAmbulanceType.basePrice;
-      const distanceFare = distance * selectedAmbulanceType.pricePerKm;
-      estimatedFare = `₹${(baseFare + distanceFare).toFixed(2)}`;
-    } else {
-      estimatedFare = `₹${selectedAmbulanceType.basePrice.toFixed(2)}+`;
-    }
-  }
+  // Fare estimate from the server's pricing rules
+  const destinationLatitude = form.watch("destinationLatitude");
+  const destinationLongitude = form.watch("destinationLongitude");
+  const { data: fareEstimate } = useFareEstimate({
+    ambulanceTypeId: selectedAmbulanceTypeId,
+    bookingType: "emergency",
+    pickupLatitude: form.watch("pickupLatitude"),
+    pickupLongitude: form.watch("pickupLongitude"),
+    destinationLatitude,
+    destinationLongitude,
+  });
+  // Without a destination only the minimum fare is known
+  const estimatedFare = fareEstimate
+    ? `${formatRupees(fareEstimate.total)}${destinationLatitude && destinationLongitude ? "" : "+"}`
+    : "Not available";
 
   return (
     <div className="mb-8">
@@ -353,11 +351,13 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
                     name="pickupAddress"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Or Enter Address Manually</FormLabel>
+                        <FormLabel>Or Search for Your Address</FormLabel>
                         <FormControl>
-                          <Input
-                            placeholder="Enter street address, city, state..."
-                            {...field}
+                          <AddressAutocomplete
+                            placeholder="Search for an area, landmark or pincode..."
+                            value={field.value}
+                            onChange={handlePickupTyped}
+                            onSelect={handlePickupSelect}
                           />
                         </FormControl>
                         <FormMessage />
@@ -377,8 +377,10 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
                           : undefined
                       }
                       onMapClick={handleMapClick}
+                      areas={mapAreas}
                     />
                   </div>
+                  <ServiceAreaNotice outOfArea={pickupOutOfArea} />
                 </div>
 
                 <div className="mb-6">
@@ -648,6 +650,11 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
 
                 <div className="mb-6">
                   <FormLabel>Nearby Hospitals</FormLabel>
+                  <HospitalSpecialtyFilter
+                    value={specialtyFilter}
+                    suggested={suggestedSpecialty}
+                    onChange={setChosenSpecialty}
+                  />
                   {isLoadingHospitals ? (
                     <div className="flex justify-center p-4">
                       <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -662,6 +669,14 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
                             <FormItem>
                               <FormControl>
                                 <div className="space-y-4">
+                                  {hospitals?.length === 0 && (
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                                      No nearby hospitals offer {getSpecialtyLabel(specialtyFilter || "")}.{" "}
+                                      <Button type="button" variant="link" className="p-0 h-auto" onClick={() => setChosenSpecialty(null)}>
+                                        Show all hospitals
+                                      </Button>
+                                    </p>
+                                  )}
                                   {hospitals?.map((hospital) => (
                                     <div key={hospital.id} className="flex items-start">
                                       <RadioGroup
@@ -688,7 +703,7 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
                                               </span> • 
                                               {hospital.specialties.map((specialty, i) => (
                                                 <span key={i} className="ml-1 text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
-                                                  {specialty}
+                                                  {getSpecialtyLabel(specialty)}
                                                 </span>
                                               ))}
                                             </p>
@@ -737,6 +752,11 @@ export function EmergencyBookingForm({ onBookingComplete }: EmergencyBookingForm
                       <span className="text-gray-600 dark:text-gray-400">Estimated Fare:</span>
                       <span className="font-medium text-primary">{estimatedFare}</span>
                     </div>
+                    {fareEstimate && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 text-right">
+                        Incl. GST{fareEstimate.nightSurcharge > 0 && ", night surcharge"}{fareEstimate.peakSurcharge > 0 && ", peak-hour surcharge"}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,37 @@
+import { hospitalSpecialties, hospitalSpecialtyLabels, type HospitalSpecialty } from "@shared/hospital-specialties";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface HospitalSpecialtyFilterProps {
+  value: HospitalSpecialty | null;
+  suggested?: HospitalSpecialty;
+  onChange: (specialty: HospitalSpecialty | null) => void;
+}
+
+// Narrows the hospital list to those offering a specialty; the suggestion comes from the patient's condition
+export function HospitalSpecialtyFilter({ value, suggested, onChange }: HospitalSpecialtyFilterProps) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3">
+      <Select
+        value={value ?? "all"}
+        onValueChange={(selected) => onChange(selected === "all" ? null : selected as HospitalSpecialty)}
+      >
+        <SelectTrigger className="sm:w-64">
+          <SelectValue placeholder="All specialties" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All specialties</SelectItem>
+          {hospitalSpecialties.map((specialty) => (
+            <SelectItem key={specialty} value={specialty}>
+              {hospitalSpecialtyLabels[specialty]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {suggested && value === suggested && (
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Suggested for the patient's condition
+        </span>
+      )}
+    </div>
+  );
+}
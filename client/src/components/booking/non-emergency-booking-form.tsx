@@ -4,11 +4,19 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useFareEstimate } from "@/hooks/use-fare-estimate";
+import { useServiceAreas, parseOutOfServiceArea } from "@/hooks/use-service-areas";
+import { reverseGeocode } from "@/hooks/use-geocoding";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatRupees } from "@/lib/utils";
 import { patientDetailsSchema, emergencyContactSchema, AmbulanceType, Hospital } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Map } from "@/components/ui/map";
 import { AmbulanceTypeCard } from "@/components/booking/ambulance-type-card";
+import { HospitalSpecialtyFilter } from "@/components/booking/hospital-specialty-filter";
+import { ServiceAreaNotice } from "@/components/booking/service-area-notice";
+import { AddressAutocomplete } from "@/components/booking/address-autocomplete";
+import { getSpecialtyLabel, suggestSpecialtiesForCondition, type HospitalSpecialty } from "@shared/hospital-specialties";
 import { Loader2, MapPin, ArrowRight, ArrowLeft, CheckCircle, Calendar, Clock } from "lucide-react";
 
 import {
@@ -67,6 +75,18 @@ const nonEmergencyBookingSchema = z.object({
     message: "Either hospital or destination address must be provided",
     path: ["destinationAddress"]
   }
+).refine(
+  data => !data.isRecurring || !!data.recurringPattern,
+  {
+    message: "Select how often the transport repeats",
+    path: ["recurringPattern"]
+  }
+).refine(
+  data => !data.isRecurring || (!!data.recurringEndDate && data.recurringEndDate >= new Date(data.scheduledTime.toDateString())),
+  {
+    message: "End date must be on or after the first scheduled date",
+    path: ["recurringEndDate"]
+  }
 );
 
 type NonEmergencyBookingFormValues = z.infer<typeof nonEmergencyBookingSchema>;
@@ -86,11 +106,6 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
     queryKey: ["/api/ambulance-types"],
   });
 
-  // Fetch hospitals
-  const { data: hospitals, isLoading: isLoadingHospitals } = useQuery<Hospital[]>({
-    queryKey: ["/api/hospitals"],
-  });
-
   // Calculate minimum date and time
   const now = new Date();
   const minDate = new Date();
@@ -121,6 +136,17 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
     },
   });
 
+  // Filter hospitals by the specialty the patient's condition needs unless the user picks another
+  const condition = form.watch("patientDetails.condition");
+  const suggestedSpecialty = suggestSpecialtiesForCondition(condition || "")[0];
+  const [chosenSpecialty, setChosenSpecialty] = useState<HospitalSpecialty | null>();
+  const specialtyFilter = chosenSpecialty === undefined ? suggestedSpecialty ?? null : chosenSpecialty;
+
+  // Fetch hospitals
+  const { data: hospitals, isLoading: isLoadingHospitals } = useQuery<Hospital[]>({
+    queryKey: [specialtyFilter ? `/api/hospitals?specialty=${specialtyFilter}` : "/api/hospitals"],
+  });
+
   // Watch for form value changes
   const isRecurring = form.watch("isRecurring");
   const destinationType = form.watch("destinationType");
@@ -150,10 +176,12 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
         patientDetails: {
           ...data.patientDetails,
           bookingPurpose: data.bookingPurpose,
-          isRecurring: data.isRecurring,
-          recurringPattern: data.recurringPattern,
-          recurringEndDate: data.recurringEndDate ? new Date(data.recurringEndDate) : null,
-        }
+        },
+        // The server turns this into one booking per occurrence
+        recurrence: data.isRecurring && data.recurringPattern && data.recurringEndDate ? {
+          pattern: data.recurringPattern,
+          endDate: new Date(data.recurringEndDate),
+        } : undefined,
       };
       
       const res = await apiRequest("POST", "/api/secure/bookings", bookingData);
@@ -164,13 +192,15 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
       onBookingComplete(data.id);
       toast({
         title: "Booking confirmed",
-        description: "Your non-emergency ambulance has been scheduled successfully.",
+        description: data.seriesId
+          ? "Your recurring transport has been scheduled. You can manage each ride from your booking history."
+          : "Your non-emergency ambulance has been scheduled successfully.",
       });
     },
     onError: (error: Error) => {
       toast({
         title: "Booking failed",
-        description: error.message,
+        description: parseOutOfServiceArea(error)?.message || error.message,
         variant: "destructive",
       });
     },
@@ -182,22 +212,12 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          // Get reverse geocoding using Nominatim OpenStreetMap API
-          fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${position.coords.latitude}&lon=${position.coords.longitude}`)
-            .then(response => response.json())
-            .then(data => {
-              form.setValue("pickupLatitude", position.coords.latitude);
-              form.setValue("pickupLongitude", position.coords.longitude);
-              form.setValue("pickupAddress", data.display_name || "Current Location");
-              setIsUsingCurrentLocation(false);
-            })
-            .catch(() => {
-              // If reverse geocoding fails, just set coordinates
-              form.setValue("pickupLatitude", position.coords.latitude);
-              form.setValue("pickupLongitude", position.coords.longitude);
-              form.setValue("pickupAddress", "Current Location");
-              setIsUsingCurrentLocation(false);
-            });
+          const lat = position.coords.latitude;
+          const lng = position.coords.longitude;
+          reverseGeocode(lat, lng).then(address => {
+            setPickup(lat, lng, address);
+            setIsUsingCurrentLocation(false);
+          });
         },
         (error) => {
           setIsUsingCurrentLocation(false);
@@ -218,36 +238,36 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
     }
   };
 
-  const handleMapClick = (lat: number, lng: number) => {
+  const setPickup = (lat: number, lng: number, address?: string) => {
     form.setValue("pickupLatitude", lat);
     form.setValue("pickupLongitude", lng);
-    
-    // Get address from coordinates using Nominatim
-    fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`)
-      .then(response => response.json())
-      .then(data => {
-        form.setValue("pickupAddress", data.display_name || `${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-      })
-      .catch(() => {
-        form.setValue("pickupAddress", `${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-      });
+    if (address !== undefined) {
+      form.setValue("pickupAddress", address);
+    }
   };
 
-  const handleDestinationMapClick = (lat: number, lng: number) => {
+  const setDestination = (lat: number | undefined, lng: number | undefined, address?: string) => {
     form.setValue("destinationLatitude", lat);
     form.setValue("destinationLongitude", lng);
-    
-    // Get address from coordinates using Nominatim
-    fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`)
-      .then(response => response.json())
-      .then(data => {
-        form.setValue("destinationAddress", data.display_name || `${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-      })
-      .catch(() => {
-        form.setValue("destinationAddress", `${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-      });
+    if (address !== undefined) {
+      form.setValue("destinationAddress", address);
+    }
+  };
+
+  const handleMapClick = (lat: number, lng: number) => {
+    setPickup(lat, lng);
+    reverseGeocode(lat, lng).then(address => form.setValue("pickupAddress", address));
   };
 
+  const handleDestinationMapClick = (lat: number, lng: number) => {
+    setDestination(lat, lng);
+    reverseGeocode(lat, lng).then(address => form.setValue("destinationAddress", address));
+  };
+
+  // Typed text no longer describes the pin, so it is dropped until a suggestion or map click sets one
+  const handlePickupTyped = (address: string) => setPickup(0, 0, address);
+  const handleDestinationTyped = (address: string) => setDestination(undefined, undefined, address);
+
   const handleSelectHospital = (hospitalId: number) => {
     form.setValue("hospitalId", hospitalId);
     
@@ -276,16 +296,36 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
     { id: "allergies", label: "Allergies" },
   ];
 
+  // Coverage shown on the pickup map; pickups outside every service area can't be booked
+  const { mapAreas, checkPickup } = useServiceAreas();
+  const watchedPickupLatitude = form.watch("pickupLatitude");
+  const watchedPickupLongitude = form.watch("pickupLongitude");
+  const pickupOutOfArea = watchedPickupLatitude !== 0 && watchedPickupLongitude !== 0
+    ? checkPickup(watchedPickupLatitude, watchedPickupLongitude)
+    : null;
+  // Destination suggestions are ranked nearest the pickup first
+  const pickupPosition: [number, number] | null = watchedPickupLatitude !== 0 && watchedPickupLongitude !== 0
+    ? [watchedPickupLatitude, watchedPickupLongitude]
+    : null;
+
   // Determine if the current step is valid
   const isStepValid = () => {
     if (step === 1) {
+      if (form.getValues("isRecurring")) {
+        return (
+          form.getValues("scheduledTime") > new Date() &&
+          !!form.getValues("recurringPattern") &&
+          !!form.getValues("recurringEndDate")
+        );
+      }
       return form.getValues("scheduledTime") > new Date();
     }
     if (step === 2) {
       return (
         form.getValues("pickupLatitude") !== 0 &&
         form.getValues("pickupLongitude") !== 0 &&
-        form.getValues("pickupAddress") !== ""
+        form.getValues("pickupAddress") !== "" &&
+        !pickupOutOfArea
       );
     }
     return true;
@@ -311,33 +351,22 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
   const selectedAmbulanceTypeId = form.watch("ambulanceTypeId");
   const selectedAmbulanceType = ambulanceTypes?.find(t => t.id === selectedAmbulanceTypeId);
   
-  // Calculate estimated fare if we have the necessary data
-  let estimatedFare = "Not available";
-  if (selectedAmbulanceType && form.getValues("pickupLatitude") && form.getValues("destinationLatitude")) {
-    const pickupLat = form.getValues("pickupLatitude");
-    const pickupLng = form.getValues("pickupLongitude");
-    const destLat = form.getValues("destinationLatitude") || 0;
-    const destLng = form.getValues("destinationLongitude") || 0;
-    
-    if (destLat && destLng) {
-      // Calculate distance (crude approximation)
-      const R = 6371; // Earth's radius in km
-      const dLat = (destLat - pickupLat) * Math.PI / 180;
-      const dLon = (destLng - pickupLng) * Math.PI / 180;
-      const a = 
-        Math.sin(dLat/2) * Math.sin(dLat/2) +
-        Math.cos(pickupLat * Math.PI / 180) * Math.cos(destLat * Math.PI / 180) * 
-        Math.sin(dLon/2) * Math.sin(dLon/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-      const distance = R * c;
-      
-      const baseFare = selectedAmbulanceType.basePrice;
-      const distanceFare = distance * selectedAmbulanceType.pricePerKm;
-      estimatedFare = `₹${(baseFare + distanceFare).toFixed(2)}`;
-    } else {
-      estimatedFare = `₹${selectedAmbulanceType.basePrice.toFixed(2)}+`;
-    }
-  }
+  // Fare estimate from the server's pricing rules
+  const destinationLatitude = form.watch("destinationLatitude");
+  const destinationLongitude = form.watch("destinationLongitude");
+  const { data: fareEstimate } = useFareEstimate({
+    ambulanceTypeId: selectedAmbulanceTypeId,
+    bookingType: "scheduled",
+    pickupLatitude: form.watch("pickupLatitude"),
+    pickupLongitude: form.watch("pickupLongitude"),
+    destinationLatitude,
+    destinationLongitude,
+    scheduledTime: form.watch("scheduledTime"),
+  });
+  // Without a destination only the minimum fare is known
+  const estimatedFare = fareEstimate
+    ? `${formatRupees(fareEstimate.total)}${destinationLatitude && destinationLongitude ? "" : "+"}`
+    : "Not available";
 
   return (
     <div className="mb-8">
@@ -552,11 +581,13 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                     name="pickupAddress"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Or Enter Address Manually</FormLabel>
+                        <FormLabel>Or Search for Your Address</FormLabel>
                         <FormControl>
-                          <Input
-                            placeholder="Enter pickup address..."
-                            {...field}
+                          <AddressAutocomplete
+                            placeholder="Search for an area, landmark or pincode..."
+                            value={field.value}
+                            onChange={handlePickupTyped}
+                            onSelect={(place) => setPickup(place.latitude, place.longitude, place.label)}
                           />
                         </FormControl>
                         <FormMessage />
@@ -576,8 +607,10 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                           : undefined
                       }
                       onMapClick={handleMapClick}
+                      areas={mapAreas}
                     />
                   </div>
+                  <ServiceAreaNotice outOfArea={pickupOutOfArea} />
                 </div>
 
                 <div className="mb-6">
@@ -655,6 +688,11 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                 {destinationType === 'hospital' && (
                   <div className="mb-6">
                     <FormLabel>Select Hospital</FormLabel>
+                    <HospitalSpecialtyFilter
+                      value={specialtyFilter}
+                      suggested={suggestedSpecialty}
+                      onChange={setChosenSpecialty}
+                    />
                     {isLoadingHospitals ? (
                       <div className="flex justify-center p-4">
                         <Loader2 className="h-8 w-8 animate-spin text-secondary" />
@@ -669,6 +707,14 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                               <FormItem>
                                 <FormControl>
                                   <div className="space-y-4">
+                                    {hospitals?.length === 0 && (
+                                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                                        No hospitals offer {getSpecialtyLabel(specialtyFilter || "")}.{" "}
+                                        <Button type="button" variant="link" className="p-0 h-auto" onClick={() => setChosenSpecialty(null)}>
+                                          Show all hospitals
+                                        </Button>
+                                      </p>
+                                    )}
                                     {hospitals?.map((hospital) => (
                                       <div key={hospital.id} className="flex items-start">
                                         <RadioGroup
@@ -695,7 +741,7 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                                                 </span> • 
                                                 {hospital.specialties.map((specialty, i) => (
                                                   <span key={i} className="ml-1 text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
-                                                    {specialty}
+                                                    {getSpecialtyLabel(specialty)}
                                                   </span>
                                                 ))}
                                               </p>
@@ -725,9 +771,12 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                         <FormItem>
                           <FormLabel>Destination Address</FormLabel>
                           <FormControl>
-                            <Input
-                              placeholder="Enter destination address..."
-                              {...field}
+                            <AddressAutocomplete
+                              placeholder="Search for the destination..."
+                              value={field.value || ""}
+                              onChange={handleDestinationTyped}
+                              onSelect={(place) => setDestination(place.latitude, place.longitude, place.label)}
+                              near={pickupPosition}
                             />
                           </FormControl>
                           <FormMessage />
@@ -1066,6 +1115,11 @@ export function NonEmergencyBookingForm({ onBookingComplete }: NonEmergencyBooki
                       <span className="text-gray-600 dark:text-gray-400">Estimated Fare:</span>
                       <span className="font-medium text-secondary">{estimatedFare}</span>
                     </div>
+                    {fareEstimate && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 text-right">
+                        Incl. GST{fareEstimate.nightSurcharge > 0 && ", night surcharge"}{fareEstimate.peakSurcharge > 0 && ", peak-hour surcharge"}
+                      </p>
+                    )}
                   </div>
                 </div>
 
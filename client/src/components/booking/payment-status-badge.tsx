@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import { bookingPaymentStatusLabels, type BookingPaymentStatus } from "@shared/schema";
+
+const variants: Record<BookingPaymentStatus, "secondary" | "success" | "outline" | "destructive" | "default"> = {
+  unpaid: "destructive",
+  pending: "secondary",
+  paid: "success",
+  partially_refunded: "outline",
+  refunded: "outline",
+};
+
+export function PaymentStatusBadge({ status }: { status: string }) {
+  const paymentStatus = status as BookingPaymentStatus;
+  return (
+    <Badge variant={variants[paymentStatus] || "outline"}>
+      {bookingPaymentStatusLabels[paymentStatus] || status}
+    </Badge>
+  );
+}
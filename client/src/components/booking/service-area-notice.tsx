@@ -0,0 +1,18 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { OutOfServiceAreaError } from "@shared/schema";
+import { MapPinOff } from "lucide-react";
+
+// Shown under the pickup map when the chosen point is outside every area we serve
+export function ServiceAreaNotice({ outOfArea }: { outOfArea: OutOfServiceAreaError | null }) {
+  if (!outOfArea) return null;
+
+  return (
+    <Alert variant="destructive" className="mt-3">
+      <MapPinOff className="h-4 w-4" />
+      <AlertTitle>Outside our service area</AlertTitle>
+      <AlertDescription>
+        {outOfArea.message} For an emergency, please call 108.
+      </AlertDescription>
+    </Alert>
+  );
+}
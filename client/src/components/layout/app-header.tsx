@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
-import { Ambulance, User, LogOut, Menu, X, Moon, Sun, LayoutDashboard } from "lucide-react";
+import { Ambulance, User, LogOut, Menu, X, Moon, Sun, LayoutDashboard, Navigation } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import {
@@ -121,6 +121,14 @@ export function AppHeader() {
                         </Link>
                       </DropdownMenuItem>
                     )}
+                    {user.role === "driver" && (
+                      <DropdownMenuItem asChild>
+                        <Link href="/driver">
+                          <Navigation className="mr-2 h-4 w-4" />
+                          <span>Driver Dashboard</span>
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem onClick={handleLogout}>
                       <LogOut className="mr-2 h-4 w-4" />
                       <span>Log out</span>
@@ -212,6 +220,18 @@ export function AppHeader() {
                     </Link>
                   </Button>
                 )}
+                {user.role === "driver" && (
+                  <Button
+                    asChild
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    <Link href="/driver">
+                      <Navigation className="mr-2 h-4 w-4" /> Driver Dashboard
+                    </Link>
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   className="w-full justify-start"
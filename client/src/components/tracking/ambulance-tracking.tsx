@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Map } from "@/components/ui/map";
 import { Card, CardContent } from "@/components/ui/card";
@@ -7,7 +7,10 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Booking, BookingStatusUpdate, Hospital } from "@shared/schema";
+import { useBookingUpdates } from "@/hooks/use-booking-updates";
+import { useRoute } from "@/hooks/use-route";
+import { Booking, BookingStatusUpdate, CrewRating, Hospital } from "@shared/schema";
+import { AmbulanceLocation } from "@shared/realtime";
 import { Phone, MessageSquare, MapPin, ChevronRight, Ambulance, Star, Clock, X, RefreshCw, Share2, Maximize2, LocateFixed } from "lucide-react";
 
 interface AmbulanceTrackingProps {
@@ -20,21 +23,52 @@ export function AmbulanceTracking({ bookingId }: AmbulanceTrackingProps) {
   const [ambulanceLocation, setAmbulanceLocation] = useState<[number, number] | undefined>(undefined);
   const [isRefreshing, setIsRefreshing] = useState(false);
   
+  // Updates are pushed over the realtime channel; poll only while it is down
+  const { isLive } = useBookingUpdates(bookingId);
+  const fallbackRefetchInterval = isLive ? false : 30000;
+  
   // Fetch booking details
   const { data: booking, isLoading: isLoadingBooking } = useQuery<Booking>({
     queryKey: [`/api/secure/bookings/${bookingId}`],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: fallbackRefetchInterval,
   });
 
   // Fetch booking status updates
   const { data: statusUpdates, isLoading: isLoadingStatusUpdates } = useQuery<BookingStatusUpdate[]>({
     queryKey: [`/api/secure/bookings/${bookingId}/status-updates`],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: fallbackRefetchInterval,
+  });
+
+  // Live position of the assigned ambulance
+  const { data: liveLocation } = useQuery<AmbulanceLocation | null>({
+    queryKey: [`/api/secure/bookings/${bookingId}/ambulance-location`],
+    enabled: !!booking?.ambulanceId,
+    refetchInterval: fallbackRefetchInterval,
   });
 
+  // Published ratings of the assigned driver and ambulance
+  const { data: crewRating } = useQuery<CrewRating>({
+    queryKey: [`/api/secure/bookings/${bookingId}/crew-rating`],
+    enabled: !!booking?.ambulanceId,
+  });
+  const shownRating = crewRating?.driver?.count ? crewRating.driver : crewRating?.ambulance;
+
+  // Road route from the pickup to the destination, drawn on the map
+  const pickupPosition = useMemo<[number, number] | undefined>(
+    () => booking ? [booking.pickupLatitude, booking.pickupLongitude] : undefined,
+    [booking?.pickupLatitude, booking?.pickupLongitude]
+  );
+  const destinationPosition = useMemo<[number, number] | undefined>(
+    () => booking?.destinationLatitude && booking.destinationLongitude
+      ? [booking.destinationLatitude, booking.destinationLongitude]
+      : undefined,
+    [booking?.destinationLatitude, booking?.destinationLongitude]
+  );
+  const { data: route } = useRoute(pickupPosition, destinationPosition);
+
   // Fetch hospital if needed
-  const { data: hospitals } = useQuery<Hospital[]>({
-    queryKey: ["/api/hospitals"],
+  const { data: selectedHospital } = useQuery<Hospital>({
+    queryKey: [`/api/hospitals/${booking?.hospitalId}`],
     enabled: !!booking?.hospitalId,
   });
 
@@ -47,20 +81,25 @@ export function AmbulanceTracking({ bookingId }: AmbulanceTrackingProps) {
 
   // Set ambulance location and map center when data changes
   useEffect(() => {
-    if (latestStatusUpdate?.latitude && latestStatusUpdate?.longitude) {
+    if (liveLocation) {
+      const location: [number, number] = [liveLocation.latitude, liveLocation.longitude];
+      setAmbulanceLocation(location);
+      setMapCenter(location);
+    } else if (latestStatusUpdate?.latitude && latestStatusUpdate?.longitude) {
       const location: [number, number] = [latestStatusUpdate.latitude, latestStatusUpdate.longitude];
       setAmbulanceLocation(location);
       setMapCenter(location);
     } else if (booking?.pickupLatitude && booking?.pickupLongitude) {
       setMapCenter([booking.pickupLatitude, booking.pickupLongitude]);
     }
-  }, [latestStatusUpdate, booking]);
+  }, [liveLocation, latestStatusUpdate, booking]);
 
   const refreshTracking = async () => {
     setIsRefreshing(true);
     try {
       await queryClient.invalidateQueries({ queryKey: [`/api/secure/bookings/${bookingId}`] });
       await queryClient.invalidateQueries({ queryKey: [`/api/secure/bookings/${bookingId}/status-updates`] });
+      await queryClient.invalidateQueries({ queryKey: [`/api/secure/bookings/${bookingId}/ambulance-location`] });
       toast({
         title: "Tracking refreshed",
         description: "Latest tracking information has been loaded.",
@@ -101,6 +140,10 @@ export function AmbulanceTracking({ bookingId }: AmbulanceTrackingProps) {
     switch (status) {
       case 'pending': return 'secondary';
       case 'confirmed': return 'default';
+      case 'en_route':
+      case 'arrived_pickup':
+      case 'patient_onboard':
+      case 'arrived_destination':
       case 'in_progress': return 'default';
       case 'completed': return 'success';
       case 'cancelled': return 'destructive';
@@ -129,9 +172,6 @@ export function AmbulanceTracking({ bookingId }: AmbulanceTrackingProps) {
     }
   };
 
-  // Get the selected hospital
-  const selectedHospital = booking?.hospitalId ? hospitals?.find(h => h.id === booking.hospitalId) : null;
-
   if (isLoadingBooking || !booking) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -169,12 +209,21 @@ export function AmbulanceTracking({ bookingId }: AmbulanceTrackingProps) {
               </h4>
               <div className="flex items-center mt-1">
                 <div className="flex items-center text-yellow-500">
-                  <Star className="h-4 w-4 fill-current" />
-                  <Star className="h-4 w-4 fill-current" />
-                  <Star className="h-4 w-4 fill-current" />
-                  <Star className="h-4 w-4 fill-current" />
-                  <Star className="h-4 w-4" />
-                  <span className="ml-1 text-gray-600 dark:text-gray-400 text-sm">4.8</span>
+                  {shownRating?.average != null ? (
+                    <>
+                      {Array(5).fill(0).map((_, i) => (
+                        <Star key={i} className={`h-4 w-4 ${i < Math.round(shownRating.average!) ? "fill-current" : ""}`} />
+                      ))}
+                      <span className="ml-1 text-gray-600 dark:text-gray-400 text-sm">
+                        {shownRating.average.toFixed(1)} ({shownRating.count})
+                      </span>
+                    </>
+                  ) : (
+                    <>
+                      <Star className="h-4 w-4" />
+                      <span className="ml-1 text-gray-600 dark:text-gray-400 text-sm">No ratings yet</span>
+                    </>
+                  )}
                 </div>
                 {booking.driverName && (
                   <>
@@ -236,13 +285,10 @@ export function AmbulanceTracking({ bookingId }: AmbulanceTrackingProps) {
           <div className="w-full h-64 bg-gray-100 dark:bg-gray-900 rounded-md overflow-hidden">
             <Map
               center={mapCenter}
-              markerPosition={[booking.pickupLatitude, booking.pickupLongitude]}
-              destinationPosition={
-                booking.destinationLatitude && booking.destinationLongitude 
-                  ? [booking.destinationLatitude, booking.destinationLongitude]
-                  : undefined
-              }
+              markerPosition={pickupPosition}
+              destinationPosition={destinationPosition}
               showRoute={true}
+              routePath={route?.path}
               ambulanceMarkers={ambulanceLocation ? [{
                 position: ambulanceLocation,
                 tooltip: "Ambulance"
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Map } from "@/components/ui/map";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TripReplay } from "@shared/schema";
+import { bookingStatusLabels, isBookingStatus } from "@shared/booking-lifecycle";
+import { Pause, Play, RotateCcw } from "lucide-react";
+
+// Each animation frame advances one breadcrumb
+const FRAME_INTERVAL_MS = 250;
+
+const statusLabel = (status: string) => isBookingStatus(status) ? bookingStatusLabels[status] : status;
+const timeOf = (date: Date | string | null) => date ? new Date(date).getTime() : 0;
+
+/**
+ * Animates the recorded path of a finished booking with its status milestones marked along the way.
+ */
+export function TripReplayDialog({ bookingId, onClose }: { bookingId: number; onClose: () => void }) {
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { data: replay, isLoading } = useQuery<TripReplay>({
+    queryKey: [`/api/admin/bookings/${bookingId}/replay`],
+  });
+
+  const trail = replay?.trail || [];
+  const path = useMemo(() => trail.map(ping => [ping.latitude, ping.longitude] as [number, number]), [trail]);
+
+  // Milestones without a recorded position are placed at the breadcrumb closest in time
+  const milestoneMarkers = useMemo(() => (replay?.milestones || []).flatMap(milestone => {
+    let position: [number, number] | undefined = milestone.latitude != null && milestone.longitude != null
+      ? [milestone.latitude, milestone.longitude]
+      : undefined;
+    if (!position && trail.length > 0) {
+      const closest = trail.reduce((best, ping) =>
+        Math.abs(timeOf(ping.recordedAt) - timeOf(milestone.createdAt)) < Math.abs(timeOf(best.recordedAt) - timeOf(milestone.createdAt)) ? ping : best
+      );
+      position = [closest.latitude, closest.longitude];
+    }
+    return position ? [{
+      position,
+      tooltip: `${statusLabel(milestone.status)} · ${new Date(milestone.createdAt!).toLocaleTimeString()}`,
+    }] : [];
+  }), [replay, trail]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setFrame(current => Math.min(current + 1, trail.length - 1));
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, trail.length]);
+
+  // Stop at the end of the trail
+  useEffect(() => {
+    if (isPlaying && frame >= trail.length - 1) setIsPlaying(false);
+  }, [isPlaying, frame, trail.length]);
+
+  const current = trail[Math.min(frame, trail.length - 1)];
+  const currentMilestone = current && replay?.milestones
+    .filter(milestone => timeOf(milestone.createdAt) <= timeOf(current.recordedAt))
+    .pop();
+  const ambulanceMarkers = useMemo(
+    () => current ? [{ position: [current.latitude, current.longitude] as [number, number], tooltip: `Booking #${bookingId}` }] : [],
+    [current, bookingId]
+  );
+
+  const togglePlaying = () => {
+    if (!isPlaying && frame >= trail.length - 1) setFrame(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Trip Replay · Booking #{bookingId}</DialogTitle>
+          <DialogDescription>
+            {replay?.booking.pickupAddress}
+            {replay?.booking.destinationAddress && ` → ${replay.booking.destinationAddress}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !replay ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : trail.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No location trail was recorded for this booking.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Map
+              center={path[0]}
+              markerPosition={[replay.booking.pickupLatitude, replay.booking.pickupLongitude]}
+              destinationPosition={replay.booking.destinationLatitude != null && replay.booking.destinationLongitude != null
+                ? [replay.booking.destinationLatitude, replay.booking.destinationLongitude]
+                : undefined}
+              interactive={false}
+              path={path}
+              pointMarkers={milestoneMarkers}
+              ambulanceMarkers={ambulanceMarkers}
+              height="420px"
+            />
+
+            <div className="flex items-center gap-3">
+              <Button size="icon" variant="outline" onClick={togglePlaying} title={isPlaying ? "Pause" : "Play"}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => { setIsPlaying(false); setFrame(0); }} title="Restart">
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Slider
+                value={[frame]}
+                min={0}
+                max={Math.max(0, trail.length - 1)}
+                step={1}
+                onValueChange={([value]) => setFrame(value)}
+              />
+            </div>
+
+            {current && (
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="font-medium">{new Date(current.recordedAt).toLocaleString()}</span>
+                {currentMilestone && <Badge variant="secondary">{statusLabel(currentMilestone.status)}</Badge>}
+                <span>Speed: {current.speedKmh != null ? `${Math.round(current.speedKmh)} km/h` : "—"}</span>
+                <span>Heading: {current.heading != null ? `${current.heading}°` : "—"}</span>
+                <span className="text-gray-500">Point {frame + 1} of {trail.length}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -8,6 +8,8 @@ interface MapProps {
   markerPosition?: [number, number];
   destinationPosition?: [number, number];
   showRoute?: boolean;
+  // Road geometry for the route between the markers; without it the route is a dashed straight line
+  routePath?: [number, number][];
   className?: string;
   height?: string;
   interactive?: boolean;
@@ -16,6 +18,37 @@ interface MapProps {
     position: [number, number];
     icon?: string;
     tooltip?: string;
+    // Ring around the ambulance, e.g. to show its status
+    color?: string;
+    onClick?: () => void;
+  }[];
+  // A recorded path, drawn as a solid line; the map fits to it when it first appears
+  path?: [number, number][];
+  pointMarkers?: {
+    position: [number, number];
+    tooltip?: string;
+    color?: string;
+    onClick?: () => void;
+  }[];
+  // Thin dashed lines between two points, e.g. an ambulance and the job it is heading to
+  links?: {
+    from: [number, number];
+    to: [number, number];
+    color?: string;
+  }[];
+  // Merge ambulance and point markers that overlap at the current zoom into a count
+  cluster?: boolean;
+  // Grid cells shaded by intensity (0-1), e.g. a demand heatmap; red unless given a color
+  heatCells?: {
+    bounds: [[number, number], [number, number]];
+    intensity: number;
+    color?: string;
+    tooltip?: string;
+  }[];
+  // Shaded polygons, e.g. the service areas we cover
+  areas?: {
+    polygon: [number, number][];
+    tooltip?: string;
   }[];
 }
 
@@ -28,8 +61,10 @@ const defaultIcon = L.icon({
   shadowSize: [41, 41]
 });
 
+const AMBULANCE_ICON_URL = 'https://cdn.jsdelivr.net/npm/@mdi/svg@7.2.96/svg/ambulance.svg';
+
 const ambulanceIcon = L.icon({
-  iconUrl: 'https://cdn.jsdelivr.net/npm/@mdi/svg@7.2.96/svg/ambulance.svg',
+  iconUrl: AMBULANCE_ICON_URL,
   iconSize: [32, 32],
   iconAnchor: [16, 16],
   popupAnchor: [0, -16]
@@ -42,17 +77,74 @@ const destinationIcon = L.icon({
   popupAnchor: [0, -32]
 });
 
+function colouredAmbulanceIcon(color: string) {
+  return L.divIcon({
+    className: '',
+    html: `<div style="width:32px;height:32px;border-radius:50%;background:white;border:3px solid ${color};display:flex;align-items:center;justify-content:center;box-shadow:0 1px 3px rgba(0,0,0,0.3)"><img src="${AMBULANCE_ICON_URL}" width="18" height="18" /></div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16]
+  });
+}
+
+function clusterIcon(count: number, color: string) {
+  return L.divIcon({
+    className: '',
+    html: `<div style="width:36px;height:36px;border-radius:50%;background:${color};opacity:0.85;color:white;font-weight:600;display:flex;align-items:center;justify-content:center;box-shadow:0 1px 3px rgba(0,0,0,0.3)">${count}</div>`,
+    iconSize: [36, 36],
+    iconAnchor: [18, 18]
+  });
+}
+
+// Markers closer than this on screen are merged when clustering
+const CLUSTER_RADIUS_PX = 40;
+
+// Greedy screen-space grouping; good enough for a fleet of a few hundred markers
+function clusterPositions<T extends { position: [number, number] }>(map: L.Map, items: T[]): T[][] {
+  const zoom = map.getZoom();
+  const groups: { center: L.Point; items: T[] }[] = [];
+
+  items.forEach(item => {
+    const point = map.project(item.position, zoom);
+    const group = groups.find(group => group.center.distanceTo(point) <= CLUSTER_RADIUS_PX);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ center: point, items: [item] });
+    }
+  });
+
+  return groups.map(group => group.items);
+}
+
+// A numbered bubble for several markers; clicking it zooms in on them
+function addClusterMarker(map: L.Map, positions: [number, number][], color: string): L.Marker {
+  const bounds = L.latLngBounds(positions);
+  return L.marker(bounds.getCenter(), { icon: clusterIcon(positions.length, color) })
+    .addTo(map)
+    .on('click', () => map.fitBounds(bounds, { padding: [60, 60], maxZoom: map.getMaxZoom() }));
+}
+
+// Shared default for the layer props, so a parent re-render without them doesn't rebuild every layer
+const NO_ITEMS: never[] = [];
+
 export function Map({
   center,
   zoom = 13,
   markerPosition,
   destinationPosition,
   showRoute = false,
+  routePath,
   className = '',
   height = '400px',
   interactive = true,
   onMapClick,
-  ambulanceMarkers = []
+  ambulanceMarkers = NO_ITEMS,
+  path,
+  pointMarkers = NO_ITEMS,
+  links = NO_ITEMS,
+  cluster = false,
+  heatCells = NO_ITEMS,
+  areas = NO_ITEMS
 }: MapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
@@ -60,6 +152,13 @@ export function Map({
   const destinationMarkerRef = useRef<L.Marker | null>(null);
   const routeRef = useRef<L.Polyline | null>(null);
   const ambulanceMarkersRef = useRef<L.Marker[]>([]);
+  const pathRef = useRef<L.Polyline | null>(null);
+  const pointMarkersRef = useRef<(L.CircleMarker | L.Marker)[]>([]);
+  const linksRef = useRef<L.Polyline[]>([]);
+  const heatCellsRef = useRef<L.Rectangle[]>([]);
+  // Clusters are regrouped whenever the zoom changes
+  const [zoomLevel, setZoomLevel] = useState(zoom);
+  const areasRef = useRef<L.Polygon[]>([]);
 
   useEffect(() => {
     if (!mapContainerRef.current) return;
@@ -80,6 +179,10 @@ export function Map({
       attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
     }).addTo(mapRef.current);
 
+    if (cluster) {
+      mapRef.current.on('zoomend', () => setZoomLevel(mapRef.current!.getZoom()));
+    }
+
     // Add click handler
     if (interactive && onMapClick) {
       mapRef.current.on('click', (e) => {
@@ -142,21 +245,21 @@ export function Map({
         routeRef.current.remove();
       }
 
-      // Simple straight line route
-      routeRef.current = L.polyline([markerPosition, destinationPosition], {
+      const hasRoadRoute = !!routePath && routePath.length > 1;
+      routeRef.current = L.polyline(hasRoadRoute ? routePath : [markerPosition, destinationPosition], {
         color: '#3B82F6',
         weight: 4,
         opacity: 0.7,
-        dashArray: '10, 10'
+        dashArray: hasRoadRoute ? undefined : '10, 10'
       }).addTo(mapRef.current);
 
-      // Fit map to show both markers
+      // Fit map to show both markers and the road in between
       if (interactive) {
-        const bounds = L.latLngBounds([markerPosition, destinationPosition]);
+        const bounds = routeRef.current.getBounds().extend(markerPosition).extend(destinationPosition);
         mapRef.current.fitBounds(bounds, { padding: [50, 50] });
       }
     }
-  }, [destinationPosition, markerPosition, showRoute, interactive]);
+  }, [destinationPosition, markerPosition, showRoute, routePath, interactive]);
 
   // Handle ambulance markers
   useEffect(() => {
@@ -166,20 +269,156 @@ export function Map({
     ambulanceMarkersRef.current.forEach(marker => marker.remove());
     ambulanceMarkersRef.current = [];
 
+    const groups = cluster ? clusterPositions(mapRef.current, ambulanceMarkers) : ambulanceMarkers.map(marker => [marker]);
+
     // Add new ambulance markers
-    ambulanceMarkers.forEach(marker => {
+    groups.forEach(group => {
+      if (group.length > 1) {
+        ambulanceMarkersRef.current.push(addClusterMarker(mapRef.current!, group.map(marker => marker.position), '#DC2626'));
+        return;
+      }
+
+      const [marker] = group;
       const newMarker = L.marker(marker.position, { 
-        icon: ambulanceIcon 
+        icon: marker.color ? colouredAmbulanceIcon(marker.color) : ambulanceIcon 
       })
       .addTo(mapRef.current!);
       
       if (marker.tooltip) {
         newMarker.bindTooltip(marker.tooltip);
       }
+
+      if (marker.onClick) {
+        newMarker.on('click', marker.onClick);
+      }
       
       ambulanceMarkersRef.current.push(newMarker);
     });
-  }, [ambulanceMarkers]);
+  }, [ambulanceMarkers, cluster, zoomLevel]);
+
+  // Handle recorded path
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const hadPath = !!pathRef.current;
+    if (pathRef.current) {
+      pathRef.current.remove();
+      pathRef.current = null;
+    }
+
+    if (path && path.length > 0) {
+      pathRef.current = L.polyline(path, {
+        color: '#DC2626',
+        weight: 4,
+        opacity: 0.8
+      }).addTo(mapRef.current);
+
+      if (!hadPath && path.length > 1) {
+        mapRef.current.fitBounds(pathRef.current.getBounds(), { padding: [40, 40] });
+      }
+    }
+  }, [path]);
+
+  // Handle point markers
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    pointMarkersRef.current.forEach(marker => marker.remove());
+    pointMarkersRef.current = [];
+
+    const groups = cluster ? clusterPositions(mapRef.current, pointMarkers) : pointMarkers.map(marker => [marker]);
+
+    groups.forEach(group => {
+      if (group.length > 1) {
+        pointMarkersRef.current.push(addClusterMarker(mapRef.current!, group.map(marker => marker.position), '#1D4ED8'));
+        return;
+      }
+
+      const [marker] = group;
+      const newMarker = L.circleMarker(marker.position, {
+        radius: 6,
+        color: marker.color || '#1D4ED8',
+        fillOpacity: 0.9
+      }).addTo(mapRef.current!);
+
+      if (marker.tooltip) {
+        newMarker.bindTooltip(marker.tooltip);
+      }
+
+      if (marker.onClick) {
+        newMarker.on('click', marker.onClick);
+      }
+
+      pointMarkersRef.current.push(newMarker);
+    });
+  }, [pointMarkers, cluster, zoomLevel]);
+
+  // Handle links
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    linksRef.current.forEach(link => link.remove());
+    linksRef.current = [];
+
+    links.forEach(link => {
+      linksRef.current.push(L.polyline([link.from, link.to], {
+        color: link.color || '#6B7280',
+        weight: 2,
+        opacity: 0.8,
+        dashArray: '6, 6',
+        interactive: false
+      }).addTo(mapRef.current!));
+    });
+  }, [links]);
+
+  // Handle heatmap cells
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    heatCellsRef.current.forEach(cell => cell.remove());
+    heatCellsRef.current = [];
+
+    heatCells.forEach(cell => {
+      const rectangle = L.rectangle(cell.bounds, {
+        stroke: false,
+        fillColor: cell.color || '#DC2626',
+        fillOpacity: 0.1 + 0.6 * Math.min(1, Math.max(0, cell.intensity)),
+        interactive: !!cell.tooltip
+      }).addTo(mapRef.current!);
+
+      if (cell.tooltip) {
+        rectangle.bindTooltip(cell.tooltip, { sticky: true });
+      }
+
+      rectangle.bringToBack();
+      heatCellsRef.current.push(rectangle);
+    });
+  }, [heatCells]);
+
+  // Handle area polygons
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    areasRef.current.forEach(area => area.remove());
+    areasRef.current = [];
+
+    areas.forEach(area => {
+      const polygon = L.polygon(area.polygon, {
+        color: '#16A34A',
+        weight: 2,
+        fillOpacity: 0.1,
+        interactive: !!area.tooltip
+      }).addTo(mapRef.current!);
+
+      if (area.tooltip) {
+        polygon.bindTooltip(area.tooltip, { sticky: true });
+      }
+
+      // Keep markers and routes clickable above the shading
+      polygon.bringToBack();
+      areasRef.current.push(polygon);
+    });
+  }, [areas]);
 
   return (
     <div 
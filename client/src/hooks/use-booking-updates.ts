@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { BookingStatusUpdate } from "@shared/schema";
+import { REALTIME_PATH, RealtimeClientMessage, RealtimeServerMessage } from "@shared/realtime";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Keeps the React Query cache for a booking up to date from the server push channel.
+ * Returns whether the channel is live so callers can fall back to polling while it isn't.
+ */
+export function useBookingUpdates(bookingId: number | null | undefined) {
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    if (!bookingId) return;
+
+    const bookingKey = [`/api/secure/bookings/${bookingId}`];
+    const statusUpdatesKey = [`/api/secure/bookings/${bookingId}/status-updates`];
+    const ambulanceLocationKey = [`/api/secure/bookings/${bookingId}/ambulance-location`];
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const send = (message: RealtimeClientMessage) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const handleMessage = (message: RealtimeServerMessage) => {
+      switch (message.type) {
+        case "subscribed":
+          attempts = 0;
+          setIsLive(true);
+          break;
+        case "status_update":
+          queryClient.setQueryData<BookingStatusUpdate[]>(statusUpdatesKey, (updates) => {
+            if (!updates) return updates;
+            if (updates.some(update => update.id === message.update.id)) return updates;
+            return [...updates, message.update];
+          });
+          // The update may carry a new booking status or ambulance assignment
+          queryClient.invalidateQueries({ queryKey: bookingKey });
+          break;
+        case "ambulance_location":
+          queryClient.setQueryData(ambulanceLocationKey, message.location);
+          break;
+        case "error":
+          console.error("Booking updates error:", message.message);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        send({ type: "subscribe", bookingId });
+        // Catch up on anything that happened while disconnected
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: bookingKey });
+          queryClient.invalidateQueries({ queryKey: statusUpdatesKey });
+          queryClient.invalidateQueries({ queryKey: ambulanceLocationKey });
+        }
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error("Invalid booking update message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsLive(false);
+        if (closed) return;
+        // Back off 1s, 2s, 4s, ... up to 30s
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      send({ type: "unsubscribe", bookingId });
+      socket?.close();
+      setIsLive(false);
+    };
+  }, [bookingId]);
+
+  return { isLive };
+}
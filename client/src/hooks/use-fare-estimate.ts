@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { FareBreakdown, FareEstimateRequest } from "@shared/pricing";
+
+/**
+ * Fetches the server's fare estimate for a trip. Disabled until an ambulance type and pickup are chosen.
+ */
+export function useFareEstimate(request: Partial<FareEstimateRequest>) {
+  const ready = !!request.ambulanceTypeId && !!request.pickupLatitude && !!request.pickupLongitude;
+
+  return useQuery<FareBreakdown>({
+    queryKey: ["/api/fare-estimate", request],
+    enabled: ready,
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/fare-estimate", request);
+      return await res.json();
+    },
+  });
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { Ambulance, Booking } from "@shared/schema";
+import { REALTIME_PATH, OperationsSnapshot, RealtimeClientMessage, RealtimeServerMessage } from "@shared/realtime";
+import { isLiveBooking, terminalBookingStatuses, type BookingStatus } from "@shared/booking-lifecycle";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export const OPERATIONS_QUERY_KEY = ["/api/admin/operations"];
+// Coverage queries carry their targets in the key, e.g. "/api/admin/coverage?targets=8,15"
+export const COVERAGE_QUERY_PATH = "/api/admin/coverage";
+
+function upsertAmbulance(snapshot: OperationsSnapshot, ambulance: Ambulance): OperationsSnapshot {
+  const others = snapshot.ambulances.filter(existing => existing.id !== ambulance.id);
+  return {
+    ...snapshot,
+    ambulances: ambulance.status === "decommissioned" ? others : [...others, ambulance].sort((a, b) => a.id - b.id),
+  };
+}
+
+function upsertBooking(snapshot: OperationsSnapshot, booking: Booking): OperationsSnapshot {
+  const others = snapshot.bookings.filter(existing => existing.id !== booking.id);
+  return {
+    ...snapshot,
+    bookings: isLiveBooking(booking) ? [...others, booking].sort((a, b) => a.id - b.id) : others,
+  };
+}
+
+/**
+ * Keeps the admin operations snapshot current from the fleet feed on the realtime channel.
+ * Returns whether the feed is live so the caller can poll while it isn't.
+ */
+export function useFleetUpdates() {
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const send = (message: RealtimeClientMessage) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const handleMessage = (message: RealtimeServerMessage) => {
+      switch (message.type) {
+        case "fleet_subscribed":
+          attempts = 0;
+          setIsLive(true);
+          break;
+        case "fleet_ambulance": {
+          const previous = queryClient.getQueryData<OperationsSnapshot>(OPERATIONS_QUERY_KEY)
+            ?.ambulances.find(ambulance => ambulance.id === message.ambulance.id);
+          // A unit becoming busy or free changes what the fleet can reach in time
+          if (previous?.status !== message.ambulance.status) {
+            queryClient.invalidateQueries({
+              predicate: query => String(query.queryKey[0]).startsWith(COVERAGE_QUERY_PATH),
+            });
+          }
+          queryClient.setQueryData<OperationsSnapshot>(OPERATIONS_QUERY_KEY, (snapshot) =>
+            snapshot && upsertAmbulance(snapshot, message.ambulance)
+          );
+          break;
+        }
+        case "fleet_booking": {
+          const previous = queryClient.getQueryData<OperationsSnapshot>(OPERATIONS_QUERY_KEY)
+            ?.bookings.find(booking => booking.id === message.booking.id);
+          // Finishing or reassigning a job frees an ambulance without a fleet_ambulance message
+          if (previous && (previous.ambulanceId !== message.booking.ambulanceId ||
+              terminalBookingStatuses.includes(message.booking.status as BookingStatus))) {
+            queryClient.invalidateQueries({ queryKey: OPERATIONS_QUERY_KEY });
+          }
+          queryClient.setQueryData<OperationsSnapshot>(OPERATIONS_QUERY_KEY, (snapshot) =>
+            snapshot && upsertBooking(snapshot, message.booking)
+          );
+          break;
+        }
+        case "error":
+          console.error("Fleet updates error:", message.message);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        send({ type: "subscribe_fleet" });
+        // Catch up on anything that happened while disconnected
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: OPERATIONS_QUERY_KEY });
+        }
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error("Invalid fleet update message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsLive(false);
+        if (closed) return;
+        // Back off 1s, 2s, 4s, ... up to 30s
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      send({ type: "unsubscribe_fleet" });
+      socket?.close();
+      setIsLive(false);
+    };
+  }, []);
+
+  return { isLive };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PlaceSuggestion, ReverseGeocodeResult } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Address suggestions from the server's gazetteer as the user types, nearest first
+ * when a position to bias towards is known.
+ */
+export function usePlaceSearch(query: string, near?: [number, number] | null) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (near) {
+    params.set("latitude", String(near[0]));
+    params.set("longitude", String(near[1]));
+  }
+
+  return useQuery<PlaceSuggestion[]>({
+    queryKey: [`/api/geocode/search?${params}`],
+    enabled: debouncedQuery.length >= 2,
+  });
+}
+
+// Address for a map click or GPS fix; the coordinates themselves if the lookup fails
+export async function reverseGeocode(latitude: number, longitude: number): Promise<string> {
+  try {
+    const params = new URLSearchParams({ latitude: String(latitude), longitude: String(longitude) });
+    const res = await fetch(`/api/geocode/reverse?${params}`);
+    if (!res.ok) throw new Error(res.statusText);
+    const result: ReverseGeocodeResult = await res.json();
+    return result.label;
+  } catch {
+    return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+  }
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+
+// Post at most this often; watchPosition can fire several times a second while moving
+const MIN_POST_INTERVAL_MS = 10000;
+
+interface LocationSharingState {
+  position: [number, number] | null;
+  lastSentAt: Date | null;
+  error: string | null;
+}
+
+/**
+ * Streams the device position to /api/driver/updateLocation while `enabled` is true.
+ */
+export function useLocationSharing(enabled: boolean) {
+  const [state, setState] = useState<LocationSharingState>({ position: null, lastSentAt: null, error: null });
+  const lastPostRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (!("geolocation" in navigator)) {
+      setState(current => ({ ...current, error: "Location is not supported on this device" }));
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        const { latitude, longitude, speed, heading, accuracy } = position.coords;
+        setState(current => ({ ...current, position: [latitude, longitude], error: null }));
+
+        const now = Date.now();
+        if (now - lastPostRef.current < MIN_POST_INTERVAL_MS) return;
+        lastPostRef.current = now;
+
+        try {
+          // speed is in m/s; speed and heading are null (heading NaN when stationary) on devices that can't tell
+          await apiRequest("POST", "/api/driver/updateLocation", {
+            latitude,
+            longitude,
+            speedKmh: speed != null ? speed * 3.6 : null,
+            heading: heading != null && !isNaN(heading) ? heading : null,
+            accuracyM: accuracy,
+          });
+          setState(current => ({ ...current, lastSentAt: new Date() }));
+        } catch (error) {
+          // Try again on the next fix
+          lastPostRef.current = 0;
+          setState(current => ({ ...current, error: "Failed to share location" }));
+        }
+      },
+      (error) => {
+        setState(current => ({ ...current, error: error.message }));
+      },
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  return state;
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Route } from "@shared/routing";
+
+/**
+ * Fetches the driving route between two points from the server's road graph.
+ * Disabled until both ends are known.
+ */
+export function useRoute(from?: [number, number] | null, to?: [number, number] | null) {
+  const params = from && to
+    ? new URLSearchParams({
+        fromLat: String(from[0]),
+        fromLng: String(from[1]),
+        toLat: String(to[0]),
+        toLng: String(to[1]),
+      })
+    : null;
+
+  return useQuery<Route>({
+    queryKey: [`/api/route?${params}`],
+    enabled: !!params,
+  });
+}
@@ -0,0 +1,58 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { isPointInPolygon, nearestPointOnPolygon } from "@shared/geo";
+import type { OutOfServiceAreaError, ServiceArea, ServiceAreaPolygon } from "@shared/schema";
+
+type PublicServiceArea = Pick<ServiceArea, "id" | "name" | "city" | "operator"> & { polygon: ServiceAreaPolygon };
+
+/**
+ * Active service areas for drawing coverage and checking a pickup before it's submitted.
+ * The server repeats the check when the booking is created.
+ */
+export function useServiceAreas() {
+  const { data: areas = [] } = useQuery<PublicServiceArea[]>({
+    queryKey: ["/api/service-areas"],
+  });
+
+  const mapAreas = useMemo(
+    () => areas.map(area => ({ polygon: area.polygon, tooltip: `${area.name}, ${area.city}` })),
+    [areas]
+  );
+
+  // Same rules as checkServiceArea on the server: with no areas set up, everywhere is served
+  const checkPickup = useCallback((latitude: number, longitude: number): OutOfServiceAreaError | null => {
+    if (areas.length === 0 || areas.some(area => isPointInPolygon(latitude, longitude, area.polygon))) {
+      return null;
+    }
+
+    const nearest = areas
+      .map(area => ({ area, ...nearestPointOnPolygon(latitude, longitude, area.polygon) }))
+      .sort((a, b) => a.distanceKm - b.distanceKm)[0];
+    const distanceKm = Math.round(nearest.distanceKm * 10) / 10;
+    return {
+      code: "out_of_service_area",
+      message: `We don't serve this pickup location yet. The nearest area we serve is ${nearest.area.name}, ${nearest.area.city} (${distanceKm} km away).`,
+      nearestArea: {
+        id: nearest.area.id,
+        name: nearest.area.name,
+        city: nearest.area.city,
+        distanceKm,
+        nearestPoint: nearest.point,
+      },
+    };
+  }, [areas]);
+
+  return { areas, mapAreas, checkPickup };
+}
+
+// apiRequest errors read "<status>: <body>"; pulls out the out-of-area details if that's what this is
+export function parseOutOfServiceArea(error: Error): OutOfServiceAreaError | null {
+  const match = error.message.match(/^422: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.code === "out_of_service_area" ? body : null;
+  } catch {
+    return null;
+  }
+}
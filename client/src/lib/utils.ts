@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatRupees(amount: number) {
+  return `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+}
@@ -1,8 +1,9 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { Redirect } from "wouter";
+import { Redirect, useLocation } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,9 +11,29 @@ import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { 
   Users, Ambulance, Calendar, CheckCircle, XCircle, Clock, 
-  PlusCircle, Pencil, Trash2, UserCog, Phone 
+  PlusCircle, Pencil, Trash2, UserCog, Phone, AlertTriangle, Tags, Building2, FileText, IndianRupee, Star, History, Map as MapIcon, Radio, BarChart3, Download, ScrollText 
 } from "lucide-react";
-import { Booking, Ambulance as AmbulanceType, User } from "@shared/schema";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AmbulanceTypeIcon } from "@/components/booking/ambulance-type-icon";
+import { formatRupees } from "@/lib/utils";
+import { PaymentStatusBadge } from "@/components/booking/payment-status-badge";
+import { TripReplayDialog } from "@/components/tracking/trip-replay-dialog";
+import { useFleetUpdates, OPERATIONS_QUERY_KEY, COVERAGE_QUERY_PATH } from "@/hooks/use-fleet-updates";
+import { Map } from "@/components/ui/map";
+import { Booking, Ambulance as AmbulanceType, AmbulanceType as AmbulanceCategory, Hospital, OperatingHours, User, AdminAlert, type BookingPaymentSummary, type Payment, type AdminReview, type RatingSummary, type ServiceArea, type ServiceAreaPolygon, adminAmbulanceStatuses, ambulanceTypeIcons, weekDays, auditEventKinds, type AuditEvent, type AuditEventKind, type AuditDiff } from "@shared/schema";
+import { hospitalSpecialties, hospitalSpecialtyLabels, getSpecialtyLabel, type HospitalSpecialty } from "@shared/hospital-specialties";
+import { bookingStatuses, bookingStatusLabels, isActiveBookingStatus, isBookingStatus } from "@shared/booking-lifecycle";
+import { type OperationsSnapshot } from "@shared/realtime";
+import { responseIntervals, responseIntervalLabels, responseTimeGroupings, type ResponseTimeGrouping, type ResponseTimeReport, type DemandHeatmap, type StandbyPlan, DEFAULT_COVERAGE_TARGETS_MINUTES, type CoverageReport } from "@shared/analytics";
+import { exportDatasetLabels, exportFormats, phiExportDatasets, type ExportDataset, type ExportFormat } from "@shared/exports";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
 
 export default function AdminDashboardPage() {
   const { user } = useAuth();
@@ -35,16 +56,38 @@ export default function AdminDashboardPage() {
         Admin Dashboard
       </h1>
       
+      <AlertsPanel />
+      
       <Tabs defaultValue="bookings" className="w-full" onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4 mb-8">
+        <TabsList className="grid w-full grid-cols-11 mb-8">
+          <TabsTrigger value="live" className="flex items-center gap-2">
+            <Radio className="h-4 w-4" />
+            Live
+          </TabsTrigger>
           <TabsTrigger value="bookings" className="flex items-center gap-2">
             <Calendar className="h-4 w-4" />
             Bookings
           </TabsTrigger>
+          <TabsTrigger value="analytics" className="flex items-center gap-2">
+            <BarChart3 className="h-4 w-4" />
+            Analytics
+          </TabsTrigger>
           <TabsTrigger value="ambulances" className="flex items-center gap-2">
             <Ambulance className="h-4 w-4" />
             Ambulances
           </TabsTrigger>
+          <TabsTrigger value="catalog" className="flex items-center gap-2">
+            <Tags className="h-4 w-4" />
+            Services
+          </TabsTrigger>
+          <TabsTrigger value="hospitals" className="flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            Hospitals
+          </TabsTrigger>
+          <TabsTrigger value="service-areas" className="flex items-center gap-2">
+            <MapIcon className="h-4 w-4" />
+            Areas
+          </TabsTrigger>
           <TabsTrigger value="drivers" className="flex items-center gap-2">
             <UserCog className="h-4 w-4" />
             Drivers
@@ -53,16 +96,44 @@ export default function AdminDashboardPage() {
             <Users className="h-4 w-4" />
             Patients
           </TabsTrigger>
+          <TabsTrigger value="reviews" className="flex items-center gap-2">
+            <Star className="h-4 w-4" />
+            Reviews
+          </TabsTrigger>
+          <TabsTrigger value="audit" className="flex items-center gap-2">
+            <ScrollText className="h-4 w-4" />
+            Audit
+          </TabsTrigger>
         </TabsList>
         
+        <TabsContent value="live">
+          <OperationsPanel />
+        </TabsContent>
+        
         <TabsContent value="bookings">
           <BookingsPanel />
         </TabsContent>
         
+        <TabsContent value="analytics">
+          <ResponseTimesPanel />
+        </TabsContent>
+        
         <TabsContent value="ambulances">
           <AmbulancesPanel />
         </TabsContent>
         
+        <TabsContent value="catalog">
+          <AmbulanceTypesPanel />
+        </TabsContent>
+        
+        <TabsContent value="hospitals">
+          <HospitalsPanel />
+        </TabsContent>
+        
+        <TabsContent value="service-areas">
+          <ServiceAreasPanel />
+        </TabsContent>
+        
         <TabsContent value="drivers">
           <DriversPanel />
         </TabsContent>
@@ -70,13 +141,611 @@ export default function AdminDashboardPage() {
         <TabsContent value="patients">
           <PatientsPanel />
         </TabsContent>
+        
+        <TabsContent value="reviews">
+          <ReviewsPanel />
+        </TabsContent>
+        
+        <TabsContent value="audit">
+          <AuditLogPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
 
+function AlertsPanel() {
+  const { toast } = useToast();
+  
+  // Fetch unacknowledged alerts
+  const { data: alerts } = useQuery<AdminAlert[]>({
+    queryKey: ["/api/admin/alerts"],
+    refetchInterval: 60000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (alertId: number) => {
+      const res = await apiRequest("POST", `/api/admin/alerts/${alertId}/acknowledge`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to acknowledge alert",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!alerts || alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8 border-destructive">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="h-5 w-5" />
+          Needs Attention ({alerts.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="flex items-start justify-between gap-4 border-b last:border-0 pb-3 last:pb-0">
+              <div>
+                <p className="text-sm font-medium">{alert.message}</p>
+                <p className="text-xs text-gray-500">
+                  {alert.createdAt ? new Date(alert.createdAt).toLocaleString() : ""}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={acknowledgeMutation.isPending}
+                onClick={() => acknowledgeMutation.mutate(alert.id)}
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Acknowledge
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Marker ring colour for each ambulance status on the live operations map
+const ambulanceStatusColors: Record<string, string> = {
+  available: "#16A34A",
+  offered: "#F59E0B",
+  reserved: "#8B5CF6",
+  assigned: "#DC2626",
+  off_duty: "#6B7280",
+  out_of_service: "#111827",
+};
+
+const PICKUP_PIN_COLOR = "#EA580C";
+const DESTINATION_PIN_COLOR = "#0891B2";
+const STANDBY_PIN_COLOR = "#7C3AED";
+
+// Coverage cells by the first target they meet, fastest first; holes meet none of them
+const COVERAGE_TARGET_COLORS = ["#16A34A", "#84CC16", "#F59E0B", "#EA580C"];
+const COVERAGE_HOLE_COLOR = "#DC2626";
+
+type MapPin = NonNullable<React.ComponentProps<typeof Map>["pointMarkers"]>[number];
+
+function OperationsPanel() {
+  const [, setLocation] = useLocation();
+
+  // Changes are pushed over the realtime channel; poll only while it is down
+  const { isLive } = useFleetUpdates();
+  const { data: snapshot, isLoading } = useQuery<OperationsSnapshot>({
+    queryKey: OPERATIONS_QUERY_KEY,
+    refetchInterval: isLive ? false : 30000,
+  });
+
+  const openBooking = (bookingId: number) => setLocation(`/tracking/${bookingId}`);
+
+  // Demand layers: past pickups for an hour of the week, and where to park free units this hour
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapDay, setHeatmapDay] = useState("now"); // "now", "all" or an index into weekDays
+  const [heatmapHour, setHeatmapHour] = useState(String(new Date().getHours()));
+  const [showStandby, setShowStandby] = useState(false);
+
+  const heatmapQuery = heatmapDay === "now" ? ""
+    : heatmapDay === "all" ? "?hourOfWeek=all"
+    : `?hourOfWeek=${Number(heatmapDay) * 24 + Number(heatmapHour)}`;
+  const { data: heatmap } = useQuery<DemandHeatmap>({
+    queryKey: [`/api/admin/demand/heatmap${heatmapQuery}`],
+    enabled: showHeatmap,
+  });
+
+  const { data: standbyPlan } = useQuery<StandbyPlan>({
+    queryKey: ["/api/admin/demand/standby"],
+    enabled: showStandby,
+    // The forecast hour and the free units both change as the shift goes on
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  // Coverage layer: how fast the free units reach each part of the service areas. Targets are
+  // only applied on blur or Enter so half-typed lists aren't sent.
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [coverageTargetsInput, setCoverageTargetsInput] = useState(DEFAULT_COVERAGE_TARGETS_MINUTES.join(","));
+  const [coverageTargets, setCoverageTargets] = useState(coverageTargetsInput);
+  const { data: coverage, error: coverageError } = useQuery<CoverageReport>({
+    queryKey: [`${COVERAGE_QUERY_PATH}?targets=${encodeURIComponent(coverageTargets)}`],
+    enabled: showCoverage,
+    // Status changes refetch straight away (see useFleetUpdates); this catches units moving
+    refetchInterval: 2 * 60 * 1000,
+  });
+
+  const heatCells = useMemo(() => {
+    if (!showHeatmap || !heatmap) return [];
+    const max = Math.max(...heatmap.cells.map(cell => cell.value), 1);
+    return heatmap.cells.map(cell => ({
+      bounds: cell.bounds,
+      intensity: cell.value / max,
+      tooltip: `${cell.value} pickup${cell.value === 1 ? "" : "s"}`,
+    }));
+  }, [showHeatmap, heatmap]);
+
+  const coverageCells = useMemo(() => {
+    if (!showCoverage || !coverage) return [];
+    const slowestTarget = coverage.targetsMinutes[coverage.targetsMinutes.length - 1];
+    return coverage.cells.map(cell => {
+      const target = cell.minutes == null ? -1 : coverage.targetsMinutes.findIndex(minutes => cell.minutes! <= minutes);
+      return {
+        bounds: cell.bounds,
+        intensity: target < 0 ? 0.8 : 0.4,
+        color: target < 0 ? COVERAGE_HOLE_COLOR : COVERAGE_TARGET_COLORS[target],
+        tooltip: cell.minutes == null
+          ? `Not reachable within ${slowestTarget} min`
+          : `${cell.minutes} min from the nearest free unit`,
+      };
+    });
+  }, [showCoverage, coverage]);
+
+  const mapCells = useMemo(() => [...heatCells, ...coverageCells], [heatCells, coverageCells]);
+
+  const mapData = useMemo(() => {
+    const ambulances = snapshot?.ambulances || [];
+    const bookings = snapshot?.bookings || [];
+    const jobByAmbulance: Record<number, Booking> = {};
+    bookings
+      .filter(booking => booking.ambulanceId != null && booking.status !== "pending")
+      .forEach(booking => { jobByAmbulance[booking.ambulanceId!] = booking; });
+
+    const located = ambulances.filter(ambulance => ambulance.latitude != null && ambulance.longitude != null);
+
+    const ambulanceMarkers = located.map(ambulance => {
+      const job = jobByAmbulance[ambulance.id];
+      return {
+        position: [ambulance.latitude!, ambulance.longitude!] as [number, number],
+        color: ambulanceStatusColors[ambulance.status] || "#6B7280",
+        tooltip: `${ambulance.registrationNumber} · ${ambulance.status.replace(/_/g, " ")}${job ? ` · Booking #${job.id}` : ""}`,
+        onClick: job ? () => openBooking(job.id) : undefined,
+      };
+    });
+
+    const pointMarkers: MapPin[] = bookings.flatMap(booking => {
+      const status = isBookingStatus(booking.status) ? bookingStatusLabels[booking.status] : booking.status;
+      const pins: MapPin[] = [{
+        position: [booking.pickupLatitude, booking.pickupLongitude] as [number, number],
+        color: PICKUP_PIN_COLOR,
+        tooltip: `Booking #${booking.id} pickup · ${status}`,
+        onClick: () => openBooking(booking.id),
+      }];
+      if (booking.destinationLatitude != null && booking.destinationLongitude != null) {
+        pins.push({
+          position: [booking.destinationLatitude, booking.destinationLongitude],
+          color: DESTINATION_PIN_COLOR,
+          tooltip: `Booking #${booking.id} destination · ${status}`,
+          onClick: () => openBooking(booking.id),
+        });
+      }
+      return pins;
+    });
+
+    // Each unit to where it is heading: the pickup until the patient is onboard, then the destination
+    const links = located.flatMap((ambulance, i) => {
+      const job = jobByAmbulance[ambulance.id];
+      if (!job) return [];
+      const towardsDestination = ["patient_onboard", "arrived_destination"].includes(job.status) &&
+        job.destinationLatitude != null && job.destinationLongitude != null;
+      return [{
+        from: ambulanceMarkers[i].position,
+        to: (towardsDestination
+          ? [job.destinationLatitude!, job.destinationLongitude!]
+          : [job.pickupLatitude, job.pickupLongitude]) as [number, number],
+        color: ambulanceMarkers[i].color,
+      }];
+    });
+
+    if (showStandby && standbyPlan) {
+      standbyPlan.recommendations.forEach(standby => {
+        const position: [number, number] = [standby.latitude, standby.longitude];
+        pointMarkers.push({
+          position,
+          color: STANDBY_PIN_COLOR,
+          tooltip: `Standby · ${standby.expectedCalls} calls/hour expected nearby` +
+            (standby.registrationNumber ? ` · send ${standby.registrationNumber} (${standby.distanceKm} km)` : ""),
+        });
+
+        const ambulance = located.find(ambulance => ambulance.id === standby.ambulanceId);
+        if (ambulance) {
+          links.push({ from: [ambulance.latitude!, ambulance.longitude!], to: position, color: STANDBY_PIN_COLOR });
+        }
+      });
+    }
+
+    return { ambulanceMarkers, pointMarkers, links };
+  }, [snapshot, showStandby, standbyPlan]);
+
+  const statusCounts = (snapshot?.ambulances || []).reduce<Record<string, number>>((counts, ambulance) => {
+    counts[ambulance.status] = (counts[ambulance.status] || 0) + 1;
+    return counts;
+  }, {});
+
+  const getAmbulanceRegistration = (ambulanceId: number | null) =>
+    snapshot?.ambulances.find(ambulance => ambulance.id === ambulanceId)?.registrationNumber || "Unassigned";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Live Operations</span>
+          <Badge variant={isLive ? "success" : "secondary"}>
+            {isLive ? "Live" : "Reconnecting..."}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-4 mb-4 text-sm">
+          {Object.entries(ambulanceStatusColors).map(([status, color]) => (
+            <div key={status} className="flex items-center gap-2">
+              <span className="inline-block h-3 w-3 rounded-full border-2" style={{ borderColor: color }} />
+              <span className="capitalize">{status.replace(/_/g, " ")}</span>
+              <span className="text-gray-500">{statusCounts[status] || 0}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ background: PICKUP_PIN_COLOR }} />
+            Pickup
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ background: DESTINATION_PIN_COLOR }} />
+            Destination
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6 mb-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Switch id="demand-heatmap" checked={showHeatmap} onCheckedChange={setShowHeatmap} />
+            <Label htmlFor="demand-heatmap">Demand heatmap</Label>
+          </div>
+          {showHeatmap && (
+            <div className="flex items-center gap-2">
+              <Select value={heatmapDay} onValueChange={setHeatmapDay}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="now">This hour</SelectItem>
+                  <SelectItem value="all">All week</SelectItem>
+                  {weekDays.map((day, i) => (
+                    <SelectItem key={day} value={String(i)}>{weekDayLabels[day]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {heatmapDay !== "now" && heatmapDay !== "all" && (
+                <Select value={heatmapHour} onValueChange={setHeatmapHour}>
+                  <SelectTrigger className="w-28 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>{String(hour).padStart(2, "0")}:00</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="standby-points" checked={showStandby} onCheckedChange={setShowStandby} />
+            <Label htmlFor="standby-points">Standby points</Label>
+            {showStandby && standbyPlan && (
+              <span className="text-gray-500">
+                {standbyPlan.recommendations.length} for this hour, each covering {standbyPlan.coverageRadiusKm} km
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="fleet-coverage" checked={showCoverage} onCheckedChange={setShowCoverage} />
+            <Label htmlFor="fleet-coverage">Coverage</Label>
+            {showCoverage && (
+              <Input
+                className="w-24 h-8"
+                aria-label="Coverage targets in minutes"
+                placeholder="8,15"
+                value={coverageTargetsInput}
+                onChange={(e) => setCoverageTargetsInput(e.target.value)}
+                onBlur={() => setCoverageTargets(coverageTargetsInput.replace(/\s/g, ""))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") setCoverageTargets(coverageTargetsInput.replace(/\s/g, ""));
+                }}
+              />
+            )}
+            {showCoverage && <span className="text-gray-500">min</span>}
+          </div>
+        </div>
+
+        {showCoverage && (
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+            {coverageError ? (
+              <span className="text-red-600">Targets must be up to 4 whole minutes from 1 to 60, e.g. 8,15</span>
+            ) : !coverage ? (
+              <span className="text-gray-500">Computing coverage...</span>
+            ) : coverage.cells.length === 0 ? (
+              <span className="text-gray-500">Add an active service area to analyse coverage.</span>
+            ) : (
+              <>
+                {coverage.coverage.map((target, i) => (
+                  <div key={target.minutes} className="flex items-center gap-2">
+                    <span className="inline-block h-3 w-3 rounded-sm" style={{ background: COVERAGE_TARGET_COLORS[i] }} />
+                    Within {target.minutes} min
+                    <span className="font-medium">{Math.round(target.share * 100)}%</span>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <span className="inline-block h-3 w-3 rounded-sm" style={{ background: COVERAGE_HOLE_COLOR }} />
+                  Gaps
+                </div>
+                <span className="text-gray-500">
+                  from {coverage.availableUnits} available unit{coverage.availableUnits === 1 ? "" : "s"},
+                  as of {new Date(coverage.computedAt).toLocaleTimeString()}
+                </span>
+              </>
+            )}
+          </div>
+        )}
+
+        <Map
+          center={[12.9716, 77.5946]}
+          zoom={12}
+          height="520px"
+          cluster
+          ambulanceMarkers={mapData.ambulanceMarkers}
+          pointMarkers={mapData.pointMarkers}
+          links={mapData.links}
+          heatCells={mapCells}
+        />
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : snapshot && snapshot.bookings.length > 0 ? (
+          <div className="overflow-x-auto mt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Booking</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ambulance</TableHead>
+                  <TableHead>Pickup</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshot.bookings.map(booking => (
+                  <TableRow key={booking.id}>
+                    <TableCell>#{booking.id}</TableCell>
+                    <TableCell className="capitalize">{booking.bookingType.replace(/_/g, " ")}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {isBookingStatus(booking.status) ? bookingStatusLabels[booking.status] : booking.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{getAmbulanceRegistration(booking.ambulanceId)}</TableCell>
+                    <TableCell className="max-w-xs truncate">{booking.pickupAddress}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => openBooking(booking.id)}>
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No bookings in progress.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const responseIntervalChartConfig = {
+  callToDispatch: { label: responseIntervalLabels.callToDispatch, color: "hsl(var(--chart-1))" },
+  dispatchToArrival: { label: responseIntervalLabels.dispatchToArrival, color: "hsl(var(--chart-2))" },
+  arrivalToHospital: { label: responseIntervalLabels.arrivalToHospital, color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+const responseTimeGroupingLabels: Record<ResponseTimeGrouping, string> = {
+  day: "Day",
+  zone: "Zone",
+  ambulance_type: "Ambulance type",
+};
+
+function formatDuration(seconds: number | null) {
+  if (seconds == null) return "-";
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function ResponseTimesPanel() {
+  const [rangeDays, setRangeDays] = useState("30");
+  const [groupBy, setGroupBy] = useState<ResponseTimeGrouping>("day");
+  const [stat, setStat] = useState<"p50" | "p90" | "p95">("p90");
+
+  // Fixed when the range is picked so the query key doesn't change on every render
+  const from = useMemo(() => new Date(Date.now() - Number(rangeDays) * DAY_MS).toISOString(), [rangeDays]);
+  const params = new URLSearchParams({ from, groupBy });
+
+  const { data: report, isLoading } = useQuery<ResponseTimeReport>({
+    queryKey: [`/api/admin/analytics/response-times?${params}`],
+  });
+
+  // Minutes read better than seconds on the axis
+  const chartData = (report?.groups || []).map(group => ({
+    label: group.label,
+    ...Object.fromEntries(responseIntervals.map(interval => {
+      const seconds = group.intervals[interval][stat];
+      return [interval, seconds == null ? null : Math.round(seconds / 6) / 10];
+    })),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Response Times</span>
+          <div className="flex gap-2">
+            <Select value={rangeDays} onValueChange={setRangeDays}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as ResponseTimeGrouping)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {responseTimeGroupings.map(grouping => (
+                  <SelectItem key={grouping} value={grouping}>By {responseTimeGroupingLabels[grouping].toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={stat} onValueChange={(value) => setStat(value as "p50" | "p90" | "p95")}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="p50">Median</SelectItem>
+                <SelectItem value="p90">90th</SelectItem>
+                <SelectItem value="p95">95th</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : report && report.overall.bookings > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              {responseIntervals.map(interval => {
+                const stats = report.overall.intervals[interval];
+                return (
+                  <div key={interval} className="rounded-md border p-4">
+                    <div className="text-sm text-gray-500">{responseIntervalLabels[interval]}</div>
+                    <div className="text-2xl font-semibold">{formatDuration(stats.p50)}</div>
+                    <div className="text-xs text-gray-500">
+                      median · 90th {formatDuration(stats.p90)} · {stats.count} bookings
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <ChartContainer config={responseIntervalChartConfig} className="aspect-auto h-72 w-full">
+              {groupBy === "day" ? (
+                <LineChart data={chartData} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} unit=" min" width={60} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {responseIntervals.map(interval => (
+                    <Line key={interval} dataKey={interval} stroke={`var(--color-${interval})`} strokeWidth={2} dot={false} connectNulls />
+                  ))}
+                </LineChart>
+              ) : (
+                <BarChart data={chartData} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} unit=" min" width={60} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {responseIntervals.map(interval => (
+                    <Bar key={interval} dataKey={interval} fill={`var(--color-${interval})`} radius={4} />
+                  ))}
+                </BarChart>
+              )}
+            </ChartContainer>
+
+            <div className="overflow-x-auto mt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{responseTimeGroupingLabels[report.groupBy]}</TableHead>
+                    <TableHead>Bookings</TableHead>
+                    {responseIntervals.map(interval => (
+                      <TableHead key={interval}>{responseIntervalLabels[interval]} (median / 90th)</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.groups.map(group => (
+                    <TableRow key={group.key}>
+                      <TableCell>{group.label}</TableCell>
+                      <TableCell>{group.bookings}</TableCell>
+                      {responseIntervals.map(interval => (
+                        <TableCell key={interval}>
+                          {formatDuration(group.intervals[interval].p50)} / {formatDuration(group.intervals[interval].p90)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No emergency bookings in this period.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function BookingsPanel() {
   const [activeTab, setActiveTab] = useState("upcoming");
+  const [paymentsBooking, setPaymentsBooking] = useState<Booking | null>(null);
+  const [replayBookingId, setReplayBookingId] = useState<number | null>(null);
+  const [exporting, setExporting] = useState(false);
   
   // Fetch all bookings
   const { data: bookings, isLoading } = useQuery<Booking[]>({
@@ -86,11 +755,11 @@ function BookingsPanel() {
   // Filter bookings based on tab
   const filteredBookings = bookings?.filter(booking => {
     if (activeTab === "upcoming") {
-      return ["pending", "confirmed", "in_progress"].includes(booking.status);
+      return booking.status === "pending" || isActiveBookingStatus(booking.status);
     } else if (activeTab === "completed") {
       return booking.status === "completed";
     } else if (activeTab === "cancelled") {
-      return booking.status === "cancelled";
+      return ["cancelled", "skipped"].includes(booking.status);
     }
     return true;
   });
@@ -99,14 +768,18 @@ function BookingsPanel() {
     const statusColors: Record<string, string> = {
       pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
       confirmed: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
-      in_progress: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+      en_route: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+      arrived_pickup: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+      patient_onboard: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200",
+      arrived_destination: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200",
       completed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
       cancelled: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+      skipped: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
     };
     
     return (
       <Badge className={`${statusColors[status] || ''}`}>
-        {status.replace('_', ' ').charAt(0).toUpperCase() + status.replace('_', ' ').slice(1)}
+        {isBookingStatus(status) ? bookingStatusLabels[status] : status}
       </Badge>
     );
   };
@@ -141,6 +814,10 @@ function BookingsPanel() {
               <XCircle className="h-4 w-4 mr-2" />
               Cancelled
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setExporting(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
           </div>
         </CardTitle>
       </CardHeader>
@@ -161,6 +838,7 @@ function BookingsPanel() {
                   <TableHead>Pickup</TableHead>
                   <TableHead>Destination</TableHead>
                   <TableHead>Time</TableHead>
+                  <TableHead>Payment</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -186,6 +864,9 @@ function BookingsPanel() {
                         ? new Date(booking.scheduledTime).toLocaleString() 
                         : new Date(booking.createdAt!).toLocaleString()}
                     </TableCell>
+                    <TableCell>
+                      {booking.status === "completed" ? <PaymentStatusBadge status={booking.paymentStatus} /> : "—"}
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Button size="icon" variant="ghost">
@@ -194,6 +875,23 @@ function BookingsPanel() {
                         <Button size="icon" variant="ghost">
                           <Phone className="h-4 w-4" />
                         </Button>
+                        {booking.status === "completed" && (
+                          <Button size="icon" variant="ghost" title="Download invoice" asChild>
+                            <a href={`/api/secure/bookings/${booking.id}/invoice`} download>
+                              <FileText className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        {["completed", "cancelled"].includes(booking.status) && booking.ambulanceId && (
+                          <Button size="icon" variant="ghost" title="Replay trip" onClick={() => setReplayBookingId(booking.id)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {booking.status === "completed" && (
+                          <Button size="icon" variant="ghost" title="Payments" onClick={() => setPaymentsBooking(booking)}>
+                            <IndianRupee className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -207,25 +905,444 @@ function BookingsPanel() {
           </div>
         )}
       </CardContent>
+      
+      {paymentsBooking && (
+        <BookingPaymentsDialog booking={paymentsBooking} onClose={() => setPaymentsBooking(null)} />
+      )}
+      
+      {replayBookingId && (
+        <TripReplayDialog bookingId={replayBookingId} onClose={() => setReplayBookingId(null)} />
+      )}
+      
+      {exporting && <ExportDialog dataset="bookings" onClose={() => setExporting(false)} />}
     </Card>
   );
 }
 
+// Payments taken on a booking; admins record cash and issue refunds here
+function BookingPaymentsDialog({ booking, onClose }: { booking: Booking; onClose: () => void }) {
+  const { toast } = useToast();
+  const [refunding, setRefunding] = useState<Payment | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const paymentsKey = `/api/secure/bookings/${booking.id}/payments`;
+
+  const { data: summary, isLoading } = useQuery<BookingPaymentSummary>({
+    queryKey: [paymentsKey],
+  });
+
+  const invalidatePayments = () => {
+    queryClient.invalidateQueries({ queryKey: [paymentsKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+  };
+
+  const cashMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", paymentsKey, { method: "cash" });
+      return await res.json();
+    },
+    onSuccess: (payment: Payment) => {
+      invalidatePayments();
+      toast({
+        title: "Cash payment recorded",
+        description: `${formatRupees(payment.amount)} received for booking #${booking.id}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to record payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/payments/${refunding!.id}/refunds`, {
+        amount: parseFloat(refundAmount),
+        reason: refundReason.trim(),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidatePayments();
+      toast({
+        title: "Refund issued",
+        description: `${formatRupees(parseFloat(refundAmount))} refunded on payment #${refunding!.id}.`,
+      });
+      setRefunding(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to issue refund",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startRefund = (payment: Payment) => {
+    setRefunding(payment);
+    setRefundAmount((payment.amount - payment.refundedAmount).toFixed(2));
+    setRefundReason("");
+  };
+
+  const refundValid = !isNaN(parseFloat(refundAmount)) && parseFloat(refundAmount) > 0 && refundReason.trim().length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payments for Booking #{booking.id}</DialogTitle>
+          <DialogDescription>
+            {summary
+              ? `Fare ${summary.fare != null ? formatRupees(summary.fare) : "N/A"} · Due ${formatRupees(summary.amountDue)}`
+              : "Loading payments..."}
+          </DialogDescription>
+        </DialogHeader>
+        
+        {isLoading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : summary && summary.payments.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Refunded</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.payments.map(payment => (
+                <TableRow key={payment.id}>
+                  <TableCell>{payment.id}</TableCell>
+                  <TableCell className="uppercase">{payment.method}</TableCell>
+                  <TableCell>{formatRupees(payment.amount)}</TableCell>
+                  <TableCell className="capitalize">
+                    {payment.status.replace(/_/g, " ")}
+                    {payment.failureReason && (
+                      <div className="text-xs text-gray-500">{payment.failureReason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {payment.refunds.length > 0 ? (
+                      payment.refunds.map(refund => (
+                        <div key={refund.id} className="text-xs">
+                          {formatRupees(refund.amount)} — {refund.reason}
+                        </div>
+                      ))
+                    ) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {payment.status === "succeeded" && (
+                      <Button size="sm" variant="outline" onClick={() => startRefund(payment)}>
+                        Refund
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-4 text-gray-500">
+            No payments yet.
+          </div>
+        )}
+        
+        {refunding && (
+          <div className="space-y-3 border rounded-md p-4">
+            <p className="font-medium">Refund payment #{refunding.id}</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="refund-amount">Amount (₹)</Label>
+                <Input
+                  id="refund-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="refund-reason">Reason</Label>
+                <Input
+                  id="refund-reason"
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setRefunding(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={!refundValid || refundMutation.isPending}
+                onClick={() => refundMutation.mutate()}
+              >
+                Issue Refund
+              </Button>
+            </div>
+          </div>
+        )}
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            disabled={!summary || summary.amountDue <= 0 || cashMutation.isPending}
+            onClick={() => cashMutation.mutate()}
+          >
+            Record Cash Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Select value for "no filter"
+const ANY_FILTER = "any";
+
+function ExportDialog({ dataset, onClose }: { dataset: ExportDataset; onClose: () => void }) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [includePhi, setIncludePhi] = useState(false);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [status, setStatus] = useState(ANY_FILTER);
+  const [bookingType, setBookingType] = useState(ANY_FILTER);
+  const [hospitalId, setHospitalId] = useState(ANY_FILTER);
+
+  const isBookings = dataset === "bookings";
+  const { data: hospitals } = useQuery<Hospital[]>({
+    queryKey: ["/api/admin/hospitals"],
+    enabled: isBookings,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ format });
+      if (includePhi) params.set("includePhi", "true");
+      if (isBookings) {
+        // Dates are whole local days, the "to" day included
+        if (fromDate) params.set("from", new Date(`${fromDate}T00:00`).toISOString());
+        if (toDate) params.set("to", new Date(new Date(`${toDate}T00:00`).getTime() + DAY_MS).toISOString());
+        if (status !== ANY_FILTER) params.set("status", status);
+        if (bookingType !== ANY_FILTER) params.set("type", bookingType);
+        if (hospitalId !== ANY_FILTER) params.set("hospitalId", hospitalId);
+      }
+
+      const res = await apiRequest("GET", `/api/admin/exports/${dataset}?${params}`);
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `${dataset}.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onSuccess: () => onClose(),
+    onError: (error: Error) => {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export {exportDatasetLabels[dataset]}</DialogTitle>
+          <DialogDescription>
+            Download as a spreadsheet.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2 col-span-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map(option => (
+                  <SelectItem key={option} value={option}>{option === "csv" ? "CSV" : "Excel (XLSX)"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          {isBookings && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="export-from">Created from</Label>
+                <Input id="export-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-to">Created until</Label>
+                <Input id="export-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_FILTER}>All statuses</SelectItem>
+                    {bookingStatuses.map(option => (
+                      <SelectItem key={option} value={option}>{bookingStatusLabels[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={bookingType} onValueChange={setBookingType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_FILTER}>All types</SelectItem>
+                    <SelectItem value="emergency">Emergency</SelectItem>
+                    <SelectItem value="scheduled">Scheduled</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Hospital</Label>
+                <Select value={hospitalId} onValueChange={setHospitalId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_FILTER}>All hospitals</SelectItem>
+                    {hospitals?.map(hospital => (
+                      <SelectItem key={hospital.id} value={hospital.id.toString()}>{hospital.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          
+          {phiExportDatasets.includes(dataset) && (
+            <div className="col-span-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="export-include-phi"
+                  checked={includePhi}
+                  onCheckedChange={(checked) => setIncludePhi(checked === true)}
+                />
+                <Label htmlFor="export-include-phi" className="font-normal">
+                  Include patient health information
+                </Label>
+              </div>
+              <p className="text-sm text-gray-500">
+                {includePhi
+                  ? "Names, contact details, conditions and addresses will be in the file. Store and share it accordingly."
+                  : "Patient names, contact details, conditions and addresses are left out."}
+              </p>
+            </div>
+          )}
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+            <Download className="h-4 w-4 mr-2" />
+            {exportMutation.isPending ? "Exporting..." : "Download"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function AmbulancesPanel() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<AmbulanceType | "new" | null>(null);
+  const [exporting, setExporting] = useState(false);
+  
   // Fetch all ambulances
   const { data: ambulances, isLoading } = useQuery<AmbulanceType[]>({
     queryKey: ["/api/admin/ambulances"],
   });
+  
+  const { data: ambulanceTypes } = useQuery<AmbulanceCategory[]>({
+    queryKey: ["/api/admin/ambulance-types"],
+  });
+  
+  const { data: drivers } = useQuery<User[]>({
+    queryKey: ["/api/admin/drivers"],
+  });
+
+  const decommissionMutation = useMutation({
+    mutationFn: async (ambulanceId: number) => {
+      const res = await apiRequest("DELETE", `/api/admin/ambulances/${ambulanceId}`);
+      return await res.json();
+    },
+    onSuccess: (ambulance: AmbulanceType) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ambulances"] });
+      toast({
+        title: "Ambulance decommissioned",
+        description: `${ambulance.registrationNumber} has been removed from service.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to decommission ambulance",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const decommission = (ambulance: AmbulanceType) => {
+    if (confirm(`Decommission ${ambulance.registrationNumber}? It will no longer receive jobs.`)) {
+      decommissionMutation.mutate(ambulance.id);
+    }
+  };
+
+  const getTypeName = (typeId: number) => ambulanceTypes?.find(type => type.id === typeId)?.name || typeId;
+  
+  const getDriverName = (driverId: number | null) => {
+    if (!driverId) return "Unassigned";
+    const driver = drivers?.find(driver => driver.id === driverId);
+    return driver ? `${driver.firstName} ${driver.lastName}` : driverId;
+  };
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
           <span>Manage Ambulances</span>
-          <Button size="sm">
-            <PlusCircle className="h-4 w-4 mr-2" />
-            Add Ambulance
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setExporting(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button size="sm" onClick={() => setEditing("new")}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Add Ambulance
+            </Button>
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -249,16 +1366,17 @@ function AmbulancesPanel() {
               </TableHeader>
               <TableBody>
                 {ambulances.map((ambulance) => (
-                  <TableRow key={ambulance.id}>
+                  <TableRow key={ambulance.id} className={ambulance.status === "decommissioned" ? "opacity-50" : ""}>
                     <TableCell>{ambulance.id}</TableCell>
                     <TableCell>{ambulance.registrationNumber}</TableCell>
-                    <TableCell>{ambulance.typeId}</TableCell>
+                    <TableCell>{getTypeName(ambulance.typeId)}</TableCell>
                     <TableCell>
                       <Badge 
                         variant={ambulance.status === "available" ? "success" : 
-                          (ambulance.status === "assigned" ? "secondary" : "default")}
+                          (ambulance.status === "assigned" ? "secondary" :
+                          (["out_of_service", "decommissioned"].includes(ambulance.status) ? "destructive" : "default"))}
                       >
-                        {ambulance.status}
+                        {ambulance.status.replace('_', ' ')}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -266,16 +1384,23 @@ function AmbulancesPanel() {
                         `${ambulance.latitude.toFixed(4)}, ${ambulance.longitude.toFixed(4)}` : 
                         "N/A"}
                     </TableCell>
-                    <TableCell>{ambulance.driverId || "Unassigned"}</TableCell>
+                    <TableCell>{getDriverName(ambulance.driverId)}</TableCell>
                     <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button size="icon" variant="ghost">
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button size="icon" variant="ghost">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                      {ambulance.status !== "decommissioned" && (
+                        <div className="flex items-center gap-2">
+                          <Button size="icon" variant="ghost" onClick={() => setEditing(ambulance)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            size="icon" 
+                            variant="ghost" 
+                            disabled={decommissionMutation.isPending}
+                            onClick={() => decommission(ambulance)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -288,27 +1413,1037 @@ function AmbulancesPanel() {
           </div>
         )}
       </CardContent>
+      
+      {editing && (
+        <AmbulanceDialog
+          ambulance={editing === "new" ? null : editing}
+          ambulanceTypes={ambulanceTypes || []}
+          drivers={drivers || []}
+          ambulances={ambulances || []}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      
+      {exporting && <ExportDialog dataset="ambulances" onClose={() => setExporting(false)} />}
     </Card>
   );
 }
 
-function DriversPanel() {
-  // Fetch all drivers
-  const { data: drivers, isLoading } = useQuery<User[]>({
-    queryKey: ["/api/admin/drivers"],
+const NO_DRIVER = "none";
+
+function AmbulanceDialog({ ambulance, ambulanceTypes, drivers, ambulances, onClose }: {
+  ambulance: AmbulanceType | null;
+  ambulanceTypes: AmbulanceCategory[];
+  drivers: User[];
+  ambulances: AmbulanceType[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [registrationNumber, setRegistrationNumber] = useState(ambulance?.registrationNumber || "");
+  const [typeId, setTypeId] = useState(ambulance?.typeId?.toString() || "");
+  const [status, setStatus] = useState(ambulance?.status || "available");
+  const [driverId, setDriverId] = useState(ambulance?.driverId?.toString() || NO_DRIVER);
+  
+  // Dispatch controls units that are offered, reserved or on a job
+  const isOnJob = !!ambulance && !(adminAmbulanceStatuses as readonly string[]).includes(ambulance.status);
+  
+  // Drivers already driving another vehicle can't be picked
+  const assignedDriverIds = new Set(
+    ambulances.filter(other => other.id !== ambulance?.id && other.driverId).map(other => other.driverId)
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const details = {
+        registrationNumber: registrationNumber.trim(),
+        typeId: parseInt(typeId),
+        status,
+      };
+      const selectedDriverId = driverId === NO_DRIVER ? null : parseInt(driverId);
+      
+      if (!ambulance) {
+        const res = await apiRequest("POST", "/api/admin/ambulances", { ...details, driverId: selectedDriverId });
+        return await res.json();
+      }
+      
+      const res = await apiRequest("PATCH", `/api/admin/ambulances/${ambulance.id}`, details);
+      if (selectedDriverId !== ambulance.driverId) {
+        const driverRes = await apiRequest("POST", `/api/admin/ambulances/${ambulance.id}/driver`, { driverId: selectedDriverId });
+        return await driverRes.json();
+      }
+      return await res.json();
+    },
+    onSuccess: (saved: AmbulanceType) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ambulances"] });
+      toast({
+        title: ambulance ? "Ambulance updated" : "Ambulance registered",
+        description: `${saved.registrationNumber} has been saved.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ambulances"] });
+      toast({
+        title: "Failed to save ambulance",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = registrationNumber.trim().length > 0 && !!typeId && !isOnJob;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{ambulance ? `Edit ${ambulance.registrationNumber}` : "Register Ambulance"}</DialogTitle>
+          <DialogDescription>
+            {isOnJob
+              ? `This ambulance is ${ambulance!.status}. It can be changed once its job is finished.`
+              : "Vehicle details, service status and assigned driver."}
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="registration-number">Registration number</Label>
+            <Input
+              id="registration-number"
+              value={registrationNumber}
+              disabled={isOnJob}
+              onChange={(e) => setRegistrationNumber(e.target.value)}
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={typeId} onValueChange={setTypeId} disabled={isOnJob}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a type" />
+              </SelectTrigger>
+              <SelectContent>
+                {ambulanceTypes.map(type => (
+                  <SelectItem key={type.id} value={type.id.toString()}>{type.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus} disabled={isOnJob}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {adminAmbulanceStatuses.map(option => (
+                  <SelectItem key={option} value={option} className="capitalize">{option.replace('_', ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="space-y-2">
+            <Label>Driver</Label>
+            <Select value={driverId} onValueChange={setDriverId} disabled={isOnJob}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_DRIVER}>Unassigned</SelectItem>
+                {drivers.map(driver => (
+                  <SelectItem 
+                    key={driver.id} 
+                    value={driver.id.toString()} 
+                    disabled={assignedDriverIds.has(driver.id)}
+                  >
+                    {driver.firstName} {driver.lastName}
+                    {assignedDriverIds.has(driver.id) ? " (assigned elsewhere)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {ambulance ? "Save Changes" : "Register"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AmbulanceTypesPanel() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<AmbulanceCategory | "new" | null>(null);
+  
+  // All types, including deactivated ones
+  const { data: ambulanceTypes, isLoading } = useQuery<AmbulanceCategory[]>({
+    queryKey: ["/api/admin/ambulance-types"],
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (type: AmbulanceCategory) => {
+      const res = type.isActive
+        ? await apiRequest("DELETE", `/api/admin/ambulance-types/${type.id}`)
+        : await apiRequest("PATCH", `/api/admin/ambulance-types/${type.id}`, { isActive: true });
+      return await res.json();
+    },
+    onSuccess: (type: AmbulanceCategory) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ambulance-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ambulance-types"] });
+      toast({
+        title: type.isActive ? "Service reactivated" : "Service deactivated",
+        description: type.isActive
+          ? `${type.name} can be booked again.`
+          : `${type.name} is hidden from the catalog and booking forms.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update service",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
-          <span>Manage Drivers</span>
-          <Button size="sm">
+          <span>Services &amp; Pricing</span>
+          <Button size="sm" onClick={() => setEditing("new")}>
             <PlusCircle className="h-4 w-4 mr-2" />
-            Add Driver
+            Add Service
           </Button>
         </CardTitle>
       </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : ambulanceTypes && ambulanceTypes.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Base Price</TableHead>
+                  <TableHead>Per km</TableHead>
+                  <TableHead>Features</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ambulanceTypes.map((type) => (
+                  <TableRow key={type.id} className={type.isActive ? "" : "opacity-50"}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <AmbulanceTypeIcon icon={type.icon} className="h-4 w-4 text-primary" />
+                        <span className="font-medium">{type.name}</span>
+                        {type.isPopular && <Badge variant="outline">Popular</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatRupees(type.basePrice)}</TableCell>
+                    <TableCell>{formatRupees(type.pricePerKm)}</TableCell>
+                    <TableCell>{type.features?.length || 0}</TableCell>
+                    <TableCell>
+                      <Badge variant={type.isActive ? "success" : "secondary"}>
+                        {type.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button size="icon" variant="ghost" onClick={() => setEditing(type)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={toggleActiveMutation.isPending}
+                          onClick={() => toggleActiveMutation.mutate(type)}
+                        >
+                          {type.isActive ? "Deactivate" : "Activate"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No services found.
+          </div>
+        )}
+      </CardContent>
+      
+      {editing && (
+        <AmbulanceTypeDialog
+          ambulanceType={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+// Features and equipment are edited as one item per line
+const toLines = (items: string[] | null) => (items || []).join("\n");
+const fromLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+function AmbulanceTypeDialog({ ambulanceType, onClose }: {
+  ambulanceType: AmbulanceCategory | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(ambulanceType?.name || "");
+  const [description, setDescription] = useState(ambulanceType?.description || "");
+  const [icon, setIcon] = useState(ambulanceType?.icon || "ambulance");
+  const [basePrice, setBasePrice] = useState(ambulanceType?.basePrice?.toString() || "");
+  const [pricePerKm, setPricePerKm] = useState(ambulanceType?.pricePerKm?.toString() || "");
+  const [features, setFeatures] = useState(toLines(ambulanceType?.features || null));
+  const [equipment, setEquipment] = useState(toLines(ambulanceType?.equipment || null));
+  const [idealFor, setIdealFor] = useState(ambulanceType?.idealFor || "");
+  const [isPopular, setIsPopular] = useState(ambulanceType?.isPopular || false);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: name.trim(),
+        description: description.trim(),
+        icon,
+        basePrice: parseFloat(basePrice),
+        pricePerKm: parseFloat(pricePerKm),
+        features: fromLines(features),
+        equipment: fromLines(equipment),
+        idealFor: idealFor.trim() || null,
+        isPopular,
+      };
+      const res = ambulanceType
+        ? await apiRequest("PATCH", `/api/admin/ambulance-types/${ambulanceType.id}`, data)
+        : await apiRequest("POST", "/api/admin/ambulance-types", data);
+      return await res.json();
+    },
+    onSuccess: (saved: AmbulanceCategory) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ambulance-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ambulance-types"] });
+      toast({
+        title: ambulanceType ? "Service updated" : "Service added",
+        description: `${saved.name} has been saved.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save service",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pricesValid = [basePrice, pricePerKm].every(value => value !== "" && !isNaN(parseFloat(value)) && parseFloat(value) >= 0);
+  const canSave = name.trim().length > 0 && description.trim().length > 0 && pricesValid;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ambulanceType ? `Edit ${ambulanceType.name}` : "Add Service"}</DialogTitle>
+          <DialogDescription>
+            Shown on the services page and used to price new bookings.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2 col-span-2 md:col-span-1">
+            <Label htmlFor="type-name">Name</Label>
+            <Input id="type-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2 col-span-2 md:col-span-1">
+            <Label>Icon</Label>
+            <Select value={icon} onValueChange={setIcon}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ambulanceTypeIcons.map(option => (
+                  <SelectItem key={option} value={option}>
+                    <span className="flex items-center gap-2">
+                      <AmbulanceTypeIcon icon={option} className="h-4 w-4" />
+                      <span className="capitalize">{option}</span>
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="type-description">Description</Label>
+            <Input id="type-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="type-base-price">Base price (₹)</Label>
+            <Input id="type-base-price" type="number" min="0" value={basePrice} onChange={(e) => setBasePrice(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="type-price-per-km">Price per km (₹)</Label>
+            <Input id="type-price-per-km" type="number" min="0" value={pricePerKm} onChange={(e) => setPricePerKm(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2 col-span-2 md:col-span-1">
+            <Label htmlFor="type-features">Features (one per line)</Label>
+            <Textarea id="type-features" rows={5} value={features} onChange={(e) => setFeatures(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2 col-span-2 md:col-span-1">
+            <Label htmlFor="type-equipment">Equipment (one per line)</Label>
+            <Textarea id="type-equipment" rows={5} value={equipment} onChange={(e) => setEquipment(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="type-ideal-for">Ideal for</Label>
+            <Input id="type-ideal-for" value={idealFor} onChange={(e) => setIdealFor(e.target.value)} />
+          </div>
+          
+          <div className="flex items-center gap-3 col-span-2">
+            <Switch id="type-popular" checked={isPopular} onCheckedChange={setIsPopular} />
+            <Label htmlFor="type-popular">Highlight as popular</Label>
+          </div>
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {ambulanceType ? "Save Changes" : "Add Service"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function HospitalsPanel() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Hospital | "new" | null>(null);
+  
+  // All hospitals, including deactivated ones
+  const { data: hospitals, isLoading } = useQuery<Hospital[]>({
+    queryKey: ["/api/admin/hospitals"],
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (hospital: Hospital) => {
+      const res = hospital.isActive
+        ? await apiRequest("DELETE", `/api/admin/hospitals/${hospital.id}`)
+        : await apiRequest("PATCH", `/api/admin/hospitals/${hospital.id}`, { isActive: true });
+      return await res.json();
+    },
+    onSuccess: (hospital: Hospital) => {
+      invalidateHospitalQueries();
+      toast({
+        title: hospital.isActive ? "Hospital reactivated" : "Hospital deactivated",
+        description: hospital.isActive
+          ? `${hospital.name} can be chosen as a destination again.`
+          : `${hospital.name} is hidden from booking forms.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update hospital",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Hospital Directory</span>
+          <Button size="sm" onClick={() => setEditing("new")}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Hospital
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : hospitals && hospitals.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hospital</TableHead>
+                  <TableHead>Specialties</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hospitals.map((hospital) => (
+                  <TableRow key={hospital.id} className={hospital.isActive ? "" : "opacity-50"}>
+                    <TableCell>
+                      <div className="font-medium">{hospital.name}</div>
+                      <div className="text-xs text-gray-500">{hospital.address}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {hospital.specialties.map(specialty => (
+                          <Badge key={specialty} variant="outline">{getSpecialtyLabel(specialty)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {hospital.phone && (
+                        <div className="flex items-center gap-1 text-sm">
+                          <Phone className="h-3 w-3" />
+                          {hospital.phone}
+                        </div>
+                      )}
+                      {hospital.edPhone && (
+                        <div className="text-xs text-gray-500">ED: {hospital.edPhone}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{hospital.operatingHours ? "Limited hours" : "24x7"}</TableCell>
+                    <TableCell>
+                      <Badge variant={hospital.isActive ? "success" : "secondary"}>
+                        {hospital.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button size="icon" variant="ghost" onClick={() => setEditing(hospital)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={toggleActiveMutation.isPending}
+                          onClick={() => toggleActiveMutation.mutate(hospital)}
+                        >
+                          {hospital.isActive ? "Deactivate" : "Activate"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No hospitals found.
+          </div>
+        )}
+      </CardContent>
+      
+      {editing && (
+        <HospitalDialog
+          hospital={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+// Booking forms cache hospital searches under several URLs
+const invalidateHospitalQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/hospitals"] });
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/hospitals"),
+  });
+};
+
+const weekDayLabels: Record<typeof weekDays[number], string> = {
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Saturday",
+  sun: "Sunday",
+};
+
+const defaultOperatingHours: OperatingHours = Object.fromEntries(
+  weekDays.map(day => [day, { open: "09:00", close: "17:00" }])
+);
+
+function HospitalDialog({ hospital, onClose }: {
+  hospital: Hospital | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(hospital?.name || "");
+  const [address, setAddress] = useState(hospital?.address || "");
+  const [latitude, setLatitude] = useState(hospital?.latitude?.toString() || "");
+  const [longitude, setLongitude] = useState(hospital?.longitude?.toString() || "");
+  const [specialties, setSpecialties] = useState<string[]>(hospital?.specialties || []);
+  const [phone, setPhone] = useState(hospital?.phone || "");
+  const [edPhone, setEdPhone] = useState(hospital?.edPhone || "");
+  const [isOpen24x7, setIsOpen24x7] = useState(!hospital?.operatingHours);
+  const [hours, setHours] = useState<OperatingHours>((hospital?.operatingHours as OperatingHours) || defaultOperatingHours);
+
+  const toggleSpecialty = (specialty: HospitalSpecialty, checked: boolean) => {
+    setSpecialties(current => checked ? [...current, specialty] : current.filter(s => s !== specialty));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: name.trim(),
+        address: address.trim(),
+        latitude: parseFloat(latitude),
+        longitude: parseFloat(longitude),
+        specialties,
+        phone: phone.trim() || null,
+        edPhone: edPhone.trim() || null,
+        operatingHours: isOpen24x7 ? null : hours,
+      };
+      const res = hospital
+        ? await apiRequest("PATCH", `/api/admin/hospitals/${hospital.id}`, data)
+        : await apiRequest("POST", "/api/admin/hospitals", data);
+      return await res.json();
+    },
+    onSuccess: (saved: Hospital) => {
+      invalidateHospitalQueries();
+      toast({
+        title: hospital ? "Hospital updated" : "Hospital added",
+        description: `${saved.name} has been saved.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save hospital",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const coordinatesValid = [latitude, longitude].every(value => value !== "" && !isNaN(parseFloat(value)));
+  const canSave = name.trim().length > 0 && address.trim().length > 0 && coordinatesValid && specialties.length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{hospital ? `Edit ${hospital.name}` : "Add Hospital"}</DialogTitle>
+          <DialogDescription>
+            Listed as a destination in booking forms and filtered by specialty.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="hospital-name">Name</Label>
+            <Input id="hospital-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="hospital-address">Address</Label>
+            <Input id="hospital-address" value={address} onChange={(e) => setAddress(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="hospital-latitude">Latitude</Label>
+            <Input id="hospital-latitude" type="number" step="any" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="hospital-longitude">Longitude</Label>
+            <Input id="hospital-longitude" type="number" step="any" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="hospital-phone">Phone</Label>
+            <Input id="hospital-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="hospital-ed-phone">Emergency department phone</Label>
+            <Input id="hospital-ed-phone" value={edPhone} onChange={(e) => setEdPhone(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2 col-span-2">
+            <Label>Specialties</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {hospitalSpecialties.map(specialty => (
+                <div key={specialty} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`hospital-specialty-${specialty}`}
+                    checked={specialties.includes(specialty)}
+                    onCheckedChange={(checked) => toggleSpecialty(specialty, checked === true)}
+                  />
+                  <Label htmlFor={`hospital-specialty-${specialty}`} className="font-normal">
+                    {hospitalSpecialtyLabels[specialty]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          <div className="flex items-center gap-3 col-span-2">
+            <Switch id="hospital-24x7" checked={isOpen24x7} onCheckedChange={setIsOpen24x7} />
+            <Label htmlFor="hospital-24x7">Open 24x7</Label>
+          </div>
+          
+          {!isOpen24x7 && (
+            <div className="space-y-2 col-span-2">
+              {weekDays.map(day => {
+                const dayHours = hours[day];
+                return (
+                  <div key={day} className="flex items-center gap-3">
+                    <span className="w-24 text-sm">{weekDayLabels[day]}</span>
+                    <Switch
+                      checked={!!dayHours}
+                      onCheckedChange={(open) => setHours(current => ({
+                        ...current,
+                        [day]: open ? { open: "09:00", close: "17:00" } : null,
+                      }))}
+                    />
+                    {dayHours ? (
+                      <>
+                        <Input
+                          type="time"
+                          className="w-32"
+                          value={dayHours.open}
+                          onChange={(e) => setHours(current => ({ ...current, [day]: { ...dayHours, open: e.target.value } }))}
+                        />
+                        <span className="text-sm text-gray-500">to</span>
+                        <Input
+                          type="time"
+                          className="w-32"
+                          value={dayHours.close}
+                          onChange={(e) => setHours(current => ({ ...current, [day]: { ...dayHours, close: e.target.value } }))}
+                        />
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500">Closed</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {hospital ? "Save Changes" : "Add Hospital"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ServiceAreasPanel() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ServiceArea | "new" | null>(null);
+  
+  const { data: areas, isLoading } = useQuery<ServiceArea[]>({
+    queryKey: ["/api/admin/service-areas"],
+  });
+
+  const mapAreas = useMemo(() => (areas || [])
+    .filter(area => area.isActive)
+    .map(area => ({ polygon: area.polygon as ServiceAreaPolygon, tooltip: `${area.name}, ${area.city}` })), [areas]);
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (area: ServiceArea) => {
+      const res = await apiRequest("PATCH", `/api/admin/service-areas/${area.id}`, { isActive: !area.isActive });
+      return await res.json();
+    },
+    onSuccess: (area: ServiceArea) => {
+      invalidateServiceAreaQueries();
+      toast({
+        title: area.isActive ? "Service area activated" : "Service area paused",
+        description: area.isActive
+          ? `Pickups in ${area.name} are accepted again.`
+          : `Pickups in ${area.name} are no longer accepted.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update service area",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (area: ServiceArea) => {
+      await apiRequest("DELETE", `/api/admin/service-areas/${area.id}`);
+      return area;
+    },
+    onSuccess: (area: ServiceArea) => {
+      invalidateServiceAreaQueries();
+      toast({
+        title: "Service area deleted",
+        description: `${area.name} has been removed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete service area",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteArea = (area: ServiceArea) => {
+    if (confirm(`Delete the service area ${area.name}? Pickups inside it will no longer be accepted.`)) {
+      deleteMutation.mutate(area);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Service Areas</span>
+          <Button size="sm" onClick={() => setEditing("new")}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Area
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : areas && areas.length > 0 ? (
+          <>
+            <Map center={[12.9716, 77.5946]} zoom={10} areas={mapAreas} height="320px" />
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Area</TableHead>
+                    <TableHead>City</TableHead>
+                    <TableHead>Operator</TableHead>
+                    <TableHead>Points</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {areas.map((area) => (
+                    <TableRow key={area.id} className={area.isActive ? "" : "opacity-50"}>
+                      <TableCell className="font-medium">{area.name}</TableCell>
+                      <TableCell>{area.city}</TableCell>
+                      <TableCell>{area.operator || "MediRush"}</TableCell>
+                      <TableCell>{(area.polygon as ServiceAreaPolygon).length}</TableCell>
+                      <TableCell>
+                        <Badge variant={area.isActive ? "success" : "secondary"}>
+                          {area.isActive ? "Active" : "Paused"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button size="icon" variant="ghost" onClick={() => setEditing(area)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={toggleActiveMutation.isPending}
+                            onClick={() => toggleActiveMutation.mutate(area)}
+                          >
+                            {area.isActive ? "Pause" : "Activate"}
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteArea(area)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No service areas yet. Bookings are accepted for any pickup location until one is added.
+          </div>
+        )}
+      </CardContent>
+      
+      {editing && (
+        <ServiceAreaDialog
+          area={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+const invalidateServiceAreaQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/service-areas"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/service-areas"] });
+};
+
+function ServiceAreaDialog({ area, onClose }: {
+  area: ServiceArea | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(area?.name || "");
+  const [city, setCity] = useState(area?.city || "");
+  const [operator, setOperator] = useState(area?.operator || "");
+  const [points, setPoints] = useState<ServiceAreaPolygon>((area?.polygon as ServiceAreaPolygon) || []);
+
+  const outline = useMemo(() => points.length >= 3 ? [{ polygon: points }] : [], [points]);
+  const vertexMarkers = useMemo(() => points.map((point, i) => ({ position: point, tooltip: `Point ${i + 1}` })), [points]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: name.trim(),
+        city: city.trim(),
+        operator: operator.trim() || null,
+        polygon: points,
+      };
+      const res = area
+        ? await apiRequest("PATCH", `/api/admin/service-areas/${area.id}`, data)
+        : await apiRequest("POST", "/api/admin/service-areas", data);
+      return await res.json();
+    },
+    onSuccess: (saved: ServiceArea) => {
+      invalidateServiceAreaQueries();
+      toast({
+        title: area ? "Service area updated" : "Service area added",
+        description: `${saved.name} has been saved.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save service area",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = name.trim().length > 0 && city.trim().length > 0 && points.length >= 3;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{area ? `Edit ${area.name}` : "Add Service Area"}</DialogTitle>
+          <DialogDescription>
+            Click the map to outline the area. Pickups inside any active area can be booked.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="area-name">Name</Label>
+            <Input id="area-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Bengaluru South" />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="area-city">City</Label>
+            <Input id="area-city" value={city} onChange={(e) => setCity(e.target.value)} />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="area-operator">Operator</Label>
+            <Input id="area-operator" value={operator} onChange={(e) => setOperator(e.target.value)} placeholder="Leave empty for MediRush" />
+          </div>
+        </div>
+        
+        <Map
+          center={points[0] || [12.9716, 77.5946]}
+          zoom={11}
+          areas={outline}
+          pointMarkers={vertexMarkers}
+          onMapClick={(lat, lng) => setPoints(current => [...current, [lat, lng]])}
+          height="360px"
+        />
+        
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-gray-500">{points.length} {points.length === 1 ? "point" : "points"}{points.length < 3 && " (at least 3 needed)"}</span>
+          <Button size="sm" variant="outline" disabled={points.length === 0} onClick={() => setPoints(current => current.slice(0, -1))}>
+            Undo Point
+          </Button>
+          <Button size="sm" variant="ghost" disabled={points.length === 0} onClick={() => setPoints([])}>
+            Clear
+          </Button>
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {area ? "Save Changes" : "Add Area"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DriversPanel() {
+  const [exporting, setExporting] = useState(false);
+  
+  // Fetch all drivers
+  const { data: drivers, isLoading } = useQuery<User[]>({
+    queryKey: ["/api/admin/drivers"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Manage Drivers</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setExporting(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button size="sm">
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Add Driver
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
       <CardContent>
         {isLoading ? (
           <div className="flex justify-center items-center h-48">
@@ -358,11 +2493,15 @@ function DriversPanel() {
           </div>
         )}
       </CardContent>
+      
+      {exporting && <ExportDialog dataset="drivers" onClose={() => setExporting(false)} />}
     </Card>
   );
 }
 
 function PatientsPanel() {
+  const [exporting, setExporting] = useState(false);
+  
   // Fetch all patients
   const { data: patients, isLoading } = useQuery<User[]>({
     queryKey: ["/api/admin/patients"],
@@ -373,6 +2512,10 @@ function PatientsPanel() {
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
           <span>Patient Records</span>
+          <Button variant="outline" size="sm" onClick={() => setExporting(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -424,6 +2567,338 @@ function PatientsPanel() {
           </div>
         )}
       </CardContent>
+      
+      {exporting && <ExportDialog dataset="patients" onClose={() => setExporting(false)} />}
+    </Card>
+  );
+}
+
+type ReviewsResponse = {
+  reviews: AdminReview[];
+  drivers: (RatingSummary & { id: number; name: string })[];
+};
+
+function ReviewsPanel() {
+  const { toast } = useToast();
+  const [showHidden, setShowHidden] = useState(true);
+  
+  const { data, isLoading } = useQuery<ReviewsResponse>({
+    queryKey: ["/api/admin/reviews"],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ bookingId, reviewStatus }: { bookingId: number; reviewStatus: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/reviews/${bookingId}`, { reviewStatus });
+      return await res.json();
+    },
+    onSuccess: (booking: Booking) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+      toast({
+        title: booking.reviewStatus === "hidden" ? "Review hidden" : "Review published",
+        description: booking.reviewStatus === "hidden"
+          ? `The review on booking #${booking.id} no longer counts towards ratings.`
+          : `The review on booking #${booking.id} counts towards ratings again.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviews = data?.reviews.filter(review => showHidden || review.reviewStatus !== "hidden");
+  const renderStars = (rating: number) => (
+    <span className="flex items-center text-yellow-500">
+      {Array(5).fill(0).map((_, i) => (
+        <Star key={i} className={`h-4 w-4 ${i < rating ? "fill-current" : ""}`} />
+      ))}
+    </span>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Trip Reviews</span>
+          <div className="flex items-center gap-2 text-sm font-normal">
+            <Switch id="show-hidden-reviews" checked={showHidden} onCheckedChange={setShowHidden} />
+            <Label htmlFor="show-hidden-reviews">Show hidden</Label>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            {data && data.drivers.length > 0 && (
+              <div className="flex flex-wrap gap-3">
+                {data.drivers.map(driver => (
+                  <Badge key={driver.id} variant="outline" className="py-1">
+                    {driver.name}: {driver.average?.toFixed(1) ?? "—"} ★ ({driver.count})
+                  </Badge>
+                ))}
+              </div>
+            )}
+            
+            {reviews && reviews.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Booking</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Crew</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead>Feedback</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reviews.map(review => (
+                      <TableRow key={review.bookingId} className={review.reviewStatus === "hidden" ? "opacity-60" : ""}>
+                        <TableCell>#{review.bookingId}</TableCell>
+                        <TableCell>{review.patientName}</TableCell>
+                        <TableCell>
+                          <div>{review.driverName || "—"}</div>
+                          <div className="text-xs text-gray-500">{review.ambulanceRegistration}</div>
+                        </TableCell>
+                        <TableCell>{renderStars(review.rating)}</TableCell>
+                        <TableCell className="max-w-[300px] whitespace-pre-wrap">{review.feedback || "—"}</TableCell>
+                        <TableCell>{review.ratedAt ? new Date(review.ratedAt).toLocaleString() : "—"}</TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={moderateMutation.isPending}
+                            onClick={() => moderateMutation.mutate({
+                              bookingId: review.bookingId,
+                              reviewStatus: review.reviewStatus === "hidden" ? "published" : "hidden",
+                            })}
+                          >
+                            {review.reviewStatus === "hidden" ? "Publish" : "Hide"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No reviews yet.
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+const AUDIT_PAGE_SIZE = 50;
+
+const auditKindLabels: Record<AuditEventKind, string> = {
+  mutation: "Change",
+  phi_read: "Patient data read",
+};
+
+const formatAuditValue = (value: unknown) =>
+  value == null ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+function describeAuditRecord(event: AuditEvent) {
+  const entity = (event.entityType || "record").replace(/_/g, " ");
+  const recordIds = Array.isArray(event.recordIds) ? event.recordIds : [];
+  if (recordIds.length > 0) return `${recordIds.length} × ${entity}`;
+  return event.entityId != null ? `${entity} #${event.entityId}` : entity;
+}
+
+function AuditLogPanel() {
+  const [search, setSearch] = useState("");
+  const [kind, setKind] = useState(ANY_FILTER);
+  const [entityId, setEntityId] = useState("");
+  const [actorId, setActorId] = useState("");
+  const [filters, setFilters] = useState("");
+  // Ids of the last event on each earlier page, so "Newer" can step back
+  const [cursors, setCursors] = useState<number[]>([]);
+  const [viewing, setViewing] = useState<AuditEvent | null>(null);
+
+  const params = new URLSearchParams(filters);
+  params.set("limit", String(AUDIT_PAGE_SIZE));
+  if (cursors.length > 0) params.set("beforeId", String(cursors[cursors.length - 1]));
+  const { data: events, isLoading, error } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/admin/audit?${params}`],
+  });
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams();
+    if (search.trim()) next.set("q", search.trim());
+    if (kind !== ANY_FILTER) next.set("kind", kind);
+    if (entityId.trim()) next.set("entityId", entityId.trim());
+    if (actorId.trim()) next.set("actorId", actorId.trim());
+    setFilters(next.toString());
+    setCursors([]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form className="flex flex-wrap items-end gap-3 mb-6" onSubmit={applyFilters}>
+          <div className="space-y-2 flex-1 min-w-[200px]">
+            <Label htmlFor="audit-search">Search</Label>
+            <Input
+              id="audit-search"
+              placeholder="Action, route, IP or record type"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Event</Label>
+            <Select value={kind} onValueChange={setKind}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_FILTER}>All events</SelectItem>
+                {auditEventKinds.map(option => (
+                  <SelectItem key={option} value={option}>{auditKindLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity">Record ID</Label>
+            <Input id="audit-entity" className="w-28" inputMode="numeric" value={entityId} onChange={(e) => setEntityId(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-actor">User ID</Label>
+            <Input id="audit-actor" className="w-28" inputMode="numeric" value={actorId} onChange={(e) => setActorId(e.target.value)} />
+          </div>
+          <Button type="submit">Search</Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">
+            Failed to load audit events. Record and user IDs must be whole numbers.
+          </div>
+        ) : events && events.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const diff = (event.diff || {}) as AuditDiff;
+                  const fields = Object.keys(diff);
+                  return (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(event.occurredAt).toLocaleString()}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {event.actorId != null ? `#${event.actorId} ` : ""}
+                        <span className="text-gray-500 capitalize">{event.actorRole}</span>
+                      </TableCell>
+                      <TableCell>{event.ip || "—"}</TableCell>
+                      <TableCell className="font-mono text-xs">{event.route || "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-xs">{event.action}</span>
+                          {event.kind === "phi_read" && <Badge variant="secondary">{auditKindLabels.phi_read}</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="capitalize whitespace-nowrap">{describeAuditRecord(event)}</TableCell>
+                      <TableCell>
+                        {fields.length > 0 ? (
+                          <Button size="sm" variant="ghost" onClick={() => setViewing(event)}>
+                            {fields.length} field{fields.length === 1 ? "" : "s"}
+                          </Button>
+                        ) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No audit events found.
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={cursors.length === 0}
+            onClick={() => setCursors(cursors.slice(0, -1))}
+          >
+            Newer
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!events || events.length < AUDIT_PAGE_SIZE}
+            onClick={() => events && setCursors([...cursors, events[events.length - 1].id])}
+          >
+            Older
+          </Button>
+        </div>
+      </CardContent>
+
+      {viewing && (
+        <Dialog open onOpenChange={(open) => !open && setViewing(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="capitalize">{describeAuditRecord(viewing)}</DialogTitle>
+              <DialogDescription>
+                {viewing.action} · {new Date(viewing.occurredAt).toLocaleString()}
+              </DialogDescription>
+            </DialogHeader>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries((viewing.diff || {}) as AuditDiff).map(([field, change]) => (
+                  <TableRow key={field}>
+                    <TableCell className="font-mono text-xs">{field}</TableCell>
+                    <TableCell className="break-all text-xs">{formatAuditValue(change.before)}</TableCell>
+                    <TableCell className="break-all text-xs">{formatAuditValue(change.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
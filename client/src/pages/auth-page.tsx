@@ -94,6 +94,8 @@ export default function AuthPage() {
     if (user) {
       if (user.role === 'admin') {
         navigate("/admin");
+      } else if (user.role === 'driver') {
+        navigate("/driver");
       } else {
         navigate("/");
       }
@@ -8,15 +8,27 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatRupees } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Booking } from "@shared/schema";
-import { CalendarIcon, ClockIcon, CheckCircle, XCircle, MapPin, MapIcon, Ambulance, RefreshCcw, Loader2 } from "lucide-react";
+import { Booking, type BookingPaymentSummary, type Payment } from "@shared/schema";
+import { PaymentStatusBadge } from "@/components/booking/payment-status-badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { bookingStatusLabels, isActiveBookingStatus, type BookingStatus } from "@shared/booking-lifecycle";
+import { CalendarIcon, ClockIcon, CheckCircle, XCircle, MapPin, MapIcon, Ambulance, RefreshCcw, Loader2, Repeat, SkipForward, CalendarClock, FileText, CreditCard, Star } from "lucide-react";
 
 export default function BookingHistoryPage() {
   const [_, navigate] = useLocation();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("all");
+  const [rescheduleTarget, setRescheduleTarget] = useState<Booking | null>(null);
+  const [payTarget, setPayTarget] = useState<Booking | null>(null);
+  const [feedbackTarget, setFeedbackTarget] = useState<Booking | null>(null);
 
   // Fetch user's bookings
   const { data: bookings, isLoading } = useQuery<Booking[]>({
@@ -25,9 +37,9 @@ export default function BookingHistoryPage() {
 
   const filteredBookings = bookings?.filter(booking => {
     if (activeTab === "all") return true;
-    if (activeTab === "active") return ["pending", "confirmed", "in_progress"].includes(booking.status);
+    if (activeTab === "active") return booking.status === "pending" || isActiveBookingStatus(booking.status);
     if (activeTab === "completed") return booking.status === "completed";
-    if (activeTab === "cancelled") return booking.status === "cancelled";
+    if (activeTab === "cancelled") return ["cancelled", "skipped"].includes(booking.status);
     return true;
   }).sort((a, b) => {
     const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
@@ -58,18 +70,70 @@ export default function BookingHistoryPage() {
     }
   };
 
+  const skipOccurrence = async (bookingId: number) => {
+    try {
+      if (!confirm("Skip this ride? The rest of the recurring series stays booked.")) {
+        return;
+      }
+      
+      await apiRequest("POST", `/api/secure/bookings/${bookingId}/skip`);
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/secure/bookings"] });
+      
+      toast({
+        title: "Ride skipped",
+        description: "This occurrence has been skipped.",
+      });
+    } catch (error) {
+      toast({
+        title: "Skip failed",
+        description: "There was an error skipping this ride. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelSeries = async (seriesId: number) => {
+    try {
+      if (!confirm("Cancel all upcoming rides in this recurring series?")) {
+        return;
+      }
+      
+      const res = await apiRequest("POST", `/api/secure/booking-series/${seriesId}/cancel`);
+      const { cancelled } = await res.json();
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/secure/bookings"] });
+      
+      toast({
+        title: "Series cancelled",
+        description: `${cancelled} upcoming ${cancelled === 1 ? "ride has" : "rides have"} been cancelled.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Cancellation failed",
+        description: "There was an error cancelling the series. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "pending":
         return <Badge variant="secondary">Pending</Badge>;
       case "confirmed":
         return <Badge variant="primary">Confirmed</Badge>;
-      case "in_progress":
-        return <Badge variant="default">In Progress</Badge>;
+      case "en_route":
+      case "arrived_pickup":
+      case "patient_onboard":
+      case "arrived_destination":
+        return <Badge variant="default">{bookingStatusLabels[status as BookingStatus]}</Badge>;
       case "completed":
         return <Badge variant="success">Completed</Badge>;
       case "cancelled":
         return <Badge variant="destructive">Cancelled</Badge>;
+      case "skipped":
+        return <Badge variant="outline">Skipped</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -133,6 +197,11 @@ export default function BookingHistoryPage() {
                         <Badge variant={booking.bookingType === "emergency" ? "destructive" : "secondary"} className="capitalize">
                           {booking.bookingType}
                         </Badge>
+                        {booking.seriesId && (
+                          <Badge variant="outline">
+                            <Repeat className="h-3 w-3 mr-1" /> Recurring
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     
@@ -187,13 +256,20 @@ export default function BookingHistoryPage() {
                               <p className="text-sm text-gray-500 dark:text-gray-400">Fare</p>
                               <p className="font-medium text-primary">
                                 {booking.actualFare 
-                                  ? `$${booking.actualFare.toFixed(2)}` 
+                                  ? formatRupees(booking.actualFare) 
                                   : booking.estimatedFare 
-                                    ? `$${booking.estimatedFare.toFixed(2)} (est.)` 
+                                    ? `${formatRupees(booking.estimatedFare)} (est.)` 
                                     : "N/A"}
                               </p>
                             </div>
                             
+                            {booking.status === "completed" && (
+                              <div>
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Payment</p>
+                                <PaymentStatusBadge status={booking.paymentStatus} />
+                              </div>
+                            )}
+                            
                             {booking.rating && (
                               <div>
                                 <p className="text-sm text-gray-500 dark:text-gray-400">Your Rating</p>
@@ -209,6 +285,9 @@ export default function BookingHistoryPage() {
                                     </svg>
                                   ))}
                                 </p>
+                                {booking.feedback && (
+                                  <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">"{booking.feedback}"</p>
+                                )}
                               </div>
                             )}
                           </div>
@@ -228,7 +307,36 @@ export default function BookingHistoryPage() {
                           </Button>
                         )}
                         
-                        {["confirmed", "in_progress"].includes(booking.status) && (
+                        {booking.bookingType === "scheduled" && ["pending", "confirmed"].includes(booking.status) && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => setRescheduleTarget(booking)}
+                          >
+                            <CalendarClock className="mr-2 h-4 w-4" /> Reschedule
+                          </Button>
+                        )}
+                        
+                        {booking.seriesId && ["pending", "confirmed"].includes(booking.status) && (
+                          <>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => skipOccurrence(booking.id)}
+                            >
+                              <SkipForward className="mr-2 h-4 w-4" /> Skip This Ride
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => cancelSeries(booking.seriesId!)}
+                            >
+                              <XCircle className="mr-2 h-4 w-4" /> Cancel Series
+                            </Button>
+                          </>
+                        )}
+                        
+                        {isActiveBookingStatus(booking.status) && (
                           <Button 
                             variant="default" 
                             size="sm"
@@ -238,8 +346,26 @@ export default function BookingHistoryPage() {
                           </Button>
                         )}
                         
+                        {booking.status === "completed" && ["unpaid", "pending"].includes(booking.paymentStatus) && (
+                          <Button 
+                            variant="default" 
+                            size="sm"
+                            onClick={() => setPayTarget(booking)}
+                          >
+                            <CreditCard className="mr-2 h-4 w-4" /> Pay Now
+                          </Button>
+                        )}
+                        
+                        {booking.status === "completed" && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/secure/bookings/${booking.id}/invoice`} download>
+                              <FileText className="mr-2 h-4 w-4" /> Invoice
+                            </a>
+                          </Button>
+                        )}
+                        
                         {booking.status === "completed" && !booking.rating && (
-                          <Button variant="outline" size="sm">
+                          <Button variant="outline" size="sm" onClick={() => setFeedbackTarget(booking)}>
                             <CheckCircle className="mr-2 h-4 w-4" /> Leave Feedback
                           </Button>
                         )}
@@ -309,7 +435,333 @@ export default function BookingHistoryPage() {
         </div>
       </main>
       
+      <RescheduleDialog booking={rescheduleTarget} onClose={() => setRescheduleTarget(null)} />
+      <PayDialog booking={payTarget} onClose={() => setPayTarget(null)} />
+      <FeedbackDialog booking={feedbackTarget} onClose={() => setFeedbackTarget(null)} />
+      
       <Footer />
     </div>
   );
 }
+
+function RescheduleDialog({ booking, onClose }: { booking: Booking | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [scheduledTime, setScheduledTime] = useState("");
+  const [applyToSeries, setApplyToSeries] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setScheduledTime("");
+      setApplyToSeries(false);
+      onClose();
+    }
+  };
+
+  const reschedule = async () => {
+    if (!booking || !scheduledTime) return;
+    
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", `/api/secure/bookings/${booking.id}/reschedule`, {
+        scheduledTime: new Date(scheduledTime).toISOString(),
+        applyToSeries,
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/secure/bookings"] });
+      
+      toast({
+        title: "Booking rescheduled",
+        description: applyToSeries
+          ? "This and all later rides in the series have been moved."
+          : "Your ride has been moved to the new time.",
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Reschedule failed",
+        description: "There was an error rescheduling your booking. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reschedule Booking #{booking?.id}</DialogTitle>
+          <DialogDescription>
+            Pick a new pickup time. Any reserved ambulance will be re-assigned closer to the new time.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-time">New pickup time</Label>
+            <Input
+              id="reschedule-time"
+              type="datetime-local"
+              value={scheduledTime}
+              onChange={(e) => setScheduledTime(e.target.value)}
+            />
+          </div>
+          
+          {booking?.seriesId && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="apply-to-series"
+                checked={applyToSeries}
+                onCheckedChange={(checked) => setApplyToSeries(checked === true)}
+              />
+              <Label htmlFor="apply-to-series">Also move all later rides in this series</Label>
+            </div>
+          )}
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={reschedule} disabled={!scheduledTime || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reschedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Pays the outstanding fare by UPI or card. The checkout step stands in for the gateway's own page.
+function PayDialog({ booking, onClose }: { booking: Booking | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<"upi" | "card">("upi");
+  const [checkout, setCheckout] = useState<Payment | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: summary, isLoading } = useQuery<BookingPaymentSummary>({
+    queryKey: [`/api/secure/bookings/${booking?.id}/payments`],
+    enabled: !!booking,
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setMethod("upi");
+      setCheckout(null);
+      onClose();
+    }
+  };
+
+  const refreshPayments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/secure/bookings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/secure/bookings/${booking?.id}/payments`] });
+  };
+
+  const startPayment = async () => {
+    if (!booking) return;
+    
+    setIsSaving(true);
+    try {
+      const res = await apiRequest("POST", `/api/secure/bookings/${booking.id}/payments`, { method });
+      setCheckout(await res.json());
+      refreshPayments();
+    } catch (error) {
+      toast({
+        title: "Payment failed",
+        description: error instanceof Error ? error.message : "Could not start the payment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const completeCheckout = async (simulateFailure: boolean) => {
+    if (!checkout) return;
+    
+    setIsSaving(true);
+    try {
+      const res = await apiRequest("POST", `/api/secure/payments/${checkout.id}/confirm`, { simulateFailure });
+      const payment: Payment = await res.json();
+      refreshPayments();
+      
+      if (payment.status === "succeeded") {
+        toast({
+          title: "Payment received",
+          description: `${formatRupees(payment.amount)} paid for booking #${payment.bookingId}.`,
+        });
+        handleOpenChange(false);
+      } else {
+        toast({
+          title: "Payment failed",
+          description: payment.failureReason || "The payment was declined. Please try again.",
+          variant: "destructive",
+        });
+        setCheckout(null);
+      }
+    } catch (error) {
+      toast({
+        title: "Payment failed",
+        description: "There was an error completing the payment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay for Booking #{booking?.id}</DialogTitle>
+          <DialogDescription>
+            {isLoading || !summary
+              ? "Loading amount due..."
+              : `Amount due: ${formatRupees(summary.amountDue)} (incl. GST)`}
+          </DialogDescription>
+        </DialogHeader>
+        
+        {checkout ? (
+          <div className="space-y-2 text-sm">
+            <p>
+              Complete the {checkout.method === "upi" ? "UPI" : "card"} payment of{" "}
+              <span className="font-medium">{formatRupees(checkout.amount)}</span> with the payment provider.
+            </p>
+            <p className="text-gray-500 dark:text-gray-400">Reference: {checkout.providerReference}</p>
+          </div>
+        ) : (
+          <RadioGroup value={method} onValueChange={(value) => setMethod(value as "upi" | "card")}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="upi" id="pay-upi" />
+              <Label htmlFor="pay-upi">UPI</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="card" id="pay-card" />
+              <Label htmlFor="pay-card">Credit / Debit Card</Label>
+            </div>
+          </RadioGroup>
+        )}
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          {checkout ? (
+            <>
+              {checkout.provider === "mock" && (
+                <Button variant="outline" onClick={() => completeCheckout(true)} disabled={isSaving}>
+                  Simulate Failure
+                </Button>
+              )}
+              <Button onClick={() => completeCheckout(false)} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Complete Payment
+              </Button>
+            </>
+          ) : (
+            <Button onClick={startPayment} disabled={isSaving || !summary || summary.amountDue <= 0}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Pay {summary ? formatRupees(summary.amountDue) : ""}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FeedbackDialog({ booking, onClose }: { booking: Booking | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [feedback, setFeedback] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setRating(0);
+      setFeedback("");
+      onClose();
+    }
+  };
+
+  const submit = async () => {
+    if (!booking || !rating) return;
+    
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", `/api/secure/bookings/${booking.id}/rating`, {
+        rating,
+        feedback: feedback.trim() || undefined,
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/secure/bookings"] });
+      
+      toast({
+        title: "Thank you for your feedback",
+        description: "Your rating helps us improve our service.",
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Feedback failed",
+        description: "There was an error saving your rating. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate Your Trip</DialogTitle>
+          <DialogDescription>
+            How was your experience with booking #{booking?.id}? You can rate each trip once.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-4">
+          <div className="flex justify-center gap-1">
+            {[1, 2, 3, 4, 5].map(value => (
+              <button
+                key={value}
+                type="button"
+                aria-label={`${value} star${value > 1 ? "s" : ""}`}
+                onClick={() => setRating(value)}
+              >
+                <Star className={`h-8 w-8 ${value <= rating ? "text-yellow-400 fill-current" : "text-gray-300 dark:text-gray-600"}`} />
+              </button>
+            ))}
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="feedback">Comments (optional)</Label>
+            <Textarea
+              id="feedback"
+              maxLength={1000}
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              placeholder="Tell us about the crew, the ambulance or anything we could do better"
+            />
+          </div>
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={submit} disabled={!rating || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
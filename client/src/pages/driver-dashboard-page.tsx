@@ -0,0 +1,426 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocationSharing } from "@/hooks/use-location-sharing";
+import { useRoute } from "@/hooks/use-route";
+import { AppHeader } from "@/components/layout/app-header";
+import { Footer } from "@/components/layout/footer";
+import { Map } from "@/components/ui/map";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, MapPin, Navigation, Phone, User as UserIcon, Hospital as HospitalIcon, Check, X, LocateFixed, AlertTriangle } from "lucide-react";
+import { Ambulance, Booking, DispatchOffer, Hospital, PatientDetails } from "@shared/schema";
+import { bookingStatusLabels, getAllowedNextStatuses, isBookingStatus, type BookingStatus } from "@shared/booking-lifecycle";
+
+type CurrentBooking = Booking & {
+  patient: { firstName: string; lastName: string; phoneNumber: string } | null;
+  hospital: Hospital | null;
+};
+
+type OfferWithBooking = DispatchOffer & {
+  booking: Pick<Booking, "id" | "bookingType" | "ambulanceTypeId" | "pickupAddress" | "pickupLatitude" | "pickupLongitude" | "destinationAddress"> | null;
+};
+
+export default function DriverDashboardPage() {
+  const { data: ambulance, isLoading, error } = useQuery<Ambulance>({
+    queryKey: ["/api/driver/ambulance"],
+  });
+
+  const isOnDuty = !!ambulance && !["off_duty", "out_of_service"].includes(ambulance.status);
+  const location = useLocationSharing(isOnDuty);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <AppHeader />
+
+      <main className="flex-grow">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+            Driver Dashboard
+          </h1>
+
+          {isLoading ? (
+            <div className="flex justify-center p-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error || !ambulance ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <AlertTriangle className="h-10 w-10 text-amber-500 mx-auto mb-3" />
+                <h3 className="text-lg font-medium mb-2">No ambulance assigned</h3>
+                <p className="text-gray-500 dark:text-gray-400">
+                  Ask the dispatch team to assign you to an ambulance before starting your shift.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <DutyPanel ambulance={ambulance} location={location} />
+              {isOnDuty && <OffersPanel />}
+              <CurrentJobPanel ambulance={ambulance} devicePosition={location.position} />
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+function DutyPanel({ ambulance, location }: { ambulance: Ambulance; location: ReturnType<typeof useLocationSharing> }) {
+  const { toast } = useToast();
+  const isOnDuty = !["off_duty", "out_of_service"].includes(ambulance.status);
+  // Only an idle unit can switch; a unit on a job must finish it first
+  const canToggle = ["available", "off_duty"].includes(ambulance.status);
+
+  const dutyMutation = useMutation({
+    mutationFn: async (onDuty: boolean) => {
+      const res = await apiRequest("POST", "/api/driver/duty", { onDuty });
+      return await res.json();
+    },
+    onSuccess: (updatedAmbulance: Ambulance) => {
+      queryClient.setQueryData(["/api/driver/ambulance"], updatedAmbulance);
+      toast({
+        title: updatedAmbulance.status === "off_duty" ? "You are off duty" : "You are on duty",
+        description: updatedAmbulance.status === "off_duty"
+          ? "You won't receive new jobs."
+          : "You will receive job offers for nearby bookings.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to update duty status",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{ambulance.registrationNumber}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Status: <span className="capitalize font-medium">{ambulance.status.replace('_', ' ')}</span>
+          </p>
+          {isOnDuty && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 flex items-center gap-1">
+              <LocateFixed className="h-3 w-3" />
+              {location.error
+                ? location.error
+                : location.lastSentAt
+                  ? `Location shared at ${location.lastSentAt.toLocaleTimeString()}`
+                  : "Waiting for GPS fix..."}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <Label htmlFor="duty-toggle">{isOnDuty ? "On duty" : "Off duty"}</Label>
+          <Switch
+            id="duty-toggle"
+            checked={isOnDuty}
+            disabled={!canToggle || dutyMutation.isPending}
+            onCheckedChange={(checked) => dutyMutation.mutate(checked)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function OffersPanel() {
+  const { toast } = useToast();
+
+  // Offers expire within seconds, so check often
+  const { data: offers } = useQuery<OfferWithBooking[]>({
+    queryKey: ["/api/driver/offers"],
+    refetchInterval: 5000,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ offerId, accept }: { offerId: number; accept: boolean }) => {
+      const res = await apiRequest("POST", `/api/driver/offers/${offerId}/${accept ? "accept" : "decline"}`);
+      return await res.json();
+    },
+    onSuccess: (_data, { accept }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/offers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/ambulance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/current-booking"] });
+      toast({
+        title: accept ? "Job accepted" : "Job declined",
+        description: accept ? "Head to the pickup location." : "The job has been passed to another unit.",
+      });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/offers"] });
+      toast({
+        title: "Offer no longer available",
+        description: "The offer may have expired or been withdrawn.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!offers || offers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-red-200 dark:border-red-900">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-red-600 dark:text-red-400">
+          <AlertTriangle className="h-5 w-5" />
+          New Job {offers.length > 1 ? "Offers" : "Offer"}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {offers.map(offer => (
+          <div key={offer.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 rounded-lg bg-red-50 dark:bg-red-950">
+            <div>
+              <p className="font-medium">
+                Booking #{offer.bookingId}
+                {offer.booking && (
+                  <Badge variant={offer.booking.bookingType === "emergency" ? "destructive" : "secondary"} className="ml-2">
+                    {offer.booking.bookingType}
+                  </Badge>
+                )}
+              </p>
+              {offer.booking && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                  <MapPin className="h-3 w-3 inline mr-1" />
+                  {offer.booking.pickupAddress}
+                </p>
+              )}
+              <OfferCountdown expiresAt={offer.expiresAt} />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => respondMutation.mutate({ offerId: offer.id, accept: true })}
+                disabled={respondMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-2" /> Accept
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => respondMutation.mutate({ offerId: offer.id, accept: false })}
+                disabled={respondMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-2" /> Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OfferCountdown({ expiresAt }: { expiresAt: Date | string }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.round((new Date(expiresAt).getTime() - now) / 1000));
+  return (
+    <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+      {secondsLeft > 0 ? `Respond within ${secondsLeft}s` : "Expiring..."}
+    </p>
+  );
+}
+
+function CurrentJobPanel({ ambulance, devicePosition }: { ambulance: Ambulance; devicePosition: [number, number] | null }) {
+  const { toast } = useToast();
+  const [cashCollected, setCashCollected] = useState(false);
+
+  const { data: booking, isLoading } = useQuery<CurrentBooking | null>({
+    queryKey: ["/api/driver/current-booking"],
+    refetchInterval: 15000,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: BookingStatus) => {
+      const res = await apiRequest("POST", "/api/driver/updateBookingStatus", {
+        bookingId: booking!.id,
+        status,
+        latitude: devicePosition?.[0],
+        longitude: devicePosition?.[1],
+        message: `Driver marked the booking as ${bookingStatusLabels[status].toLowerCase()}.`,
+        cashCollected: status === "completed" && cashCollected,
+      });
+      return await res.json();
+    },
+    onSuccess: (updatedBooking: Booking) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/current-booking"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/ambulance"] });
+      setCashCollected(false);
+      toast({
+        title: "Status updated",
+        description: isBookingStatus(updatedBooking.status) ? bookingStatusLabels[updatedBooking.status] : updatedBooking.status,
+      });
+    },
+    onError: () => {
+      // Someone else (e.g. dispatch) may have changed the booking in the meantime
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/current-booking"] });
+      toast({
+        title: "Status update failed",
+        description: "The booking may have changed. Please check the latest status.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pickupPosition = useMemo<[number, number] | undefined>(
+    () => booking ? [booking.pickupLatitude, booking.pickupLongitude] : undefined,
+    [booking?.pickupLatitude, booking?.pickupLongitude]
+  );
+  const destinationPosition = useMemo<[number, number] | undefined>(
+    () => booking?.destinationLatitude != null && booking.destinationLongitude != null
+      ? [booking.destinationLatitude, booking.destinationLongitude]
+      : booking?.hospital ? [booking.hospital.latitude, booking.hospital.longitude] : undefined,
+    [booking?.destinationLatitude, booking?.destinationLongitude, booking?.hospital?.latitude, booking?.hospital?.longitude]
+  );
+  const { data: route } = useRoute(pickupPosition, destinationPosition);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <h3 className="text-lg font-medium mb-2">No active job</h3>
+          <p className="text-gray-500 dark:text-gray-400">
+            {ambulance.status === "off_duty"
+              ? "Go on duty to start receiving jobs."
+              : "New job offers will appear here."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const patientDetails = booking.patientDetails as Partial<PatientDetails>;
+  const nextStatuses = getAllowedNextStatuses(booking.status, "driver");
+  const ambulancePosition: [number, number] | undefined = devicePosition
+    || (ambulance.latitude != null && ambulance.longitude != null ? [ambulance.latitude, ambulance.longitude] : undefined);
+
+  const updateStatus = (status: BookingStatus) => {
+    if (status === "cancelled" && !confirm("Cancel this job? Use this only if the patient can't be transported.")) {
+      return;
+    }
+    statusMutation.mutate(status);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Booking #{booking.id}</span>
+          <Badge variant={booking.bookingType === "emergency" ? "destructive" : "secondary"}>
+            {isBookingStatus(booking.status) ? bookingStatusLabels[booking.status] : booking.status}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Map
+          center={[booking.pickupLatitude, booking.pickupLongitude]}
+          markerPosition={pickupPosition}
+          destinationPosition={destinationPosition}
+          showRoute={!!destinationPosition}
+          routePath={route?.path}
+          ambulanceMarkers={ambulancePosition ? [{ position: ambulancePosition, tooltip: ambulance.registrationNumber }] : []}
+          height="320px"
+        />
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <h3 className="font-semibold flex items-center gap-2"><UserIcon className="h-4 w-4" /> Patient</h3>
+            <p>
+              {patientDetails.name || "Unknown"}
+              {patientDetails.age && `, ${patientDetails.age}`}
+              {patientDetails.gender && ` (${patientDetails.gender})`}
+            </p>
+            {patientDetails.condition && (
+              <p className="text-sm text-gray-600 dark:text-gray-300">Condition: {patientDetails.condition}</p>
+            )}
+            {booking.patient && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`tel:${booking.patient.phoneNumber}`}>
+                  <Phone className="h-4 w-4 mr-2" /> Call {booking.patient.firstName}
+                </a>
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold flex items-center gap-2"><MapPin className="h-4 w-4" /> Pickup</h3>
+            <p>{booking.pickupAddress}</p>
+            {booking.pickupDetails && (
+              <p className="text-sm text-gray-600 dark:text-gray-300">{booking.pickupDetails}</p>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={`https://www.google.com/maps/dir/?api=1&destination=${booking.pickupLatitude},${booking.pickupLongitude}`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                <Navigation className="h-4 w-4 mr-2" /> Navigate
+              </a>
+            </Button>
+            {(booking.hospital || booking.destinationAddress) && (
+              <>
+                <h3 className="font-semibold flex items-center gap-2 pt-2"><HospitalIcon className="h-4 w-4" /> Destination</h3>
+                <p>{booking.hospital?.name || booking.destinationAddress}</p>
+              </>
+            )}
+          </div>
+        </div>
+
+        <Separator />
+
+        {nextStatuses.includes("completed") && (
+          <div className="flex items-center space-x-2">
+            <Switch id="cash-collected" checked={cashCollected} onCheckedChange={setCashCollected} />
+            <Label htmlFor="cash-collected">Fare collected in cash</Label>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          {nextStatuses.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No further action needed for this booking.</p>
+          )}
+          {nextStatuses.map(status => (
+            <Button
+              key={status}
+              size="lg"
+              variant={status === "cancelled" ? "destructive" : "default"}
+              className="flex-1 min-w-[160px]"
+              disabled={statusMutation.isPending}
+              onClick={() => updateStatus(status)}
+            >
+              {statusMutation.isPending && statusMutation.variables === status && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              {bookingStatusLabels[status]}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
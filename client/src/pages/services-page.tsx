@@ -8,105 +8,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Separator } from "@/components/ui/separator";
 import { 
-  Ambulance, Heart, Baby, Building2, Brain, PawPrint, Calendar, 
-  AlertTriangle, Clock, CheckCircle, DollarSign, Phone, Mail
+  Ambulance, Calendar, AlertTriangle, Clock, CheckCircle, IndianRupee, Phone, Mail, Loader2
 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { AmbulanceTypeIcon } from "@/components/booking/ambulance-type-icon";
+import { formatRupees } from "@/lib/utils";
+import { AmbulanceType } from "@shared/schema";
 
 export default function ServicesPage() {
   const [_, navigate] = useLocation();
 
-  const ambulanceTypes = [
-    {
-      id: "bls",
-      name: "Basic Life Support",
-      icon: <Ambulance className="h-8 w-8" />,
-      description: "Non-critical patient transport with basic medical monitoring equipment.",
-      features: [
-        "Basic medical monitoring equipment",
-        "Trained Emergency Medical Technicians (EMTs)",
-        "Oxygen administration",
-        "First aid supplies",
-        "Suitable for stable patients"
-      ],
-      idealFor: "Medical appointments, hospital discharges, inter-facility transfers for stable patients",
-      priceRange: "$50-$100 base + $2/km"
-    },
-    {
-      id: "als",
-      name: "Advanced Life Support",
-      icon: <Heart className="h-8 w-8" />,
-      description: "For patients requiring advanced medical care during transport.",
-      features: [
-        "Advanced cardiac monitoring",
-        "IV administration capabilities",
-        "Advanced airway management",
-        "Paramedics in addition to EMTs",
-        "Medications for emergency treatment"
-      ],
-      idealFor: "Cardiac patients, respiratory distress, trauma cases, emergency response",
-      priceRange: "$150-$250 base + $3/km"
-    },
-    {
-      id: "neo",
-      name: "Neonatal Transport",
-      icon: <Baby className="h-8 w-8" />,
-      description: "Specialized transport for newborns requiring intensive care.",
-      features: [
-        "Neonatal incubator",
-        "Specialized neonatal equipment",
-        "Neonatal respiratory support",
-        "Temperature control systems",
-        "Neonatal specialists on board"
-      ],
-      idealFor: "Premature babies, neonates requiring specialized care, NICU transfers",
-      priceRange: "$200-$300 base + $3.50/km"
-    },
-    {
-      id: "icu",
-      name: "ICU on Wheels",
-      icon: <Building2 className="h-8 w-8" />,
-      description: "Mobile intensive care unit for critical patients during transport.",
-      features: [
-        "Full ICU equipment suite",
-        "Ventilator support",
-        "Critical care monitoring",
-        "ICU specialist on board",
-        "Blood gas analysis capabilities"
-      ],
-      idealFor: "Critical care patients, ventilator-dependent patients, complex medical cases",
-      priceRange: "$300-$500 base + $4/km"
-    },
-    {
-      id: "mental",
-      name: "Mental Health Transport",
-      icon: <Brain className="h-8 w-8" />,
-      description: "Specialized transport with mental health professionals.",
-      features: [
-        "Secure patient compartment",
-        "Mental health specialists",
-        "De-escalation trained staff",
-        "Comfortable environment",
-        "Privacy considerations"
-      ],
-      idealFor: "Psychiatric patients, behavioral health transfers, crisis situations",
-      priceRange: "$150-$250 base + $2.50/km"
-    },
-    {
-      id: "pet",
-      name: "Pet Ambulance",
-      icon: <PawPrint className="h-8 w-8" />,
-      description: "Emergency transport for pets requiring immediate veterinary care.",
-      features: [
-        "Veterinary first aid equipment",
-        "Oxygen therapy for animals",
-        "Animal restraint systems",
-        "Temperature control",
-        "Trained in animal handling"
-      ],
-      idealFor: "Injured pets, emergency veterinary care, pet hospital transfers",
-      priceRange: "$100-$200 base + $2/km"
-    }
-  ];
+  // The catalog (features, equipment and pricing) is managed by admins
+  const { data: ambulanceTypes, isLoading: isLoadingTypes } = useQuery<AmbulanceType[]>({
+    queryKey: ["/api/ambulance-types"],
+  });
 
   const faqs = [
     {
@@ -317,61 +232,85 @@ export default function ServicesPage() {
             </TabsContent>
             
             <TabsContent value="ambulances">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {ambulanceTypes.map((type) => (
-                  <Card key={type.id} className="overflow-hidden">
-                    <CardHeader className="pb-2">
-                      <div className="flex items-start justify-between">
-                        <div className="bg-primary-100 dark:bg-primary-900 p-2 rounded-md">
-                          <div className="text-primary">
-                            {type.icon}
+              {isLoadingTypes ? (
+                <div className="flex justify-center p-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {ambulanceTypes?.map((type) => (
+                    <Card key={type.id} className="overflow-hidden">
+                      <CardHeader className="pb-2">
+                        <div className="flex items-start justify-between">
+                          <div className="bg-primary-100 dark:bg-primary-900 p-2 rounded-md">
+                            <div className="text-primary">
+                              <AmbulanceTypeIcon icon={type.icon} className="h-8 w-8" />
+                            </div>
                           </div>
+                          {type.isPopular && (
+                            <Badge variant="default" className="ml-2">
+                              Popular
+                            </Badge>
+                          )}
                         </div>
-                        <Badge 
-                          variant={type.id === "bls" || type.id === "als" ? "default" : "outline"}
-                          className="ml-2"
-                        >
-                          {type.id === "bls" || type.id === "als" ? "Popular" : type.id}
-                        </Badge>
-                      </div>
-                      <CardTitle className="mt-4">{type.name}</CardTitle>
-                      <CardDescription>
-                        {type.description}
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Key Features:</p>
-                      <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-300 mb-4">
-                        {type.features.map((feature, idx) => (
-                          <li key={idx} className="flex items-start">
-                            <CheckCircle className="h-3.5 w-3.5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
-                            <span>{feature}</span>
-                          </li>
-                        ))}
-                      </ul>
+                        <CardTitle className="mt-4">{type.name}</CardTitle>
+                        <CardDescription>
+                          {type.description}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        {type.features && type.features.length > 0 && (
+                          <>
+                            <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Key Features:</p>
+                            <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-300 mb-4">
+                              {type.features.map((feature, idx) => (
+                                <li key={idx} className="flex items-start">
+                                  <CheckCircle className="h-3.5 w-3.5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                                  <span>{feature}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </>
+                        )}
                       
-                      <div className="mt-4 text-sm">
-                        <p className="font-medium text-gray-700 dark:text-gray-300">Ideal for:</p>
-                        <p className="text-gray-600 dark:text-gray-400">{type.idealFor}</p>
-                      </div>
+                        {type.equipment && type.equipment.length > 0 && (
+                          <div className="mt-4 text-sm">
+                            <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Equipment:</p>
+                            <div className="flex flex-wrap gap-1">
+                              {type.equipment.map((item, idx) => (
+                                <Badge key={idx} variant="outline" className="font-normal">{item}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       
-                      <div className="mt-4 flex items-center">
-                        <DollarSign className="h-4 w-4 text-primary mr-1" />
-                        <p className="text-primary font-medium">{type.priceRange}</p>
-                      </div>
-                    </CardContent>
-                    <CardFooter className="bg-gray-50 dark:bg-gray-900 pt-2">
-                      <Button
-                        variant="outline"
-                        className="w-full"
-                        onClick={() => navigate("/")}
-                      >
-                        Book {type.name}
-                      </Button>
-                    </CardFooter>
-                  </Card>
-                ))}
-              </div>
+                        {type.idealFor && (
+                          <div className="mt-4 text-sm">
+                            <p className="font-medium text-gray-700 dark:text-gray-300">Ideal for:</p>
+                            <p className="text-gray-600 dark:text-gray-400">{type.idealFor}</p>
+                          </div>
+                        )}
+                      
+                        <div className="mt-4 flex items-center">
+                          <IndianRupee className="h-4 w-4 text-primary mr-1" />
+                          <p className="text-primary font-medium">
+                            {formatRupees(type.basePrice)} base + {formatRupees(type.pricePerKm)}/km
+                          </p>
+                        </div>
+                      </CardContent>
+                      <CardFooter className="bg-gray-50 dark:bg-gray-900 pt-2">
+                        <Button
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => navigate("/")}
+                        >
+                          Book {type.name}
+                        </Button>
+                      </CardFooter>
+                    </Card>
+                  ))}
+                </div>
+              )}
             </TabsContent>
           </Tabs>
           
@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Booking } from "@shared/schema";
+import { isActiveBookingStatus } from "@shared/booking-lifecycle";
 import { Loader2, SearchIcon } from "lucide-react";
 
 export default function TrackingPage() {
@@ -23,9 +24,9 @@ export default function TrackingPage() {
     queryKey: ["/api/secure/bookings"],
   });
 
-  // Filter for active bookings (confirmed, in_progress)
+  // Filter for bookings that have an ambulance on the way or on the job
   const activeBookings = bookings?.filter(booking => 
-    ['confirmed', 'in_progress'].includes(booking.status)
+    isActiveBookingStatus(booking.status)
   ).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
   // If bookingId is provided in the URL, validate it and set it as active
@@ -0,0 +1,117 @@
+/**
+ * Converts an OSM road extract into the compact graph loaded by server/routing.ts.
+ *
+ * Input is GeoJSON LineStrings with OSM tags as properties. A FeatureCollection and
+ * GeoJSON text sequences both work, e.g.:
+ *
+ *   osmium tags-filter bengaluru.osm.pbf w/highway -o roads.osm.pbf
+ *   osmium export roads.osm.pbf -f geojsonseq -o roads.geojsonseq
+ *   npm run roads:build -- roads.geojsonseq data/road-graph.json bengaluru
+ */
+import fs from "fs";
+import { calculateDistance } from "../shared/geo";
+import type { RoadGraphFile } from "../shared/routing";
+
+// Typical Bengaluru traffic speeds by road class, in km/h
+const HIGHWAY_SPEEDS: Record<string, number> = {
+  motorway: 60,
+  trunk: 45,
+  primary: 35,
+  secondary: 30,
+  tertiary: 25,
+  unclassified: 20,
+  residential: 18,
+  living_street: 10,
+  service: 12,
+};
+
+// Posted limits are rarely reached in city traffic
+const MAXSPEED_TRAFFIC_FACTOR = 0.6;
+
+interface Feature {
+  geometry?: { type: string; coordinates: any };
+  properties?: Record<string, any>;
+}
+
+function readFeatures(file: string): Feature[] {
+  const text = fs.readFileSync(file, "utf8");
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("{") && trimmed.includes('"FeatureCollection"')) {
+    return JSON.parse(text).features;
+  }
+  // GeoJSON text sequence: one feature per line, optionally prefixed with a record separator
+  return text.split("\n")
+    .map(line => line.replace(/^\x1e/, "").trim())
+    .filter(Boolean)
+    .map(line => JSON.parse(line));
+}
+
+function speedFor(tags: Record<string, any>): number | null {
+  const highway = String(tags.highway || "").replace(/_link$/, "");
+  const classSpeed = HIGHWAY_SPEEDS[highway];
+  if (!classSpeed) return null; // footways, tracks, construction, ...
+
+  const posted = parseFloat(tags.maxspeed);
+  return isNaN(posted) ? classSpeed : Math.min(classSpeed * 1.5, posted * MAXSPEED_TRAFFIC_FACTOR);
+}
+
+function onewayDirection(tags: Record<string, any>): 0 | 1 | -1 {
+  const oneway = String(tags.oneway || "");
+  if (oneway === "-1") return -1;
+  if (["yes", "true", "1"].includes(oneway)) return 1;
+  if (oneway === "no") return 0;
+  return tags.highway === "motorway" || tags.junction === "roundabout" ? 1 : 0;
+}
+
+function main() {
+  const [input, output, name = "roads"] = process.argv.slice(2);
+  if (!input || !output) {
+    console.error("Usage: build-road-graph <roads.geojson|roads.geojsonseq> <output.json> [name]");
+    process.exit(1);
+  }
+
+  const nodeIds = new Map<string, number>();
+  const nodes: number[] = [];
+  const edges: number[] = [];
+
+  const nodeFor = ([lng, lat]: number[]) => {
+    const key = `${lat.toFixed(6)},${lng.toFixed(6)}`;
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = nodes.length / 2;
+      nodeIds.set(key, id);
+      nodes.push(Number(lat.toFixed(6)), Number(lng.toFixed(6)));
+    }
+    return id;
+  };
+
+  let ways = 0;
+  for (const feature of readFeatures(input)) {
+    const tags = feature.properties || {};
+    const speed = speedFor(tags);
+    if (!speed || !feature.geometry) continue;
+
+    const lines: number[][][] = feature.geometry.type === "LineString" ? [feature.geometry.coordinates]
+      : feature.geometry.type === "MultiLineString" ? feature.geometry.coordinates
+      : [];
+    const direction = onewayDirection(tags);
+
+    for (const line of lines) {
+      for (let i = 1; i < line.length; i++) {
+        const from = nodeFor(line[i - 1]);
+        const to = nodeFor(line[i]);
+        if (from === to) continue;
+        const meters = Math.round(calculateDistance(line[i - 1][1], line[i - 1][0], line[i][1], line[i][0]) * 10000) / 10;
+        if (direction >= 0) edges.push(from, to, meters, Math.round(speed));
+        if (direction <= 0) edges.push(to, from, meters, Math.round(speed));
+      }
+      ways++;
+    }
+  }
+
+  const graph: RoadGraphFile = { version: 1, name, nodes, edges };
+  fs.writeFileSync(output, JSON.stringify(graph));
+  console.log(`Wrote ${output}: ${ways} ways, ${nodes.length / 2} nodes, ${edges.length / 4} directed edges`);
+}
+
+main();
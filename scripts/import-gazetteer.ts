@@ -0,0 +1,38 @@
+/**
+ * Loads a gazetteer CSV into the places table used for address search and reverse geocoding.
+ *
+ *   npm run places:import -- bengaluru-places.csv [--replace]
+ *
+ * Columns: name, kind (locality | landmark | pincode), locality, city, pincode, latitude, longitude, rank.
+ * Smaller files can also be uploaded from the admin dashboard.
+ */
+import fs from "fs";
+import { parseGazetteerCsv } from "../server/geocoding";
+import { storage } from "../server/storage";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find(arg => !arg.startsWith("--"));
+  if (!file) {
+    console.error("Usage: import-gazetteer <places.csv> [--replace]");
+    process.exit(1);
+  }
+
+  const { places, errors } = parseGazetteerCsv(fs.readFileSync(file, "utf8"));
+  for (const error of errors) {
+    console.warn(`Line ${error.line}: ${error.message}`);
+  }
+  if (places.length === 0) {
+    console.error("No valid places found");
+    process.exit(1);
+  }
+
+  const imported = await storage.importPlaces(places, args.includes("--replace"));
+  console.log(`Imported ${imported} places (${errors.length} rows skipped)`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
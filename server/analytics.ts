@@ -0,0 +1,155 @@
+import type { Booking } from "@shared/schema";
+import {
+  responseIntervals,
+  type BookingResponseTimes,
+  type IntervalStats,
+  type ResponseInterval,
+  type ResponseTimeGroup,
+  type ResponseTimeGrouping,
+  type ResponseTimeReport,
+} from "@shared/analytics";
+import { findServiceArea } from "./service-areas";
+import { storage } from "./storage";
+
+export const analyticsConfig = {
+  // Days are counted in local time, so a night shift's calls don't split at UTC midnight
+  timeZone: "Asia/Kolkata",
+  maxRangeDays: 92,
+};
+
+// First time a booking reached each of these marks the end of one interval and the start of the next
+const MILESTONE_STATUSES = ["confirmed", "arrived_pickup", "arrived_destination"];
+
+const OUTSIDE_ZONES = "Outside service areas";
+
+// "2026-10-19" in the operating time zone
+export const dayFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: analyticsConfig.timeZone,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+// "2026-10-19 14:05:00" in the operating time zone
+export const wallClockFormat = new Intl.DateTimeFormat("sv-SE", {
+  timeZone: analyticsConfig.timeZone,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+function secondsBetween(from: Date | null | undefined, to: Date | undefined): number | null {
+  if (!from || !to || to.getTime() < from.getTime()) return null;
+  return Math.round((to.getTime() - from.getTime()) / 1000);
+}
+
+// Linear interpolation between the closest ranks, rounded to the second
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower));
+}
+
+function intervalStats(values: (number | null)[]): IntervalStats {
+  const sorted = values.filter((value): value is number => value != null).sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+  };
+}
+
+function summarize(key: string, label: string, rows: BookingResponseTimes[]): ResponseTimeGroup {
+  const intervals = {} as Record<ResponseInterval, IntervalStats>;
+  responseIntervals.forEach(interval => {
+    intervals[interval] = intervalStats(rows.map(row => row[interval]));
+  });
+  return { key, label, bookings: rows.length, intervals };
+}
+
+/**
+ * Intervals for each emergency booking created in [from, to). Scheduled bookings are
+ * assigned hours ahead on purpose, so their timelines say nothing about response speed.
+ */
+export async function getBookingResponseTimes(from: Date, to: Date): Promise<BookingResponseTimes[]> {
+  const bookings = (await storage.getAllBookings()).filter((booking: Booking) =>
+    booking.bookingType === "emergency" &&
+    booking.createdAt != null &&
+    booking.createdAt >= from &&
+    booking.createdAt < to
+  );
+
+  const [milestones, areas] = await Promise.all([
+    storage.getFirstStatusTimes(bookings.map(booking => booking.id), MILESTONE_STATUSES),
+    // Paused areas still name the zone their past bookings came from
+    storage.getServiceAreas(),
+  ]);
+
+  const reached = new Map<string, Date>();
+  milestones.forEach(milestone => reached.set(`${milestone.bookingId}:${milestone.status}`, milestone.firstAt));
+
+  return bookings.map(booking => {
+    const createdAt = new Date(booking.createdAt!);
+    const dispatchedAt = reached.get(`${booking.id}:confirmed`);
+    const arrivedAt = reached.get(`${booking.id}:arrived_pickup`);
+    const atHospitalAt = reached.get(`${booking.id}:arrived_destination`);
+
+    return {
+      bookingId: booking.id,
+      createdAt: createdAt.toISOString(),
+      day: dayFormat.format(createdAt),
+      zone: findServiceArea(areas, booking.pickupLatitude, booking.pickupLongitude)?.name || null,
+      ambulanceTypeId: booking.ambulanceTypeId,
+      callToDispatch: secondsBetween(createdAt, dispatchedAt),
+      dispatchToArrival: secondsBetween(dispatchedAt, arrivedAt),
+      arrivalToHospital: secondsBetween(arrivedAt, atHospitalAt),
+    };
+  });
+}
+
+// Percentiles of each interval for every day, zone or ambulance type in the range
+export async function buildResponseTimeReport(from: Date, to: Date, groupBy: ResponseTimeGrouping): Promise<ResponseTimeReport> {
+  const rows = await getBookingResponseTimes(from, to);
+
+  let keyOf: (row: BookingResponseTimes) => string;
+  let labelOf: (key: string) => string = key => key;
+  if (groupBy === "day") {
+    keyOf = row => row.day;
+  } else if (groupBy === "zone") {
+    keyOf = row => row.zone || OUTSIDE_ZONES;
+  } else {
+    const types = await storage.getAmbulanceTypes();
+    keyOf = row => String(row.ambulanceTypeId);
+    labelOf = key => types.find(type => type.id === Number(key))?.name || `Type ${key}`;
+  }
+
+  const grouped = new Map<string, BookingResponseTimes[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    const groupRows = grouped.get(key);
+    if (groupRows) {
+      groupRows.push(row);
+    } else {
+      grouped.set(key, [row]);
+    }
+  });
+
+  const groups = Array.from(grouped.entries()).map(([key, groupRows]) => summarize(key, labelOf(key), groupRows));
+  // Days read left to right; zones and types busiest first
+  groups.sort((a, b) => groupBy === "day" ? a.key.localeCompare(b.key) : b.bookings - a.bookings);
+
+  return {
+    groupBy,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    overall: summarize("all", "All bookings", rows),
+    groups,
+  };
+}
@@ -0,0 +1,247 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+import type { AuditDiff, InsertAuditEvent } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Who is behind the storage calls made while handling one request
+interface AuditContext {
+  actorId: number | null;
+  actorRole: string;
+  ip: string | null;
+  route: string;
+  // Patient records already logged as read during this request
+  phiRead: Set<string>;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Attributes storage calls made while handling the request to the signed-in user. Storage
+ * calls outside any request, such as dispatch timers and retention jobs, are logged as
+ * the "system" actor.
+ */
+export const auditRequests: RequestHandler = (req, _res, next) => {
+  auditContext.run({
+    actorId: req.user?.id ?? null,
+    actorRole: req.user?.role ?? "anonymous",
+    ip: req.ip ?? null,
+    route: `${req.method} ${req.path}`,
+    phiRead: new Set(),
+  }, next);
+};
+
+/**
+ * Attributes the storage calls fn makes to user, for work done on their behalf outside an
+ * HTTP request, such as a realtime socket message or a push to their socket.
+ */
+export function runAsUser<T>(user: { id: number; role: string }, source: { route: string; ip: string | null }, fn: () => T): T {
+  return auditContext.run({
+    actorId: user.id,
+    actorRole: user.role,
+    ip: source.ip,
+    route: source.route,
+    phiRead: new Set(),
+  }, fn);
+}
+
+// Runs fn outside any request, so its storage calls are attributed to the "system" actor
+export function runAsSystem<T>(fn: () => T): T {
+  return auditContext.exit(fn);
+}
+
+// Roles whose reads of patient records are logged; patients reading their own aren't
+const PHI_READER_ROLES = ["admin", "driver"];
+
+// Never copied into the log
+const SECRET_FIELDS = ["password"];
+
+interface AuditedMutation {
+  entityType: string;
+  // Loads the record as it was, for the before side of the diff
+  before?: (storage: IStorage, args: any[]) => Promise<unknown>;
+  deletes?: boolean;
+  // Calls that are telemetry rather than an action worth logging
+  skip?: (args: any[]) => boolean;
+}
+
+const byId = <T>(load: (storage: IStorage, id: number) => Promise<T>) =>
+  (storage: IStorage, [id]: any[]) => load(storage, id);
+
+const bookingById = byId((storage, id) => storage.getBookingById(id));
+const ambulanceById = byId((storage, id) => storage.getAmbulanceById(id));
+const seriesById = byId((storage, id) => storage.getBookingSeriesById(id));
+
+// Every IStorage method that changes state, except the location telemetry each moving
+// ambulance writes every few seconds (updateAmbulanceLocation, addLocationPing, addTripDistance
+// and the ETA status updates), which location_pings already keeps a trail of
+const auditedMutations: Record<string, AuditedMutation> = {
+  createUser: { entityType: "user" },
+  createAmbulanceType: { entityType: "ambulance_type" },
+  updateAmbulanceType: { entityType: "ambulance_type", before: byId((storage, id) => storage.getAmbulanceTypeById(id)) },
+  createHospital: { entityType: "hospital" },
+  updateHospital: { entityType: "hospital", before: byId((storage, id) => storage.getHospitalById(id)) },
+  createServiceArea: { entityType: "service_area" },
+  updateServiceArea: { entityType: "service_area", before: byId((storage, id) => storage.getServiceAreaById(id)) },
+  deleteServiceArea: { entityType: "service_area", before: byId((storage, id) => storage.getServiceAreaById(id)), deletes: true },
+  importPlaces: { entityType: "place" },
+  createAmbulance: { entityType: "ambulance" },
+  updateAmbulanceStatus: { entityType: "ambulance", before: ambulanceById },
+  updateAmbulance: { entityType: "ambulance", before: ambulanceById },
+  assignAmbulanceToDriver: { entityType: "ambulance", before: ambulanceById },
+  createBooking: { entityType: "booking" },
+  updateBookingStatus: { entityType: "booking", before: bookingById },
+  assignBookingAmbulance: { entityType: "booking", before: bookingById },
+  rescheduleBooking: { entityType: "booking", before: bookingById },
+  setBookingFare: { entityType: "booking", before: bookingById },
+  rateBooking: { entityType: "booking", before: bookingById },
+  updateReviewStatus: { entityType: "booking", before: bookingById },
+  updateBookingPaymentStatus: { entityType: "booking", before: bookingById },
+  createBookingSeries: { entityType: "booking_series" },
+  updateBookingSeriesStatus: { entityType: "booking_series", before: seriesById },
+  rescheduleBookingSeries: { entityType: "booking_series", before: seriesById },
+  // Only location updates carry an ETA
+  addBookingStatusUpdate: { entityType: "booking_status_update", skip: ([update]) => update.eta != null },
+  deleteLocationPingsBefore: { entityType: "location_ping" },
+  createDispatchOffer: { entityType: "dispatch_offer" },
+  updateDispatchOfferStatus: { entityType: "dispatch_offer", before: byId((storage, id) => storage.getDispatchOfferById(id)) },
+  createAdminAlert: { entityType: "admin_alert" },
+  acknowledgeAdminAlert: {
+    entityType: "admin_alert",
+    before: async (storage, [id]) => (await storage.getAdminAlerts(true)).find(alert => alert.id === id),
+  },
+  createInvoice: { entityType: "invoice" },
+  createPayment: { entityType: "payment" },
+  updatePayment: { entityType: "payment", before: byId((storage, id) => storage.getPaymentById(id)) },
+  createRefund: { entityType: "refund" },
+  addLedgerTransaction: { entityType: "ledger_entry" },
+};
+
+// Reads that can return bookings (with patient details) or patient accounts
+const phiReads = new Set([
+  "getUser",
+  "getUsersByRole",
+  "getAllBookings",
+  "getBookingsPage",
+  "getBookingById",
+  "getBookingsByUserId",
+  "getActiveBookingByAmbulanceId",
+  "getUnassignedEmergencyBookings",
+  "getBookingsBySeriesId",
+  "getRatedBookings",
+]);
+
+type AuditRecord = Record<string, unknown> & { id: number };
+type StorageMethod = (...args: any[]) => Promise<unknown>;
+
+function isRecord(value: unknown): value is AuditRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && typeof (value as AuditRecord).id === "number";
+}
+
+// Compared as JSON so dates and nested details count as unchanged when equal
+function diffRecords(before: AuditRecord | null, after: AuditRecord | null): AuditDiff {
+  const diff: AuditDiff = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  fields.forEach(field => {
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) return;
+    diff[field] = SECRET_FIELDS.includes(field)
+      ? { before: from && "[redacted]", after: to && "[redacted]" }
+      : { before: from, after: to };
+  });
+  return diff;
+}
+
+function actorFields(context: AuditContext | undefined) {
+  return {
+    actorId: context?.actorId ?? null,
+    actorRole: context?.actorRole ?? "system",
+    ip: context?.ip ?? null,
+    route: context?.route ?? null,
+  };
+}
+
+/**
+ * Wraps a storage implementation so every mutation, and every read of patient records by
+ * staff, appends an event to the audit log. Calls a storage method makes on itself aren't
+ * logged again; the outer call is the action. A failure to write the log is reported but
+ * doesn't undo or fail the change it describes.
+ */
+export function withAuditLog(inner: IStorage): IStorage {
+  const append = async (event: InsertAuditEvent) => {
+    try {
+      await inner.addAuditEvent(event);
+    } catch (error) {
+      console.error(`Failed to write audit event for ${event.action}:`, error);
+    }
+  };
+
+  const callMutation = async (action: string, mutation: AuditedMutation, method: StorageMethod, args: any[]) => {
+    const before = mutation.before ? await mutation.before(inner, args) : undefined;
+    const result = await method.apply(inner, args);
+    // e.g. rateBooking on an already rated booking
+    if (result === undefined && !mutation.deletes) return result;
+
+    const beforeRecord = isRecord(before) ? before : null;
+    const afterRecord = isRecord(result) ? result : null;
+    const records = Array.isArray(result) ? result.filter(isRecord) : [];
+
+    await append({
+      kind: "mutation",
+      action,
+      entityType: mutation.entityType,
+      entityId: afterRecord?.id ?? beforeRecord?.id ?? (typeof args[0] === "number" ? args[0] : null),
+      recordIds: records.length > 0 ? records.map(record => record.id) : null,
+      diff: afterRecord || mutation.deletes
+        ? diffRecords(beforeRecord, afterRecord)
+        // Bulk changes only report how many rows they touched
+        : typeof result === "number" ? { count: { before: null, after: result } } : null,
+      ...actorFields(auditContext.getStore()),
+    });
+    return result;
+  };
+
+  const callPhiRead = async (action: string, method: StorageMethod, args: any[]) => {
+    const result = await method.apply(inner, args);
+    const context = auditContext.getStore();
+    if (!context || !PHI_READER_ROLES.includes(context.actorRole)) return result;
+
+    const rows = (Array.isArray(result) ? result : [result]).filter(isRecord);
+    const bookingIds = rows.filter(row => "patientDetails" in row).map(row => row.id);
+    const patientIds = rows.filter(row => row.role === "patient").map(row => row.id);
+
+    for (const [entityType, ids] of [["booking", bookingIds], ["user", patientIds]] as const) {
+      // Handlers often load the same booking several times; one event per record per request
+      const unseen = ids.filter(id => !context.phiRead.has(`${entityType}:${id}`));
+      if (unseen.length === 0) continue;
+      unseen.forEach(id => context.phiRead.add(`${entityType}:${id}`));
+
+      await append({
+        kind: "phi_read",
+        action,
+        entityType,
+        entityId: unseen.length === 1 ? unseen[0] : null,
+        recordIds: unseen.length > 1 ? unseen : null,
+        diff: null,
+        ...actorFields(context),
+      });
+    }
+    return result;
+  };
+
+  return new Proxy(inner, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== "string" || typeof value !== "function") return value;
+
+      const mutation = auditedMutations[property];
+      if (mutation) {
+        return (...args: any[]) => mutation.skip?.(args)
+          ? value.apply(target, args)
+          : callMutation(property, mutation, value, args);
+      }
+      if (phiReads.has(property)) return (...args: any[]) => callPhiRead(property, value, args);
+      return value.bind(target);
+    },
+  });
+}
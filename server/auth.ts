@@ -1,10 +1,11 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { auditRequests } from "./audit";
 import { User as SelectUser } from "@shared/schema";
 
 declare global {
@@ -28,7 +29,7 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "ambulance-booking-secret-key",
     resave: false,
@@ -39,10 +40,15 @@ export function setupAuth(app: Express) {
     }
   };
 
+  // Returned so the realtime channel can authenticate WebSocket upgrades with the same session
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  // After the session so storage calls are attributed to the signed-in user
+  app.use(auditRequests);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -150,4 +156,6 @@ export function setupAuth(app: Express) {
   
   app.use("/api/driver", checkRole("driver"));
   app.use("/api/admin", checkRole("admin"));
+  
+  return sessionMiddleware;
 }
@@ -0,0 +1,99 @@
+import type { ServiceAreaPolygon } from "@shared/schema";
+import { isPointInPolygon } from "@shared/geo";
+import type { CoverageCell, CoverageReport } from "@shared/analytics";
+import { bookingEvents } from "./events";
+import { fastestTimesFrom } from "./routing";
+import { getActiveServiceAreas } from "./service-areas";
+import { storage } from "./storage";
+
+export const coverageConfig = {
+  cellSizeKm: 0.5,
+  // Cells get coarser rather than exceed this, so a city-wide area stays quick to compute
+  maxCells: 10000,
+  // Free units also drift as they drive back to base, so a report is never reused for longer than this
+  maxAgeSeconds: 120,
+};
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// Reports by target set, dropped whenever a unit's status changes (e.g. it becomes assigned or available)
+const reports = new Map<string, { computedAt: number; report: Promise<CoverageReport> }>();
+
+bookingEvents.on("ambulanceUpdate", () => reports.clear());
+
+// Centres of a square grid over the active service areas, keeping the cells whose centre lies inside one
+function gridCells(polygons: ServiceAreaPolygon[]) {
+  const points = polygons.flat();
+  if (points.length === 0) return { cellSizeKm: coverageConfig.cellSizeKm, cells: [] };
+
+  const minLat = Math.min(...points.map(([lat]) => lat));
+  const maxLat = Math.max(...points.map(([lat]) => lat));
+  const minLng = Math.min(...points.map(([, lng]) => lng));
+  const maxLng = Math.max(...points.map(([, lng]) => lng));
+  const cosLat = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+
+  const boxKm2 = (maxLat - minLat) * KM_PER_DEGREE_LATITUDE * (maxLng - minLng) * KM_PER_DEGREE_LATITUDE * cosLat;
+  const cellSizeKm = Math.max(coverageConfig.cellSizeKm, Math.sqrt(boxKm2 / coverageConfig.maxCells));
+  const latStep = cellSizeKm / KM_PER_DEGREE_LATITUDE;
+  const lngStep = latStep / cosLat;
+
+  const cells: Omit<CoverageCell, "minutes">[] = [];
+  for (let south = minLat; south < maxLat; south += latStep) {
+    for (let west = minLng; west < maxLng; west += lngStep) {
+      const latitude = south + latStep / 2;
+      const longitude = west + lngStep / 2;
+      if (polygons.some(polygon => isPointInPolygon(latitude, longitude, polygon))) {
+        cells.push({ latitude, longitude, bounds: [[south, west], [south + latStep, west + lngStep]] });
+      }
+    }
+  }
+  return { cellSizeKm: Math.round(cellSizeKm * 100) / 100, cells };
+}
+
+async function computeCoverage(targetsMinutes: number[]): Promise<CoverageReport> {
+  const [areas, ambulances] = await Promise.all([getActiveServiceAreas(), storage.getAmbulances()]);
+  const origins = ambulances
+    .filter(ambulance => ambulance.status === "available" && ambulance.latitude != null && ambulance.longitude != null)
+    .map(ambulance => [ambulance.latitude!, ambulance.longitude!] as [number, number]);
+
+  const { cellSizeKm, cells } = gridCells(areas.map(area => area.polygon as ServiceAreaPolygon));
+  const slowestTarget = Math.max(...targetsMinutes);
+  const seconds = fastestTimesFrom(origins, cells.map(cell => [cell.latitude, cell.longitude]), slowestTarget * 60);
+
+  const covered: CoverageCell[] = cells.map((cell, i) => ({
+    ...cell,
+    minutes: Number.isFinite(seconds[i]) ? Math.round(seconds[i] / 6) / 10 : null,
+  }));
+
+  return {
+    computedAt: new Date().toISOString(),
+    targetsMinutes,
+    cellSizeKm,
+    availableUnits: origins.length,
+    coverage: targetsMinutes.map(minutes => ({
+      minutes,
+      share: covered.length > 0
+        ? Math.round(covered.filter(cell => cell.minutes != null && cell.minutes <= minutes).length / covered.length * 1000) / 1000
+        : 0,
+    })),
+    cells: covered,
+  };
+}
+
+/**
+ * Which parts of the active service areas the available fleet can reach within each
+ * response-time target. Cached until a unit's status changes.
+ */
+export function getCoverage(targetsMinutes: number[]): Promise<CoverageReport> {
+  const key = targetsMinutes.join(",");
+  const cached = reports.get(key);
+  if (cached && Date.now() - cached.computedAt < coverageConfig.maxAgeSeconds * 1000) {
+    return cached.report;
+  }
+
+  const report = computeCoverage(targetsMinutes);
+  reports.set(key, { computedAt: Date.now(), report });
+  // A failed computation shouldn't be served from the cache
+  report.catch(() => reports.delete(key));
+  return report;
+}
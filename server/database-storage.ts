@@ -1,16 +1,35 @@
 import connectPg from "connect-pg-simple";
-import { asc, desc, eq, and, or, like } from "drizzle-orm";
+import { asc, desc, eq, and, or, like, ilike, gt, lt, lte, gte, between, isNull, isNotNull, inArray, min, sql } from "drizzle-orm";
 import session from "express-session";
 import { db, pool } from "./db";
 import {
   users, User, InsertUser,
   ambulanceTypes, AmbulanceType, InsertAmbulanceType,
   hospitals, Hospital, InsertHospital,
+  serviceAreas, ServiceArea, InsertServiceArea,
+  places, Place, InsertPlace,
   ambulances, Ambulance, InsertAmbulance,
   bookings, Booking, InsertBooking,
-  bookingStatusUpdates, BookingStatusUpdate, InsertBookingStatusUpdate
+  bookingStatusUpdates, BookingStatusUpdate, InsertBookingStatusUpdate,
+  dispatchOffers, DispatchOffer, InsertDispatchOffer,
+  adminAlerts, AdminAlert, InsertAdminAlert,
+  bookingSeries, BookingSeries, InsertBookingSeries,
+  invoices, Invoice, InsertInvoice,
+  payments, Payment, InsertPayment,
+  refunds, Refund, InsertRefund,
+  ledgerEntries, LedgerEntry, InsertLedgerEntry,
+  RatingSummary,
+  locationPings, LocationPing, InsertLocationPing,
+  auditEvents, AuditEvent, InsertAuditEvent, AuditEventQuery
 } from "@shared/schema";
 import { IStorage } from "./storage";
+import { bookingEvents } from "./events";
+import { calculateFare } from "./pricing";
+import { findRoute, findRoutesTo } from "./routing";
+import type { FareBreakdown } from "@shared/pricing";
+import type { BookingExportFilter } from "@shared/exports";
+import { calculateDistance } from "@shared/geo";
+import { assertTransition, storedActiveBookingStatuses, terminalBookingStatuses, type BookingActorRole, type BookingStatus } from "@shared/booking-lifecycle";
 
 const PostgresSessionStore = connectPg(session);
 
@@ -64,6 +83,19 @@ export class DatabaseStorage implements IStorage {
     return ambulanceType;
   }
 
+  async updateAmbulanceType(id: number, update: Partial<InsertAmbulanceType>): Promise<AmbulanceType> {
+    const [updatedType] = await db.update(ambulanceTypes)
+      .set(update)
+      .where(eq(ambulanceTypes.id, id))
+      .returning();
+    
+    if (!updatedType) {
+      throw new Error(`Ambulance type with ID ${id} not found`);
+    }
+    
+    return updatedType;
+  }
+
   async getHospitals(): Promise<Hospital[]> {
     return await db.select().from(hospitals);
   }
@@ -78,6 +110,95 @@ export class DatabaseStorage implements IStorage {
     return hospital;
   }
 
+  async updateHospital(id: number, update: Partial<InsertHospital>): Promise<Hospital> {
+    const [updatedHospital] = await db.update(hospitals)
+      .set(update)
+      .where(eq(hospitals.id, id))
+      .returning();
+    
+    if (!updatedHospital) {
+      throw new Error(`Hospital with ID ${id} not found`);
+    }
+    
+    return updatedHospital;
+  }
+
+  async getServiceAreas(): Promise<ServiceArea[]> {
+    return await db.select().from(serviceAreas).orderBy(asc(serviceAreas.city), asc(serviceAreas.name));
+  }
+
+  async getServiceAreaById(id: number): Promise<ServiceArea | undefined> {
+    const [area] = await db.select().from(serviceAreas).where(eq(serviceAreas.id, id));
+    return area;
+  }
+
+  async createServiceArea(insertArea: InsertServiceArea): Promise<ServiceArea> {
+    const [area] = await db.insert(serviceAreas).values(insertArea).returning();
+    return area;
+  }
+
+  async updateServiceArea(id: number, update: Partial<InsertServiceArea>): Promise<ServiceArea> {
+    const [updatedArea] = await db.update(serviceAreas)
+      .set(update)
+      .where(eq(serviceAreas.id, id))
+      .returning();
+    
+    if (!updatedArea) {
+      throw new Error(`Service area with ID ${id} not found`);
+    }
+    
+    return updatedArea;
+  }
+
+  async deleteServiceArea(id: number): Promise<void> {
+    await db.delete(serviceAreas).where(eq(serviceAreas.id, id));
+  }
+
+  async searchPlaces(query: string, limit: number): Promise<Place[]> {
+    const q = query.replace(/[%_\\]/g, "\\$&");
+    return await db.select().from(places)
+      .where(or(
+        ilike(places.name, `${q}%`),
+        ilike(places.name, `% ${q}%`),
+        ilike(places.locality, `${q}%`),
+        like(places.pincode, `${q}%`)
+      ))
+      .orderBy(desc(places.rank))
+      .limit(limit);
+  }
+
+  async getPlacesNear(latitude: number, longitude: number, radiusKm: number): Promise<Place[]> {
+    // Bounding box on the index, then the exact radius
+    const latDelta = radiusKm / 111.32;
+    const lngDelta = radiusKm / (111.32 * Math.cos(latitude * Math.PI / 180));
+    const candidates = await db.select().from(places)
+      .where(and(
+        between(places.latitude, latitude - latDelta, latitude + latDelta),
+        between(places.longitude, longitude - lngDelta, longitude + lngDelta)
+      ));
+    return candidates.filter(place =>
+      calculateDistance(latitude, longitude, place.latitude, place.longitude) <= radiusKm
+    );
+  }
+
+  async countPlaces(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(places);
+    return count;
+  }
+
+  async importPlaces(insertPlaces: InsertPlace[], replace: boolean): Promise<number> {
+    await db.transaction(async (tx) => {
+      if (replace) {
+        await tx.delete(places);
+      }
+      // Keep each statement well under the parameter limit
+      for (let i = 0; i < insertPlaces.length; i += 1000) {
+        await tx.insert(places).values(insertPlaces.slice(i, i + 1000));
+      }
+    });
+    return insertPlaces.length;
+  }
+
   async getAmbulances(): Promise<Ambulance[]> {
     return await db.select().from(ambulances);
   }
@@ -97,22 +218,34 @@ export class DatabaseStorage implements IStorage {
     const availableAmbulances = await db.select().from(ambulances)
       .where(eq(ambulances.status, 'available'));
     
-    // Calculate distance for each ambulance from the pickup point
-    return availableAmbulances.map(ambulance => {
-      const distance = this.calculateDistance(
-        latitude, 
-        longitude, 
-        ambulance.latitude!, 
-        ambulance.longitude!
-      );
+    const [ambulanceRatings, driverRatings] = await Promise.all([
+      this.getRatingSummaries("ambulance"),
+      this.getRatingSummaries("driver")
+    ]);
+    const ratingOf = (summaries: (RatingSummary & { id: number })[], id: number): RatingSummary => {
+      const summary = summaries.find(summary => summary.id === id);
+      return summary ? { average: summary.average, count: summary.count } : { average: null, count: 0 };
+    };
+    
+    // Road distance and drive time from each ambulance to the pickup point
+    const located = availableAmbulances.filter(ambulance => ambulance.latitude != null && ambulance.longitude != null);
+    const routes = findRoutesTo(
+      located.map(ambulance => [ambulance.latitude!, ambulance.longitude!] as [number, number]),
+      [latitude, longitude]
+    );
+    
+    return located.map((ambulance, i) => {
+      const distance = routes[i].distanceKm;
       
       return {
         ...ambulance,
         distance: `${(distance).toFixed(1)} km`,
         distanceValue: distance,
-        estimatedTimeMinutes: Math.round(distance / 0.5) // Assuming 0.5 km per minute
+        estimatedTimeMinutes: Math.round(routes[i].durationSeconds / 60),
+        rating: ratingOf(ambulanceRatings, ambulance.id),
+        driverRating: ambulance.driverId ? ratingOf(driverRatings, ambulance.driverId) : null
       };
-    }).sort((a, b) => a.distanceValue - b.distanceValue);
+    }).sort((a, b) => a.estimatedTimeMinutes - b.estimatedTimeMinutes || a.distanceValue - b.distanceValue);
   }
 
   async createAmbulance(insertAmbulance: InsertAmbulance): Promise<Ambulance> {
@@ -139,10 +272,39 @@ export class DatabaseStorage implements IStorage {
       throw new Error(`Ambulance with ID ${id} not found`);
     }
     
+    bookingEvents.emit("ambulanceLocation", updatedAmbulance);
+    return updatedAmbulance;
+  }
+
+  async updateAmbulanceStatus(id: number, status: string): Promise<Ambulance> {
+    const [updatedAmbulance] = await db.update(ambulances)
+      .set({ status })
+      .where(eq(ambulances.id, id))
+      .returning();
+    
+    if (!updatedAmbulance) {
+      throw new Error(`Ambulance with ID ${id} not found`);
+    }
+    
+    bookingEvents.emit("ambulanceUpdate", updatedAmbulance);
+    return updatedAmbulance;
+  }
+
+  async updateAmbulance(id: number, update: Partial<InsertAmbulance>): Promise<Ambulance> {
+    const [updatedAmbulance] = await db.update(ambulances)
+      .set(update)
+      .where(eq(ambulances.id, id))
+      .returning();
+    
+    if (!updatedAmbulance) {
+      throw new Error(`Ambulance with ID ${id} not found`);
+    }
+    
+    bookingEvents.emit("ambulanceUpdate", updatedAmbulance);
     return updatedAmbulance;
   }
 
-  async assignAmbulanceToDriver(id: number, driverId: number): Promise<Ambulance> {
+  async assignAmbulanceToDriver(id: number, driverId: number | null): Promise<Ambulance> {
     const [updatedAmbulance] = await db.update(ambulances)
       .set({ driverId })
       .where(eq(ambulances.id, id))
@@ -152,6 +314,7 @@ export class DatabaseStorage implements IStorage {
       throw new Error(`Ambulance with ID ${id} not found`);
     }
     
+    bookingEvents.emit("ambulanceUpdate", updatedAmbulance);
     return updatedAmbulance;
   }
 
@@ -160,6 +323,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(bookings.createdAt));
   }
   
+  async getBookingsPage(filter: BookingExportFilter, afterId: number, limit: number): Promise<Booking[]> {
+    const conditions = [gt(bookings.id, afterId)];
+    if (filter.from) conditions.push(gte(bookings.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(bookings.createdAt, filter.to));
+    if (filter.statuses) conditions.push(inArray(bookings.status, filter.statuses));
+    if (filter.bookingType) conditions.push(eq(bookings.bookingType, filter.bookingType));
+    if (filter.hospitalId != null) conditions.push(eq(bookings.hospitalId, filter.hospitalId));
+    
+    return await db.select().from(bookings)
+      .where(and(...conditions))
+      .orderBy(asc(bookings.id))
+      .limit(limit);
+  }
+  
   async getBookingById(id: number): Promise<Booking | undefined> {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
     return booking;
@@ -176,77 +353,84 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(bookings.ambulanceId, ambulanceId),
-          or(
-            eq(bookings.status, 'confirmed'),
-            eq(bookings.status, 'in_progress')
-          )
+          inArray(bookings.status, storedActiveBookingStatuses)
         )
       );
     return booking;
   }
 
+  async getScheduledBookingsDueBefore(time: Date): Promise<Booking[]> {
+    return await db.select().from(bookings)
+      .where(
+        and(
+          eq(bookings.bookingType, 'scheduled'),
+          eq(bookings.status, 'pending'),
+          isNull(bookings.ambulanceId),
+          lte(bookings.scheduledTime, time)
+        )
+      )
+      .orderBy(asc(bookings.scheduledTime));
+  }
+
+  async getUnassignedEmergencyBookings(): Promise<Booking[]> {
+    return await db.select().from(bookings)
+      .where(
+        and(
+          eq(bookings.bookingType, 'emergency'),
+          eq(bookings.status, 'pending'),
+          isNull(bookings.ambulanceId)
+        )
+      )
+      .orderBy(asc(bookings.id));
+  }
+
   async createBooking(insertBooking: InsertBooking): Promise<Booking> {
-    // For emergency bookings, auto-assign the nearest ambulance
-    let assignedAmbulanceId = insertBooking.ambulanceId;
-    
-    if (insertBooking.bookingType === 'emergency' && !assignedAmbulanceId) {
-      const nearbyAmbulances = await this.getNearbyAmbulances(
-        insertBooking.pickupLatitude, 
-        insertBooking.pickupLongitude
-      );
-      
-      if (nearbyAmbulances.length > 0) {
-        const closestAmbulance = nearbyAmbulances[0];
-        assignedAmbulanceId = closestAmbulance.id;
-        
-        // Update ambulance status to assigned
-        if (assignedAmbulanceId) {
-          await db.update(ambulances)
-            .set({ status: 'assigned' })
-            .where(eq(ambulances.id, assignedAmbulanceId));
-        }
-      }
-    }
-    
     // Calculate estimated fare
-    let estimatedFare = insertBooking.estimatedFare;
+    let estimatedFare: number | null = null;
     
-    if (!estimatedFare && insertBooking.ambulanceTypeId) {
+    if (insertBooking.ambulanceTypeId) {
       const [ambulanceType] = await db.select().from(ambulanceTypes)
         .where(eq(ambulanceTypes.id, insertBooking.ambulanceTypeId));
       
       if (ambulanceType) {
-        const pickupLat = insertBooking.pickupLatitude;
-        const pickupLng = insertBooking.pickupLongitude;
         const destLat = insertBooking.destinationLatitude || 0;
         const destLng = insertBooking.destinationLongitude || 0;
+        // Priced on the road distance, as /api/fare-estimate shows it; without a destination only the minimum fare can be estimated
+        const distance = destLat && destLng
+          ? findRoute([insertBooking.pickupLatitude, insertBooking.pickupLongitude], [destLat, destLng]).distanceKm
+          : 0;
         
-        if (destLat && destLng) {
-          const distance = this.calculateDistance(pickupLat, pickupLng, destLat, destLng);
-          estimatedFare = ambulanceType.basePrice + (distance * ambulanceType.pricePerKm);
-        } else {
-          // If no destination, use a minimum fare
-          estimatedFare = ambulanceType.basePrice;
-        }
+        estimatedFare = calculateFare({
+          ambulanceType,
+          bookingType: insertBooking.bookingType,
+          distanceKm: distance,
+          at: insertBooking.scheduledTime || new Date(),
+        }).total;
       }
     }
     
     const [booking] = await db.insert(bookings).values({
       userId: insertBooking.userId,
-      ambulanceId: assignedAmbulanceId || null,
+      ambulanceId: insertBooking.ambulanceId || null,
+      driverId: insertBooking.driverId || null,
       ambulanceTypeId: insertBooking.ambulanceTypeId || null,
       bookingType: insertBooking.bookingType,
-      status: insertBooking.status || (insertBooking.bookingType === 'emergency' ? 'confirmed' : 'pending'),
+      // Emergency bookings stay pending until a driver accepts the dispatch offer
+      status: insertBooking.status || 'pending',
       pickupAddress: insertBooking.pickupAddress,
+      pickupDetails: insertBooking.pickupDetails || null,
       pickupLatitude: insertBooking.pickupLatitude,
       pickupLongitude: insertBooking.pickupLongitude,
       destinationAddress: insertBooking.destinationAddress || null,
+      destinationDetails: insertBooking.destinationDetails || null,
+      hospitalId: insertBooking.hospitalId || null,
       destinationLatitude: insertBooking.destinationLatitude || null,
       destinationLongitude: insertBooking.destinationLongitude || null,
       patientDetails: insertBooking.patientDetails,
       emergencyContact: insertBooking.emergencyContact,
-      estimatedFare: estimatedFare || null,
+      estimatedFare,
       scheduledTime: insertBooking.scheduledTime || null,
+      seriesId: insertBooking.seriesId || null,
       notes: insertBooking.notes || null,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -257,26 +441,32 @@ export class DatabaseStorage implements IStorage {
       bookingId: booking.id,
       status: booking.status,
       message: booking.bookingType === 'emergency' 
-        ? 'Emergency booking created. Ambulance dispatched.'
+        ? 'Emergency booking created. Finding the nearest suitable ambulance.'
         : 'Booking created successfully.'
     });
     
     return booking;
   }
 
-  async updateBookingStatus(id: number, status: string): Promise<Booking> {
+  async updateBookingStatus(id: number, status: string, role: BookingActorRole): Promise<Booking> {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
     
     if (!booking) {
       throw new Error(`Booking with ID ${id} not found`);
     }
     
+    assertTransition(booking.status, status, role);
+    
     // Handle status-specific updates
-    if ((status === 'completed' || status === 'cancelled') && booking.ambulanceId) {
+    if (terminalBookingStatuses.includes(status as BookingStatus) && booking.ambulanceId) {
       // Set ambulance back to available
-      await db.update(ambulances)
+      const [releasedAmbulance] = await db.update(ambulances)
         .set({ status: 'available' })
-        .where(eq(ambulances.id, booking.ambulanceId));
+        .where(eq(ambulances.id, booking.ambulanceId))
+        .returning();
+      if (releasedAmbulance) {
+        bookingEvents.emit("ambulanceUpdate", releasedAmbulance);
+      }
     }
     
     const [updatedBooking] = await db.update(bookings)
@@ -290,12 +480,165 @@ export class DatabaseStorage implements IStorage {
     return updatedBooking;
   }
 
+  async assignBookingAmbulance(id: number, ambulanceId: number, driverId: number | null): Promise<Booking> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    assertTransition(booking.status, 'confirmed', 'system');
+    
+    const [updatedBooking] = await db.update(bookings)
+      .set({
+        ambulanceId,
+        driverId,
+        status: 'confirmed',
+        updatedAt: new Date()
+      })
+      .where(eq(bookings.id, id))
+      .returning();
+    
+    return updatedBooking;
+  }
+
+  async rescheduleBooking(id: number, scheduledTime: Date): Promise<Booking> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    assertTransition(booking.status, 'pending', 'system');
+    
+    // Give back any reserved ambulance; the scheduler reserves again closer to the new time
+    if (booking.ambulanceId) {
+      const [releasedAmbulance] = await db.update(ambulances)
+        .set({ status: 'available' })
+        .where(and(eq(ambulances.id, booking.ambulanceId), eq(ambulances.status, 'reserved')))
+        .returning();
+      if (releasedAmbulance) {
+        bookingEvents.emit("ambulanceUpdate", releasedAmbulance);
+      }
+    }
+    
+    const [updatedBooking] = await db.update(bookings)
+      .set({
+        scheduledTime,
+        ambulanceId: null,
+        driverId: null,
+        status: 'pending',
+        updatedAt: new Date()
+      })
+      .where(eq(bookings.id, id))
+      .returning();
+    
+    return updatedBooking;
+  }
+
+  async addTripDistance(id: number, distanceKm: number): Promise<Booking> {
+    // Increment in the database so concurrent location updates don't lose distance
+    const [updatedBooking] = await db.update(bookings)
+      .set({ tripDistanceKm: sql`coalesce(${bookings.tripDistanceKm}, 0) + ${distanceKm}` })
+      .where(eq(bookings.id, id))
+      .returning();
+    
+    if (!updatedBooking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    return updatedBooking;
+  }
+
+  async setBookingFare(id: number, fare: FareBreakdown): Promise<Booking> {
+    const [updatedBooking] = await db.update(bookings)
+      .set({
+        actualFare: fare.total,
+        fareBreakdown: fare,
+        updatedAt: new Date()
+      })
+      .where(eq(bookings.id, id))
+      .returning();
+    
+    if (!updatedBooking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    return updatedBooking;
+  }
+
+
+  async getBookingSeriesById(id: number): Promise<BookingSeries | undefined> {
+    const [series] = await db.select().from(bookingSeries).where(eq(bookingSeries.id, id));
+    return series;
+  }
+
+  async getBookingsBySeriesId(seriesId: number): Promise<Booking[]> {
+    return await db.select().from(bookings)
+      .where(eq(bookings.seriesId, seriesId))
+      .orderBy(asc(bookings.scheduledTime));
+  }
+
+  async createBookingSeries(insertSeries: InsertBookingSeries): Promise<BookingSeries> {
+    const [series] = await db.insert(bookingSeries).values({
+      ...insertSeries,
+      status: insertSeries.status || 'active',
+      createdAt: new Date()
+    }).returning();
+    return series;
+  }
+
+  async updateBookingSeriesStatus(id: number, status: string): Promise<BookingSeries> {
+    const [updatedSeries] = await db.update(bookingSeries)
+      .set({ status })
+      .where(eq(bookingSeries.id, id))
+      .returning();
+    
+    if (!updatedSeries) {
+      throw new Error(`Booking series with ID ${id} not found`);
+    }
+    
+    return updatedSeries;
+  }
+
+  async rescheduleBookingSeries(id: number, startTime: Date, endDate: Date): Promise<BookingSeries> {
+    const [updatedSeries] = await db.update(bookingSeries)
+      .set({ startTime, endDate })
+      .where(eq(bookingSeries.id, id))
+      .returning();
+    
+    if (!updatedSeries) {
+      throw new Error(`Booking series with ID ${id} not found`);
+    }
+    
+    return updatedSeries;
+  }
+
   async getBookingStatusUpdates(bookingId: number): Promise<BookingStatusUpdate[]> {
     return await db.select().from(bookingStatusUpdates)
       .where(eq(bookingStatusUpdates.bookingId, bookingId))
       .orderBy(asc(bookingStatusUpdates.createdAt));
   }
 
+  async getFirstStatusTimes(bookingIds: number[], statuses: string[]): Promise<{ bookingId: number; status: string; firstAt: Date }[]> {
+    if (bookingIds.length === 0 || statuses.length === 0) {
+      return [];
+    }
+    
+    const rows = await db.select({
+      bookingId: bookingStatusUpdates.bookingId,
+      status: bookingStatusUpdates.status,
+      firstAt: min(bookingStatusUpdates.createdAt)
+    })
+      .from(bookingStatusUpdates)
+      .where(and(inArray(bookingStatusUpdates.bookingId, bookingIds), inArray(bookingStatusUpdates.status, statuses)))
+      .groupBy(bookingStatusUpdates.bookingId, bookingStatusUpdates.status);
+    
+    return rows
+      .filter(row => row.firstAt != null)
+      .map(row => ({ bookingId: row.bookingId, status: row.status, firstAt: new Date(row.firstAt!) }));
+  }
+
   async addBookingStatusUpdate(insertUpdate: InsertBookingStatusUpdate): Promise<BookingStatusUpdate> {
     const [update] = await db.insert(bookingStatusUpdates).values({
       bookingId: insertUpdate.bookingId,
@@ -306,25 +649,310 @@ export class DatabaseStorage implements IStorage {
       eta: insertUpdate.eta || null,
       createdAt: new Date()
     }).returning();
+    bookingEvents.emit("statusUpdate", update);
     return update;
   }
 
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    if (!lat1 || !lon1 || !lat2 || !lon2) return 0;
+  async getDispatchOfferById(id: number): Promise<DispatchOffer | undefined> {
+    const [offer] = await db.select().from(dispatchOffers).where(eq(dispatchOffers.id, id));
+    return offer;
+  }
+
+  async getDispatchOffersByBookingId(bookingId: number): Promise<DispatchOffer[]> {
+    return await db.select().from(dispatchOffers)
+      .where(eq(dispatchOffers.bookingId, bookingId))
+      .orderBy(asc(dispatchOffers.id));
+  }
+
+  async getPendingDispatchOffers(): Promise<DispatchOffer[]> {
+    return await db.select().from(dispatchOffers)
+      .where(eq(dispatchOffers.status, 'pending'))
+      .orderBy(asc(dispatchOffers.expiresAt));
+  }
+
+  async getPendingDispatchOffersByDriverId(driverId: number): Promise<DispatchOffer[]> {
+    return await db.select().from(dispatchOffers)
+      .where(
+        and(
+          eq(dispatchOffers.driverId, driverId),
+          eq(dispatchOffers.status, 'pending')
+        )
+      )
+      .orderBy(asc(dispatchOffers.expiresAt));
+  }
+
+  async createDispatchOffer(insertOffer: InsertDispatchOffer): Promise<DispatchOffer> {
+    const [offer] = await db.insert(dispatchOffers).values({
+      ...insertOffer,
+      status: insertOffer.status || 'pending',
+      message: insertOffer.message || null,
+      createdAt: new Date()
+    }).returning();
+    return offer;
+  }
+
+  async updateDispatchOfferStatus(id: number, status: string): Promise<DispatchOffer> {
+    const [updatedOffer] = await db.update(dispatchOffers)
+      .set({
+        status,
+        respondedAt: new Date()
+      })
+      .where(eq(dispatchOffers.id, id))
+      .returning();
     
-    const R = 6371; // Radius of the earth in km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1); 
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2); 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-    const distance = R * c; // Distance in km
-    return distance;
+    if (!updatedOffer) {
+      throw new Error(`Dispatch offer with ID ${id} not found`);
+    }
+    
+    return updatedOffer;
   }
-  
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI/180);
+
+  async getAdminAlerts(includeAcknowledged: boolean): Promise<AdminAlert[]> {
+    return await db.select().from(adminAlerts)
+      .where(includeAcknowledged ? undefined : isNull(adminAlerts.acknowledgedAt))
+      .orderBy(desc(adminAlerts.id));
+  }
+
+  async getAdminAlertsByBookingId(bookingId: number): Promise<AdminAlert[]> {
+    return await db.select().from(adminAlerts)
+      .where(eq(adminAlerts.bookingId, bookingId))
+      .orderBy(asc(adminAlerts.id));
+  }
+
+  async createAdminAlert(insertAlert: InsertAdminAlert): Promise<AdminAlert> {
+    const [alert] = await db.insert(adminAlerts).values({
+      ...insertAlert,
+      bookingId: insertAlert.bookingId || null,
+      createdAt: new Date()
+    }).returning();
+    return alert;
+  }
+
+  async acknowledgeAdminAlert(id: number, userId: number): Promise<AdminAlert> {
+    const [updatedAlert] = await db.update(adminAlerts)
+      .set({
+        acknowledgedBy: userId,
+        acknowledgedAt: new Date()
+      })
+      .where(eq(adminAlerts.id, id))
+      .returning();
+    
+    if (!updatedAlert) {
+      throw new Error(`Admin alert with ID ${id} not found`);
+    }
+    
+    return updatedAlert;
+  }
+
+  async getInvoiceByBookingId(bookingId: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.bookingId, bookingId));
+    return invoice;
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    // Concurrent inserts can pick the same number; the unique constraint rejects the loser
+    const [invoice] = await db.insert(invoices).values({
+      ...insertInvoice,
+      sequence: sql`(select coalesce(max(${invoices.sequence}), 0) + 1 from ${invoices} where ${invoices.financialYear} = ${insertInvoice.financialYear})`,
+      issuedAt: new Date()
+    }).returning();
+    return invoice;
+  }
+
+  async rateBooking(id: number, rating: number, feedback: string | null): Promise<Booking | undefined> {
+    // Only the first rating sticks, even if two arrive at once
+    const [ratedBooking] = await db.update(bookings)
+      .set({ rating, feedback, ratedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(bookings.id, id), isNull(bookings.rating)))
+      .returning();
+    return ratedBooking;
+  }
+
+  async getRatedBookings(): Promise<Booking[]> {
+    return await db.select().from(bookings)
+      .where(isNotNull(bookings.rating))
+      .orderBy(desc(bookings.ratedAt));
+  }
+
+  async updateReviewStatus(id: number, reviewStatus: string, moderatedBy: number): Promise<Booking> {
+    const [updatedBooking] = await db.update(bookings)
+      .set({ reviewStatus, moderatedBy, updatedAt: new Date() })
+      .where(eq(bookings.id, id))
+      .returning();
+    
+    if (!updatedBooking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    return updatedBooking;
+  }
+
+  async getRatingSummaries(subject: "driver" | "ambulance"): Promise<(RatingSummary & { id: number })[]> {
+    const column = subject === "driver" ? bookings.driverId : bookings.ambulanceId;
+    const rows = await db.select({
+      id: column,
+      average: sql<number>`avg(${bookings.rating})::float`,
+      count: sql<number>`count(*)::int`
+    })
+      .from(bookings)
+      .where(and(isNotNull(bookings.rating), eq(bookings.reviewStatus, 'published'), isNotNull(column)))
+      .groupBy(column);
+    
+    return rows.map(row => ({
+      id: row.id!,
+      average: Math.round(row.average * 10) / 10,
+      count: row.count
+    }));
+  }
+
+  async getLatestLocationPing(ambulanceId: number): Promise<LocationPing | undefined> {
+    const [ping] = await db.select().from(locationPings)
+      .where(eq(locationPings.ambulanceId, ambulanceId))
+      .orderBy(desc(locationPings.recordedAt))
+      .limit(1);
+    return ping;
+  }
+
+  async getLocationPingsByAmbulanceId(ambulanceId: number, from: Date, to: Date): Promise<LocationPing[]> {
+    return await db.select().from(locationPings)
+      .where(and(
+        eq(locationPings.ambulanceId, ambulanceId),
+        gte(locationPings.recordedAt, from),
+        lte(locationPings.recordedAt, to)
+      ))
+      .orderBy(asc(locationPings.recordedAt));
+  }
+
+  async getLocationPingsByBookingId(bookingId: number): Promise<LocationPing[]> {
+    return await db.select().from(locationPings)
+      .where(eq(locationPings.bookingId, bookingId))
+      .orderBy(asc(locationPings.recordedAt));
+  }
+
+  async addLocationPing(insertPing: InsertLocationPing): Promise<LocationPing> {
+    const [ping] = await db.insert(locationPings).values(insertPing).returning();
+    return ping;
+  }
+
+  async deleteLocationPingsBefore(cutoff: Date, onTrip: boolean): Promise<number> {
+    const deleted = await db.delete(locationPings)
+      .where(and(
+        lt(locationPings.recordedAt, cutoff),
+        onTrip ? isNotNull(locationPings.bookingId) : isNull(locationPings.bookingId)
+      ))
+      .returning({ id: locationPings.id });
+    return deleted.length;
+  }
+
+  async getPaymentById(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPaymentsByBookingId(bookingId: number): Promise<Payment[]> {
+    return await db.select().from(payments)
+      .where(eq(payments.bookingId, bookingId))
+      .orderBy(asc(payments.id));
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await db.insert(payments).values({
+      ...insertPayment,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }).returning();
+    return payment;
+  }
+
+  async updatePayment(id: number, update: Partial<Pick<Payment, "status" | "providerReference" | "refundedAmount" | "failureReason">>): Promise<Payment> {
+    const [updatedPayment] = await db.update(payments)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    
+    if (!updatedPayment) {
+      throw new Error(`Payment with ID ${id} not found`);
+    }
+    
+    return updatedPayment;
+  }
+
+  async getRefundsByPaymentId(paymentId: number): Promise<Refund[]> {
+    return await db.select().from(refunds)
+      .where(eq(refunds.paymentId, paymentId))
+      .orderBy(asc(refunds.id));
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund> {
+    const [refund] = await db.insert(refunds).values({
+      ...insertRefund,
+      createdAt: new Date()
+    }).returning();
+    return refund;
+  }
+
+  async updateBookingPaymentStatus(id: number, paymentStatus: string): Promise<Booking> {
+    const [updatedBooking] = await db.update(bookings)
+      .set({ paymentStatus, updatedAt: new Date() })
+      .where(eq(bookings.id, id))
+      .returning();
+    
+    if (!updatedBooking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    return updatedBooking;
+  }
+
+  async getLedgerEntries(bookingId?: number): Promise<LedgerEntry[]> {
+    return await db.select().from(ledgerEntries)
+      .where(bookingId === undefined ? undefined : eq(ledgerEntries.bookingId, bookingId))
+      .orderBy(asc(ledgerEntries.id));
+  }
+
+  async addLedgerTransaction(insertEntries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    // A single multi-row insert, so a transaction is never half written
+    return await db.insert(ledgerEntries).values(
+      insertEntries.map(entry => ({ ...entry, createdAt: new Date() }))
+    ).returning();
+  }
+
+  async addAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await db.insert(auditEvents).values({
+      ...insertEvent,
+      occurredAt: new Date()
+    }).returning();
+    return event;
+  }
+
+  async getAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]> {
+    const conditions = [];
+    if (query.beforeId != null) conditions.push(lt(auditEvents.id, query.beforeId));
+    if (query.kind) conditions.push(eq(auditEvents.kind, query.kind));
+    if (query.entityType) conditions.push(eq(auditEvents.entityType, query.entityType));
+    if (query.entityId != null) {
+      // Reads of many records list them in recordIds instead
+      conditions.push(or(
+        eq(auditEvents.entityId, query.entityId),
+        sql`${auditEvents.recordIds}::jsonb @> ${JSON.stringify([query.entityId])}::jsonb`
+      ));
+    }
+    if (query.actorId != null) conditions.push(eq(auditEvents.actorId, query.actorId));
+    if (query.from) conditions.push(gte(auditEvents.occurredAt, query.from));
+    if (query.to) conditions.push(lt(auditEvents.occurredAt, query.to));
+    if (query.q) {
+      const pattern = `%${query.q}%`;
+      conditions.push(or(
+        ilike(auditEvents.action, pattern),
+        ilike(auditEvents.route, pattern),
+        ilike(auditEvents.ip, pattern),
+        ilike(auditEvents.entityType, pattern)
+      ));
+    }
+    
+    return await db.select().from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.id))
+      .limit(query.limit);
   }
 }
\ No newline at end of file
@@ -0,0 +1,198 @@
+import type { Booking } from "@shared/schema";
+import { calculateDistance } from "@shared/geo";
+import {
+  HOURS_PER_WEEK,
+  type DemandCell,
+  type DemandHeatmap,
+  type StandbyPlan,
+  type StandbyRecommendation,
+} from "@shared/analytics";
+import { analyticsConfig } from "./analytics";
+import { storage } from "./storage";
+
+export const demandConfig = {
+  cellSizeKm: 1,
+  historyWeeks: 12,
+  // A call this many weeks old counts half as much as one from this week
+  halfLifeWeeks: 4,
+  // How far a parked unit is expected to reach quickly; one standby point covers the calls within it
+  coverageRadiusKm: 3,
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// Share of a call counted towards its own hour and each neighbouring hour, so a quiet
+// 3am slot isn't forecast as zero just because last week's calls came at 2:55
+const HOUR_KERNEL = [0.5, 0.25];
+
+const weekDayIndex: Record<string, number> = { Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6 };
+
+const hourFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: analyticsConfig.timeZone,
+  weekday: "short",
+  hour: "numeric",
+  hourCycle: "h23",
+});
+
+export function getHourOfWeek(date: Date): number {
+  const parts = hourFormat.formatToParts(date);
+  const day = weekDayIndex[parts.find(part => part.type === "weekday")!.value];
+  const hour = Number(parts.find(part => part.type === "hour")!.value) % 24;
+  return day * 24 + hour;
+}
+
+// Square cells of roughly cellSizeKm; columns narrow towards the poles so cells stay square on the ground
+function cellAt(latitude: number, longitude: number) {
+  const latStep = demandConfig.cellSizeKm / KM_PER_DEGREE_LATITUDE;
+  const row = Math.floor(latitude / latStep);
+  const lngStep = latStep / Math.cos(((row + 0.5) * latStep * Math.PI) / 180);
+  const col = Math.floor(longitude / lngStep);
+
+  const south = row * latStep;
+  const west = col * lngStep;
+  return {
+    key: `${row}:${col}`,
+    latitude: south + latStep / 2,
+    longitude: west + lngStep / 2,
+    bounds: [[south, west], [south + latStep, west + lngStep]] as [[number, number], [number, number]],
+  };
+}
+
+function accumulate(bookings: Booking[], weightOf: (booking: Booking) => number): DemandCell[] {
+  const cells = new Map<string, DemandCell>();
+  bookings.forEach(booking => {
+    const weight = weightOf(booking);
+    if (weight <= 0) return;
+
+    const { key, ...cell } = cellAt(booking.pickupLatitude, booking.pickupLongitude);
+    const existing = cells.get(key);
+    if (existing) {
+      existing.value += weight;
+    } else {
+      cells.set(key, { ...cell, value: weight });
+    }
+  });
+  return Array.from(cells.values());
+}
+
+async function getEmergencyHistory(now: Date): Promise<Booking[]> {
+  const since = new Date(now.getTime() - demandConfig.historyWeeks * WEEK_MS);
+  // Cancelled calls still show where help was needed
+  return (await storage.getAllBookings()).filter(booking =>
+    booking.bookingType === "emergency" && booking.createdAt != null && booking.createdAt >= since && booking.createdAt <= now
+  );
+}
+
+// Pickups per cell over the history, for one hour of the week or for all of them
+export async function getDemandHeatmap(hourOfWeek: number | null, now = new Date()): Promise<DemandHeatmap> {
+  const history = await getEmergencyHistory(now);
+  const cells = accumulate(history, booking =>
+    hourOfWeek == null || getHourOfWeek(booking.createdAt!) === hourOfWeek ? 1 : 0
+  );
+
+  return {
+    cellSizeKm: demandConfig.cellSizeKm,
+    hourOfWeek,
+    from: new Date(now.getTime() - demandConfig.historyWeeks * WEEK_MS).toISOString(),
+    cells,
+  };
+}
+
+/**
+ * Expected pickups per cell during one hour of the week: a recency-weighted average of the
+ * same hour in past weeks, smoothed over the neighbouring hours.
+ */
+export async function forecastDemand(hourOfWeek: number, now = new Date()): Promise<DemandCell[]> {
+  const history = await getEmergencyHistory(now);
+
+  // Total weight of one call per week over the whole history, so results are per occurrence of the hour
+  let weeksWeight = 0;
+  for (let week = 0; week < demandConfig.historyWeeks; week++) {
+    weeksWeight += 0.5 ** (week / demandConfig.halfLifeWeeks);
+  }
+
+  return accumulate(history, booking => {
+    const hour = getHourOfWeek(booking.createdAt!);
+    const apart = Math.min(Math.abs(hour - hourOfWeek), HOURS_PER_WEEK - Math.abs(hour - hourOfWeek));
+    const share = HOUR_KERNEL[apart] || 0;
+    const ageWeeks = (now.getTime() - booking.createdAt!.getTime()) / WEEK_MS;
+    return share * 0.5 ** (ageWeeks / demandConfig.halfLifeWeeks) / weeksWeight;
+  }).map(cell => ({ ...cell, value: Math.round(cell.value * 1000) / 1000 }));
+}
+
+/**
+ * Where to park the available fleet for the coming hour. Points are chosen greedily, each
+ * covering the most forecast demand not already within reach of an earlier one, and the
+ * nearest free unit is suggested for each.
+ */
+export async function planStandby(now = new Date()): Promise<StandbyPlan> {
+  const hourOfWeek = getHourOfWeek(now);
+  const [forecast, ambulances] = await Promise.all([
+    forecastDemand(hourOfWeek, now),
+    storage.getAmbulances(),
+  ]);
+
+  const available = ambulances.filter(ambulance =>
+    ambulance.status === "available" && ambulance.latitude != null && ambulance.longitude != null
+  );
+
+  const uncovered = new Set(forecast.filter(cell => cell.value > 0));
+  const recommendations: StandbyRecommendation[] = [];
+
+  while (recommendations.length < available.length && uncovered.size > 0) {
+    const remaining = Array.from(uncovered);
+    let best: { covered: DemandCell[]; demand: number } | null = null;
+    for (const candidate of remaining) {
+      const covered = remaining.filter(cell =>
+        calculateDistance(candidate.latitude, candidate.longitude, cell.latitude, cell.longitude) <= demandConfig.coverageRadiusKm
+      );
+      const demand = covered.reduce((sum, cell) => sum + cell.value, 0);
+      if (!best || demand > best.demand) {
+        best = { covered, demand };
+      }
+    }
+    if (!best) break;
+
+    // Park at the demand-weighted centre of what this point covers
+    const latitude = best.covered.reduce((sum, cell) => sum + cell.latitude * cell.value, 0) / best.demand;
+    const longitude = best.covered.reduce((sum, cell) => sum + cell.longitude * cell.value, 0) / best.demand;
+    best.covered.forEach(cell => uncovered.delete(cell));
+
+    recommendations.push({
+      latitude: Math.round(latitude * 1e6) / 1e6,
+      longitude: Math.round(longitude * 1e6) / 1e6,
+      expectedCalls: Math.round(best.demand * 1000) / 1000,
+      ambulanceId: null,
+      registrationNumber: null,
+      distanceKm: null,
+    });
+  }
+
+  // Busiest points first get the closest free unit
+  const unassigned = [...available];
+  recommendations.forEach(recommendation => {
+    let nearestIndex = -1;
+    let nearestKm = Infinity;
+    unassigned.forEach((ambulance, i) => {
+      const km = calculateDistance(ambulance.latitude!, ambulance.longitude!, recommendation.latitude, recommendation.longitude);
+      if (km < nearestKm) {
+        nearestKm = km;
+        nearestIndex = i;
+      }
+    });
+    if (nearestIndex < 0) return;
+
+    const [ambulance] = unassigned.splice(nearestIndex, 1);
+    recommendation.ambulanceId = ambulance.id;
+    recommendation.registrationNumber = ambulance.registrationNumber;
+    recommendation.distanceKm = Math.round(nearestKm * 10) / 10;
+  });
+
+  return {
+    hourOfWeek,
+    coverageRadiusKm: demandConfig.coverageRadiusKm,
+    forecast,
+    recommendations,
+  };
+}
@@ -0,0 +1,237 @@
+import { type Booking, type DispatchOffer } from "@shared/schema";
+import { storage } from "./storage";
+import { rankCandidates, describeCandidate, getRequestedTypeName } from "./dispatch";
+
+// How long a driver has to answer an offer before it cascades to the next unit
+export const OFFER_TIMEOUT_SECONDS = parseInt(process.env.DISPATCH_OFFER_TIMEOUT_SECONDS || "30", 10);
+// How often emergencies still waiting for a unit are offered to units that have since become free
+const REDISPATCH_INTERVAL_SECONDS = parseInt(process.env.DISPATCH_RETRY_INTERVAL_SECONDS || "30", 10);
+
+// Timers for offers created by this process; the sweeper covers offers that outlive a restart
+const offerTimers = new Map<number, NodeJS.Timeout>();
+
+export async function startDispatch(booking: Booking): Promise<DispatchOffer | null> {
+  if (booking.bookingType !== "emergency" || booking.ambulanceId) {
+    return null;
+  }
+  return offerNextCandidate(booking.id);
+}
+
+// Offer the booking to the best ranked crewed unit that hasn't been offered it yet
+export async function offerNextCandidate(bookingId: number): Promise<DispatchOffer | null> {
+  const booking = await storage.getBookingById(bookingId);
+  if (!booking || booking.status !== "pending" || booking.ambulanceId) {
+    return null;
+  }
+
+  const previousOffers = await storage.getDispatchOffersByBookingId(bookingId);
+  if (previousOffers.some(offer => offer.status === "pending")) {
+    return null;
+  }
+
+  const candidates = await rankCandidates(storage, {
+    ambulanceTypeId: booking.ambulanceTypeId,
+    latitude: booking.pickupLatitude,
+    longitude: booking.pickupLongitude,
+    excludeAmbulanceIds: previousOffers.map(offer => offer.ambulanceId),
+  });
+
+  // Only units with a driver can accept an offer
+  const crewed = candidates.filter(candidate => candidate.crewReady && candidate.ambulance.driverId);
+  const requestedName = await getRequestedTypeName(storage, booking.ambulanceTypeId);
+
+  if (crewed.length === 0) {
+    await escalateUndispatched(booking, previousOffers.length, requestedName);
+    return null;
+  }
+
+  const [chosen] = crewed;
+  const reason = describeCandidate(chosen, 1, crewed.length, requestedName);
+  const expiresAt = new Date(Date.now() + OFFER_TIMEOUT_SECONDS * 1000);
+
+  // Hold the unit so it isn't offered to another booking at the same time
+  await storage.updateAmbulanceStatus(chosen.ambulance.id, "offered");
+
+  const offer = await storage.createDispatchOffer({
+    bookingId,
+    ambulanceId: chosen.ambulance.id,
+    driverId: chosen.ambulance.driverId!,
+    status: "pending",
+    message: reason,
+    expiresAt,
+  });
+
+  await storage.addBookingStatusUpdate({
+    bookingId,
+    status: booking.status,
+    message: `Offered to ${reason} Waiting up to ${OFFER_TIMEOUT_SECONDS}s for the driver to accept.`,
+  });
+
+  scheduleExpiry(offer);
+  return offer;
+}
+
+export async function acceptOffer(offer: DispatchOffer): Promise<Booking> {
+  clearExpiry(offer.id);
+
+  // Assign first: this throws if the booking can no longer be confirmed (e.g. it was cancelled)
+  const booking = await storage.assignBookingAmbulance(offer.bookingId, offer.ambulanceId, offer.driverId);
+  await storage.updateDispatchOfferStatus(offer.id, "accepted");
+  await storage.updateAmbulanceStatus(offer.ambulanceId, "assigned");
+
+  const ambulance = await storage.getAmbulanceById(offer.ambulanceId);
+  const driver = await storage.getUser(offer.driverId);
+  await storage.addBookingStatusUpdate({
+    bookingId: offer.bookingId,
+    status: booking.status,
+    latitude: ambulance?.latitude,
+    longitude: ambulance?.longitude,
+    message: `${driver ? `${driver.firstName} ${driver.lastName}` : "Driver"} accepted the job. Ambulance ${ambulance?.registrationNumber || ""} dispatched.`,
+  });
+
+  return booking;
+}
+
+export async function declineOffer(offer: DispatchOffer, reason?: string): Promise<DispatchOffer> {
+  clearExpiry(offer.id);
+
+  const declinedOffer = await storage.updateDispatchOfferStatus(offer.id, "declined");
+  await releaseAmbulance(offer.ambulanceId);
+
+  const ambulance = await storage.getAmbulanceById(offer.ambulanceId);
+  await storage.addBookingStatusUpdate({
+    bookingId: offer.bookingId,
+    status: "pending",
+    message: `Driver of ${ambulance?.registrationNumber || `ambulance ${offer.ambulanceId}`} declined the job${reason ? `: ${reason}` : ""}.`,
+  });
+
+  await offerNextCandidate(offer.bookingId);
+  return declinedOffer;
+}
+
+export async function expireOffer(offerId: number): Promise<void> {
+  clearExpiry(offerId);
+
+  const offer = await storage.getDispatchOfferById(offerId);
+  if (!offer || offer.status !== "pending") {
+    return;
+  }
+
+  await storage.updateDispatchOfferStatus(offer.id, "expired");
+  await releaseAmbulance(offer.ambulanceId);
+
+  const ambulance = await storage.getAmbulanceById(offer.ambulanceId);
+  await storage.addBookingStatusUpdate({
+    bookingId: offer.bookingId,
+    status: "pending",
+    message: `Offer to ${ambulance?.registrationNumber || `ambulance ${offer.ambulanceId}`} expired after ${OFFER_TIMEOUT_SECONDS}s without a response.`,
+  });
+
+  await offerNextCandidate(offer.bookingId);
+}
+
+// Withdraw any open offer, e.g. when the patient cancels before a driver accepts
+export async function cancelPendingOffers(bookingId: number): Promise<void> {
+  const offers = await storage.getDispatchOffersByBookingId(bookingId);
+
+  for (const offer of offers.filter(offer => offer.status === "pending")) {
+    clearExpiry(offer.id);
+    await storage.updateDispatchOfferStatus(offer.id, "cancelled");
+    await releaseAmbulance(offer.ambulanceId);
+  }
+}
+
+let redispatching = false;
+
+// Retry every emergency that has no open offer, e.g. one that ran out of candidates earlier
+export async function redispatchWaitingEmergencies(): Promise<void> {
+  // Skip a tick rather than overlap with a slow previous run
+  if (redispatching) return;
+  redispatching = true;
+
+  try {
+    const waiting = await storage.getUnassignedEmergencyBookings();
+    for (const booking of waiting) {
+      try {
+        await offerNextCandidate(booking.id);
+      } catch (error) {
+        console.error(`Error re-dispatching emergency booking ${booking.id}:`, error);
+      }
+    }
+  } finally {
+    redispatching = false;
+  }
+}
+
+export function startRedispatchSweeper(intervalMs = REDISPATCH_INTERVAL_SECONDS * 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    redispatchWaitingEmergencies().catch(error => {
+      console.error("Error re-dispatching waiting emergencies:", error);
+    });
+  }, intervalMs);
+}
+
+export function startOfferExpirySweeper(intervalMs = 10000): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const pendingOffers = await storage.getPendingDispatchOffers();
+      const now = Date.now();
+      for (const offer of pendingOffers) {
+        if (new Date(offer.expiresAt).getTime() <= now) {
+          await expireOffer(offer.id);
+        }
+      }
+    } catch (error) {
+      console.error("Error sweeping expired dispatch offers:", error);
+    }
+  }, intervalMs);
+}
+
+function scheduleExpiry(offer: DispatchOffer) {
+  const delay = Math.max(0, new Date(offer.expiresAt).getTime() - Date.now());
+  const timer = setTimeout(() => {
+    expireOffer(offer.id).catch(error => {
+      console.error(`Error expiring dispatch offer ${offer.id}:`, error);
+    });
+  }, delay);
+  offerTimers.set(offer.id, timer);
+}
+
+function clearExpiry(offerId: number) {
+  const timer = offerTimers.get(offerId);
+  if (timer) {
+    clearTimeout(timer);
+    offerTimers.delete(offerId);
+  }
+}
+
+// Alert the dispatch team the first time an emergency runs out of units to offer; the sweeper keeps retrying
+async function escalateUndispatched(booking: Booking, offerCount: number, requestedName: string) {
+  const existingAlerts = await storage.getAdminAlertsByBookingId(booking.id);
+  if (existingAlerts.some(alert => alert.type === "emergency_dispatch_failed")) {
+    return;
+  }
+
+  const shortage = offerCount > 0
+    ? `No other crewed ${requestedName} unit (or allowed upgrade) is available after ${offerCount} ${offerCount === 1 ? "offer" : "offers"}.`
+    : `No crewed ${requestedName} unit (or allowed upgrade) is available right now.`;
+
+  await storage.createAdminAlert({
+    type: "emergency_dispatch_failed",
+    bookingId: booking.id,
+    message: `Emergency booking #${booking.id} has no ambulance. ${shortage} Pickup: ${booking.pickupAddress}`,
+  });
+
+  await storage.addBookingStatusUpdate({
+    bookingId: booking.id,
+    status: booking.status,
+    message: `${shortage} Booking is waiting for dispatch and our dispatch team has been alerted.`,
+  });
+}
+
+async function releaseAmbulance(ambulanceId: number) {
+  const ambulance = await storage.getAmbulanceById(ambulanceId);
+  if (ambulance?.status === "offered") {
+    await storage.updateAmbulanceStatus(ambulanceId, "available");
+  }
+}
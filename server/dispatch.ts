@@ -0,0 +1,107 @@
+import { type Ambulance, type AmbulanceType } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { findRoutesTo } from "./routing";
+
+export interface DispatchRequest {
+  ambulanceTypeId: number;
+  latitude: number;
+  longitude: number;
+  // Ambulances that must not be considered (e.g. already declined this job)
+  excludeAmbulanceIds?: number[];
+}
+
+export interface DispatchCandidate {
+  ambulance: Ambulance;
+  type: AmbulanceType | undefined;
+  distanceKm: number;
+  etaMinutes: number;
+  isUpgrade: boolean;
+  crewReady: boolean;
+  score: number;
+}
+
+// A strategy turns an eligible candidate into a score; lower scores are dispatched first.
+export interface DispatchStrategy {
+  name: string;
+  score(candidate: Omit<DispatchCandidate, "score">, request: DispatchRequest): number;
+}
+
+export const defaultDispatchStrategy: DispatchStrategy = {
+  name: "eta-with-penalties",
+  score(candidate) {
+    let score = candidate.etaMinutes;
+    // Prefer the exact requested type unless the upgrade is much closer
+    if (candidate.isUpgrade) score += 5;
+    // Units without a crew still need one to be found before they can roll
+    if (!candidate.crewReady) score += 15;
+    return score;
+  },
+};
+
+let activeStrategy: DispatchStrategy = defaultDispatchStrategy;
+
+export function setDispatchStrategy(strategy: DispatchStrategy) {
+  activeStrategy = strategy;
+}
+
+export async function rankCandidates(storage: IStorage, request: DispatchRequest): Promise<DispatchCandidate[]> {
+  const [allAmbulances, types] = await Promise.all([
+    storage.getAmbulances(),
+    storage.getAmbulanceTypes(),
+  ]);
+
+  const requestedType = types.find(type => type.id === request.ambulanceTypeId);
+  const upgradeTypeIds = requestedType?.upgradeTypeIds || [];
+  const excluded = request.excludeAmbulanceIds || [];
+
+  const eligible = allAmbulances.filter(ambulance =>
+    ambulance.status === "available" &&
+    ambulance.latitude != null &&
+    ambulance.longitude != null &&
+    !excluded.includes(ambulance.id) &&
+    (ambulance.typeId === request.ambulanceTypeId || upgradeTypeIds.includes(ambulance.typeId))
+  );
+
+  // Road distance and drive time from every eligible unit to the pickup
+  const routes = findRoutesTo(
+    eligible.map(ambulance => [ambulance.latitude!, ambulance.longitude!] as [number, number]),
+    [request.latitude, request.longitude]
+  );
+
+  const candidates: DispatchCandidate[] = [];
+  for (let i = 0; i < eligible.length; i++) {
+    const ambulance = eligible[i];
+    const route = routes[i];
+    const driver = ambulance.driverId ? await storage.getUser(ambulance.driverId) : undefined;
+
+    const candidate = {
+      ambulance,
+      type: types.find(type => type.id === ambulance.typeId),
+      distanceKm: route.distanceKm,
+      etaMinutes: Math.round(route.durationSeconds / 60),
+      isUpgrade: ambulance.typeId !== request.ambulanceTypeId,
+      crewReady: !!driver && driver.role === "driver",
+    };
+
+    candidates.push({ ...candidate, score: activeStrategy.score(candidate, request) });
+  }
+
+  return candidates.sort((a, b) => a.score - b.score || a.distanceKm - b.distanceKm);
+}
+
+export async function getRequestedTypeName(storage: IStorage, ambulanceTypeId: number): Promise<string> {
+  const requestedType = await storage.getAmbulanceTypeById(ambulanceTypeId);
+  return requestedType?.name || `type ${ambulanceTypeId}`;
+}
+
+// Human readable reason for picking a unit, stored in booking_status_updates
+export function describeCandidate(candidate: DispatchCandidate, rank: number, eligibleCount: number, requestedName: string): string {
+  const typeName = candidate.type?.name || "Unknown type";
+  const parts = [
+    `${candidate.ambulance.registrationNumber} (${typeName}${candidate.isUpgrade ? `, upgrade for requested ${requestedName}` : ""})`,
+    `${candidate.distanceKm.toFixed(1)} km away, ETA ~${candidate.etaMinutes} min`,
+    candidate.crewReady ? "crew ready" : "no crew assigned yet",
+    `ranked ${rank} of ${eligibleCount} eligible ${eligibleCount === 1 ? "unit" : "units"}`,
+  ];
+  return parts.join(", ") + ".";
+}
@@ -0,0 +1,28 @@
+import { EventEmitter } from "events";
+import { type Ambulance, type BookingStatusUpdate } from "@shared/schema";
+
+// In-process notifications raised by the storage layer and pushed to clients by realtime.ts
+interface BookingEventMap {
+  statusUpdate: [update: BookingStatusUpdate];
+  ambulanceLocation: [ambulance: Ambulance];
+  // Status or assignment changes; moves are reported as ambulanceLocation
+  ambulanceUpdate: [ambulance: Ambulance];
+}
+
+class BookingEvents extends EventEmitter {
+  emit<K extends keyof BookingEventMap>(event: K, ...args: BookingEventMap[K]): boolean {
+    return super.emit(event, ...args);
+  }
+
+  on<K extends keyof BookingEventMap>(event: K, listener: (...args: BookingEventMap[K]) => void): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  off<K extends keyof BookingEventMap>(event: K, listener: (...args: BookingEventMap[K]) => void): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+}
+
+export const bookingEvents = new BookingEvents();
+// One listener per connected socket
+bookingEvents.setMaxListeners(0);
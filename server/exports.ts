@@ -0,0 +1,236 @@
+import { once } from "events";
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import type { Ambulance, Booking, EmergencyContact, PatientDetails, User } from "@shared/schema";
+import type { BookingExportFilter, ExportDataset, ExportFormat } from "@shared/exports";
+import { bookingStatusLabels, isBookingStatus } from "@shared/booking-lifecycle";
+import { wallClockFormat } from "./analytics";
+import { storage } from "./storage";
+
+export const exportConfig = {
+  // Bookings are read and written this many at a time, so an export's memory stays flat however long it is
+  batchSize: 500,
+};
+
+type CellValue = string | number | Date | null;
+
+interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+  phi?: boolean; // patient health information, only exported on request
+}
+
+interface ExportSheet<T> {
+  name: string;
+  columns: ExportColumn<T>[];
+  batches: () => AsyncIterable<T[]>;
+}
+
+interface SheetWriter {
+  writeRow(values: CellValue[]): void;
+  end(): Promise<void>;
+}
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+function csvCell(value: CellValue): string {
+  if (value == null) return "";
+  if (value instanceof Date) return wallClockFormat.format(value);
+  if (typeof value === "number") return String(value);
+
+  // Spreadsheet apps run cells starting with these as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvWriter(res: Response, headers: string[]): SheetWriter {
+  // The byte order mark makes Excel read the file as UTF-8
+  res.write("\uFEFF" + headers.map(csvCell).join(",") + "\r\n");
+  return {
+    writeRow: values => { res.write(values.map(csvCell).join(",") + "\r\n"); },
+    end: async () => { res.end(); },
+  };
+}
+
+function xlsxWriter(res: Response, name: string, headers: string[]): SheetWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const worksheet = workbook.addWorksheet(name);
+  worksheet.columns = headers.map(header => ({ header, width: Math.max(12, header.length + 2) }));
+
+  return {
+    writeRow: values => {
+      const row = worksheet.addRow(values.map(value =>
+        // Excel has no time zones, so store the wall-clock time the CSV would show
+        value instanceof Date ? new Date(wallClockFormat.format(value).replace(" ", "T") + "Z") : value
+      ));
+      values.forEach((value, i) => {
+        if (value instanceof Date) row.getCell(i + 1).numFmt = "yyyy-mm-dd hh:mm:ss";
+      });
+      row.commit();
+    },
+    end: async () => {
+      worksheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+function fullName(user: User | undefined): string | null {
+  return user ? `${user.firstName} ${user.lastName}` : null;
+}
+
+async function* allAtOnce<T>(rows: Promise<T[]>) {
+  yield await rows;
+}
+
+async function bookingsSheet(filter: BookingExportFilter): Promise<ExportSheet<Booking>> {
+  const [types, hospitals, ambulances, drivers] = await Promise.all([
+    storage.getAmbulanceTypes(),
+    storage.getHospitals(),
+    storage.getAmbulances(),
+    storage.getUsersByRole("driver"),
+  ]);
+  const patient = (booking: Booking) => booking.patientDetails as PatientDetails;
+  const contact = (booking: Booking) => booking.emergencyContact as EmergencyContact | null;
+
+  return {
+    name: "Bookings",
+    columns: [
+      { header: "Booking ID", value: booking => booking.id },
+      { header: "Created", value: booking => booking.createdAt },
+      { header: "Type", value: booking => booking.bookingType },
+      { header: "Status", value: booking => isBookingStatus(booking.status) ? bookingStatusLabels[booking.status] : booking.status },
+      { header: "Scheduled for", value: booking => booking.scheduledTime },
+      { header: "Ambulance type", value: booking => types.find(type => type.id === booking.ambulanceTypeId)?.name || null },
+      { header: "Ambulance", value: booking => ambulances.find(ambulance => ambulance.id === booking.ambulanceId)?.registrationNumber || null },
+      { header: "Driver", value: booking => fullName(drivers.find(driver => driver.id === booking.driverId)) },
+      { header: "Hospital", value: booking => hospitals.find(hospital => hospital.id === booking.hospitalId)?.name || null },
+      { header: "Patient account ID", value: booking => booking.userId },
+      { header: "Patient name", phi: true, value: booking => patient(booking).name },
+      { header: "Age", phi: true, value: booking => patient(booking).age },
+      { header: "Gender", phi: true, value: booking => patient(booking).gender },
+      { header: "Condition", phi: true, value: booking => patient(booking).condition },
+      { header: "Medical history", phi: true, value: booking => patient(booking).medicalHistory?.join("; ") || null },
+      { header: "Pickup address", phi: true, value: booking => booking.pickupAddress },
+      { header: "Pickup details", phi: true, value: booking => booking.pickupDetails },
+      { header: "Destination address", phi: true, value: booking => booking.destinationAddress },
+      { header: "Destination details", phi: true, value: booking => booking.destinationDetails },
+      { header: "Emergency contact", phi: true, value: booking => contact(booking)?.name || null },
+      { header: "Emergency contact phone", phi: true, value: booking => contact(booking)?.phone || null },
+      { header: "Estimated fare", value: booking => booking.estimatedFare },
+      { header: "Final fare", value: booking => booking.actualFare },
+      { header: "Trip distance (km)", value: booking => booking.tripDistanceKm },
+      { header: "Payment status", value: booking => booking.paymentStatus },
+      { header: "Rating", value: booking => booking.rating },
+      // Patients often describe their condition in the feedback
+      { header: "Feedback", phi: true, value: booking => booking.feedback },
+    ],
+    batches: async function* () {
+      let afterId = 0;
+      while (true) {
+        const batch = await storage.getBookingsPage(filter, afterId, exportConfig.batchSize);
+        if (batch.length > 0) yield batch;
+        if (batch.length < exportConfig.batchSize) return;
+        afterId = batch[batch.length - 1].id;
+      }
+    },
+  };
+}
+
+async function ambulancesSheet(): Promise<ExportSheet<Ambulance>> {
+  const [types, drivers] = await Promise.all([storage.getAmbulanceTypes(), storage.getUsersByRole("driver")]);
+  return {
+    name: "Ambulances",
+    columns: [
+      { header: "Ambulance ID", value: ambulance => ambulance.id },
+      { header: "Registration", value: ambulance => ambulance.registrationNumber },
+      { header: "Type", value: ambulance => types.find(type => type.id === ambulance.typeId)?.name || null },
+      { header: "Status", value: ambulance => ambulance.status },
+      { header: "Driver", value: ambulance => fullName(drivers.find(driver => driver.id === ambulance.driverId)) },
+      { header: "Latitude", value: ambulance => ambulance.latitude },
+      { header: "Longitude", value: ambulance => ambulance.longitude },
+    ],
+    batches: () => allAtOnce(storage.getAmbulances()),
+  };
+}
+
+async function driversSheet(): Promise<ExportSheet<User>> {
+  const ambulances = await storage.getAmbulances();
+  return {
+    name: "Drivers",
+    columns: [
+      { header: "Driver ID", value: driver => driver.id },
+      { header: "Username", value: driver => driver.username },
+      { header: "First name", value: driver => driver.firstName },
+      { header: "Last name", value: driver => driver.lastName },
+      { header: "Email", value: driver => driver.email },
+      { header: "Phone", value: driver => driver.phoneNumber },
+      { header: "Ambulance", value: driver => ambulances.find(ambulance => ambulance.driverId === driver.id)?.registrationNumber || null },
+      { header: "Joined", value: driver => driver.createdAt },
+    ],
+    batches: () => allAtOnce(storage.getUsersByRole("driver")),
+  };
+}
+
+// A patient's identity is itself health information here: it says they needed an ambulance
+function patientsSheet(): ExportSheet<User> {
+  return {
+    name: "Patients",
+    columns: [
+      { header: "Patient ID", value: patient => patient.id },
+      { header: "Username", phi: true, value: patient => patient.username },
+      { header: "First name", phi: true, value: patient => patient.firstName },
+      { header: "Last name", phi: true, value: patient => patient.lastName },
+      { header: "Email", phi: true, value: patient => patient.email },
+      { header: "Phone", phi: true, value: patient => patient.phoneNumber },
+      { header: "Registered", value: patient => patient.createdAt },
+    ],
+    batches: () => allAtOnce(storage.getUsersByRole("patient")),
+  };
+}
+
+async function writeSheet<T>(res: Response, filename: string, format: ExportFormat, sheet: ExportSheet<T>, includePhi: boolean) {
+  res.setHeader("Content-Type", contentTypes[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  // Exports can hold patient data, so keep them out of shared caches
+  res.setHeader("Cache-Control", "no-store");
+
+  const columns = sheet.columns.filter(column => includePhi || !column.phi);
+  const headers = columns.map(column => column.header);
+  const writer = format === "csv" ? csvWriter(res, headers) : xlsxWriter(res, sheet.name, headers);
+
+  for await (const batch of sheet.batches()) {
+    batch.forEach(row => writer.writeRow(columns.map(column => column.value(row) ?? null)));
+    // Let a slow client catch up before reading the next batch
+    if (res.writableNeedDrain) await once(res, "drain");
+  }
+  await writer.end();
+}
+
+/**
+ * Streams a dataset to the response as a spreadsheet download. Columns holding patient
+ * health information are left out unless includePhi is set; bookingFilter only applies
+ * to bookings.
+ */
+export async function streamExport(
+  res: Response,
+  dataset: ExportDataset,
+  format: ExportFormat,
+  options: { includePhi: boolean; bookingFilter: BookingExportFilter },
+): Promise<void> {
+  const filename = `${dataset}-${wallClockFormat.format(new Date()).slice(0, 10)}.${format}`;
+  const write = <T>(sheet: ExportSheet<T>) => writeSheet(res, filename, format, sheet, options.includePhi);
+
+  if (dataset === "bookings") {
+    await write(await bookingsSheet(options.bookingFilter));
+  } else if (dataset === "ambulances") {
+    await write(await ambulancesSheet());
+  } else if (dataset === "drivers") {
+    await write(await driversSheet());
+  } else {
+    await write(patientsSheet());
+  }
+}
@@ -0,0 +1,181 @@
+import { insertPlaceSchema, type InsertPlace, type Place, type PlaceKind, type PlaceSuggestion, type ReverseGeocodeResult } from "@shared/schema";
+import { calculateDistance } from "@shared/geo";
+import { storage } from "./storage";
+
+/**
+ * Geocoding against the local gazetteer (the places table); nothing here calls an
+ * external service.
+ */
+export const geocodingConfig = {
+  // Prefix matches fetched before ranking; the best `limit` of them are returned
+  candidateLimit: 50,
+  // Proximity only reorders results within this distance of the user
+  proximityRadiusKm: 25,
+  // A landmark closer than this names the spot, e.g. "Near Forum Mall"
+  landmarkRadiusKm: 0.3,
+  localityRadiusKm: 5,
+};
+
+export function formatPlaceLabel(place: Pick<Place, "kind" | "name" | "locality" | "city" | "pincode">): string {
+  const parts = place.kind === "landmark" && place.locality && !place.name.includes(place.locality)
+    ? [place.name, place.locality, place.city]
+    : [place.name, place.city];
+  const label = parts.filter((part, i) => i === 0 || part !== parts[i - 1]).join(", ");
+  return place.pincode ? `${label} - ${place.pincode}` : label;
+}
+
+// How well a place matches what was typed: exact beats prefix beats a later word
+function matchScore(place: Place, query: string): number {
+  const name = place.name.toLowerCase();
+  if (name === query || place.pincode === query) return 3;
+  if (name.startsWith(query) || place.pincode?.startsWith(query)) return 2;
+  if (name.includes(` ${query}`)) return 1;
+  return 0; // matched on the locality
+}
+
+export async function searchPlaces(query: string, limit: number, near?: { latitude: number; longitude: number }): Promise<PlaceSuggestion[]> {
+  const q = query.trim().toLowerCase();
+  if (q.length < 2) return [];
+
+  const candidates = await storage.searchPlaces(q, geocodingConfig.candidateLimit);
+
+  return candidates
+    .map(place => {
+      const distanceKm = near ? calculateDistance(near.latitude, near.longitude, place.latitude, place.longitude) : undefined;
+      const proximity = distanceKm != null ? Math.max(0, 1 - distanceKm / geocodingConfig.proximityRadiusKm) : 0;
+      return { place, distanceKm, score: matchScore(place, q) * 100 + place.rank + proximity * 50 };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ place, distanceKm }) => ({
+      id: place.id,
+      kind: place.kind as PlaceKind,
+      name: place.name,
+      label: formatPlaceLabel(place),
+      latitude: place.latitude,
+      longitude: place.longitude,
+      pincode: place.pincode,
+      ...(distanceKm != null ? { distanceKm: Math.round(distanceKm * 10) / 10 } : {}),
+    }));
+}
+
+/**
+ * Describes a point from the nearest landmark, locality and pincode. Falls back to the
+ * coordinates themselves when the gazetteer has nothing nearby.
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<ReverseGeocodeResult> {
+  const nearby = (await storage.getPlacesNear(latitude, longitude, geocodingConfig.localityRadiusKm))
+    .map(place => ({ place, distanceKm: calculateDistance(latitude, longitude, place.latitude, place.longitude) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  const nearest = (kind: PlaceKind, radiusKm: number) =>
+    nearby.find(({ place, distanceKm }) => place.kind === kind && distanceKm <= radiusKm)?.place;
+  const landmark = nearest("landmark", geocodingConfig.landmarkRadiusKm);
+  const locality = nearest("locality", geocodingConfig.localityRadiusKm)
+    || (landmark?.locality ? { name: landmark.locality, city: landmark.city } : undefined);
+  const pincode = landmark?.pincode
+    || nearby.find(({ place }) => place.kind !== "landmark" && place.pincode)?.place.pincode
+    || null;
+  const city = locality?.city || landmark?.city || nearby[0]?.place.city || null;
+
+  // "Near Forum Mall, Koramangala" already names the locality
+  const localityName = locality && !landmark?.name.includes(locality.name) ? locality.name : undefined;
+  const parts = [landmark && `Near ${landmark.name}`, localityName, city].filter((part): part is string => !!part);
+  const label = parts.length > 0
+    ? parts.join(", ") + (pincode ? ` - ${pincode}` : "")
+    : `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+
+  return {
+    label,
+    landmark: landmark?.name || null,
+    locality: locality?.name || null,
+    city,
+    pincode,
+  };
+}
+
+export interface GazetteerParseResult {
+  places: InsertPlace[];
+  errors: { line: number; message: string }[];
+}
+
+const GAZETTEER_COLUMNS = ["name", "kind", "locality", "city", "pincode", "latitude", "longitude", "rank"] as const;
+
+/**
+ * Parses a gazetteer CSV with a header row naming some or all of
+ * name, kind, locality, city, pincode, latitude, longitude, rank.
+ * Invalid rows are reported by line and skipped.
+ */
+export function parseGazetteerCsv(text: string): GazetteerParseResult {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const header = (rows.shift() || []).map(column => column.trim().toLowerCase());
+  const missing = ["name", "kind", "city", "latitude", "longitude"].filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { places: [], errors: [{ line: 1, message: `Missing columns: ${missing.join(", ")}` }] };
+  }
+
+  const result: GazetteerParseResult = { places: [], errors: [] };
+  rows.forEach((row, i) => {
+    if (row.every(value => value.trim() === "")) return;
+
+    const record: Record<string, unknown> = {};
+    header.forEach((column, c) => {
+      if (!(GAZETTEER_COLUMNS as readonly string[]).includes(column)) return;
+      const value = (row[c] ?? "").trim();
+      if (value === "") return;
+      record[column] = ["latitude", "longitude", "rank"].includes(column) ? Number(value) : value;
+    });
+
+    const parsed = insertPlaceSchema.safeParse(record);
+    if (parsed.success) {
+      result.places.push(parsed.data);
+    } else {
+      result.errors.push({
+        line: i + 2,
+        message: parsed.error.errors.map(error => `${error.path.join(".")}: ${error.message}`).join("; "),
+      });
+    }
+  });
+  return result;
+}
+
+// RFC 4180-style: quoted fields may contain commas, newlines and doubled quotes
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,116 @@
+import type { Booking } from "@shared/schema";
+import { calculateDistance } from "@shared/geo";
+import { BookingTransitionError, type BookingStatus } from "@shared/booking-lifecycle";
+import type { LocationFix } from "./location-trail";
+import { storage } from "./storage";
+
+// Arrival fences around the pickup and the destination, checked on every location update
+export const geofenceConfig = {
+  pickupRadiusMeters: 75,
+  // Hospital campuses are large and the ambulance bay is rarely at the mapped point
+  destinationRadiusMeters: 150,
+  // A fix less precise than this can't tell whether the ambulance is inside the fence
+  maxAccuracyMeters: 100,
+  // Consecutive fixes needed inside a fence, so a single GPS jump doesn't trigger an arrival
+  confirmationFixes: 2,
+};
+
+interface Geofence {
+  status: Extract<BookingStatus, "arrived_pickup" | "arrived_destination">;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  description: string;
+}
+
+// Fixes seen inside a fence so far, per booking and milestone
+const fixesInside = new Map<string, number>();
+// Milestones being recorded right now; a second ping arriving meanwhile must not record them again
+const recording = new Set<string>();
+
+async function getGeofence(booking: Booking): Promise<Geofence | null> {
+  if (booking.status === "en_route") {
+    return {
+      status: "arrived_pickup",
+      latitude: booking.pickupLatitude,
+      longitude: booking.pickupLongitude,
+      radiusMeters: geofenceConfig.pickupRadiusMeters,
+      description: "pickup",
+    };
+  }
+
+  if (booking.status === "patient_onboard") {
+    if (booking.destinationLatitude != null && booking.destinationLongitude != null) {
+      return {
+        status: "arrived_destination",
+        latitude: booking.destinationLatitude,
+        longitude: booking.destinationLongitude,
+        radiusMeters: geofenceConfig.destinationRadiusMeters,
+        description: "destination",
+      };
+    }
+    const hospital = booking.hospitalId ? await storage.getHospitalById(booking.hospitalId) : undefined;
+    if (hospital) {
+      return {
+        status: "arrived_destination",
+        latitude: hospital.latitude,
+        longitude: hospital.longitude,
+        radiusMeters: geofenceConfig.destinationRadiusMeters,
+        description: hospital.name,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Moves the booking to arrived_pickup / arrived_destination once the ambulance has
+ * been inside the matching fence for enough fixes, recording the milestone like a
+ * crew tap would. Returns the updated booking, or undefined when nothing changed.
+ */
+export async function checkGeofences(booking: Booking, fix: LocationFix): Promise<Booking | undefined> {
+  const fence = await getGeofence(booking);
+  if (!fence) {
+    fixesInside.delete(`${booking.id}:arrived_pickup`);
+    fixesInside.delete(`${booking.id}:arrived_destination`);
+    return undefined;
+  }
+
+  if (fix.accuracyM != null && fix.accuracyM > geofenceConfig.maxAccuracyMeters) {
+    return undefined;
+  }
+
+  const key = `${booking.id}:${fence.status}`;
+  const meters = calculateDistance(fix.latitude, fix.longitude, fence.latitude, fence.longitude) * 1000;
+  if (meters > fence.radiusMeters) {
+    fixesInside.delete(key);
+    return undefined;
+  }
+
+  const count = (fixesInside.get(key) || 0) + 1;
+  fixesInside.set(key, count);
+  if (count < geofenceConfig.confirmationFixes || recording.has(key)) {
+    return undefined;
+  }
+
+  recording.add(key);
+  try {
+    const updatedBooking = await storage.updateBookingStatus(booking.id, fence.status, "system");
+    await storage.addBookingStatusUpdate({
+      bookingId: booking.id,
+      status: fence.status,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      message: `Arrived at ${fence.description} (detected automatically, ${Math.round(meters)} m away).`,
+    });
+    return updatedBooking;
+  } catch (error) {
+    // The crew or an admin moved the booking on first
+    if (error instanceof BookingTransitionError) return undefined;
+    throw error;
+  } finally {
+    recording.delete(key);
+    fixesInside.delete(key);
+  }
+}
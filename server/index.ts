@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startOfferExpirySweeper, startRedispatchSweeper } from "./dispatch-offers";
+import { startScheduler } from "./scheduler";
+import { startTrailRetention } from "./location-trail";
 import path from "path";
 
 const app = express();
@@ -40,6 +43,10 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  startOfferExpirySweeper();
+  startRedispatchSweeper();
+  startScheduler();
+  startTrailRetention();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
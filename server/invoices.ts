@@ -0,0 +1,177 @@
+import PDFDocument from "pdfkit";
+import type { Ambulance, AmbulanceType, Booking, Hospital, Invoice, PatientDetails, User } from "@shared/schema";
+import type { FareBreakdown } from "@shared/pricing";
+import { storage } from "./storage";
+import { pricingRules } from "./pricing";
+
+// Seller details printed on every invoice
+export const invoiceIssuer = {
+  name: process.env.INVOICE_ISSUER_NAME || "MediRush Ambulance Services",
+  address: process.env.INVOICE_ISSUER_ADDRESS || "Bengaluru, Karnataka, India",
+  gstin: process.env.INVOICE_GSTIN || "",
+  email: "info@medirush.com",
+};
+
+const INVOICE_NUMBER_PREFIX = "MR";
+
+// Indian financial years run April to March, e.g. 2026-27
+export function financialYearOf(date: Date): string {
+  const [year, month] = new Intl.DateTimeFormat("en-CA", {
+    timeZone: pricingRules.timeZone,
+    year: "numeric",
+    month: "2-digit",
+  }).format(date).split("-").map(Number);
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+}
+
+export function formatInvoiceNumber(invoice: Invoice): string {
+  return `${INVOICE_NUMBER_PREFIX}/${invoice.financialYear}/${String(invoice.sequence).padStart(5, "0")}`;
+}
+
+/**
+ * Returns the booking's invoice, issuing it on first use. The booking must be
+ * completed and priced (see setBookingFare).
+ */
+export async function getOrCreateInvoice(booking: Booking): Promise<Invoice> {
+  const existing = await storage.getInvoiceByBookingId(booking.id);
+  if (existing) return existing;
+
+  if (booking.status !== "completed" || !booking.fareBreakdown) {
+    throw new Error(`Booking ${booking.id} is not ready to invoice`);
+  }
+
+  const fare = booking.fareBreakdown as FareBreakdown;
+  const insertInvoice = {
+    financialYear: financialYearOf(new Date()),
+    bookingId: booking.id,
+    userId: booking.userId,
+    fareBreakdown: fare,
+    total: fare.total,
+  };
+
+  try {
+    return await storage.createInvoice(insertInvoice);
+  } catch (error) {
+    // Lost a race: either this booking was invoiced concurrently or another invoice took the number
+    const concurrent = await storage.getInvoiceByBookingId(booking.id);
+    if (concurrent) return concurrent;
+    return await storage.createInvoice(insertInvoice);
+  }
+}
+
+interface InvoiceDetails {
+  invoice: Invoice;
+  booking: Booking;
+  customer: User | undefined;
+  ambulance: Ambulance | undefined;
+  ambulanceType: AmbulanceType | undefined;
+  hospital: Hospital | undefined;
+}
+
+// The standard PDF fonts have no rupee glyph
+const formatAmount = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date | null) =>
+  date ? date.toLocaleString("en-IN", { timeZone: pricingRules.timeZone, dateStyle: "medium", timeStyle: "short" }) : "-";
+
+/**
+ * Lays out a single-page tax invoice. The caller pipes the document to its destination and calls end().
+ */
+export function renderInvoicePdf({ invoice, booking, customer, ambulance, ambulanceType, hospital }: InvoiceDetails): PDFKit.PDFDocument {
+  const invoiceNumber = formatInvoiceNumber(invoice);
+  const fare = invoice.fareBreakdown as FareBreakdown;
+  const patient = booking.patientDetails as Partial<PatientDetails>;
+
+  const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `Invoice ${invoiceNumber}` } });
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  // Header
+  doc.font("Helvetica-Bold").fontSize(18).text(invoiceIssuer.name, left, 50);
+  doc.font("Helvetica").fontSize(9).text(invoiceIssuer.address);
+  if (invoiceIssuer.gstin) doc.text(`GSTIN: ${invoiceIssuer.gstin}`);
+  doc.text(invoiceIssuer.email);
+  doc.font("Helvetica-Bold").fontSize(14).text("TAX INVOICE", left, 50, { width, align: "right" });
+  doc.font("Helvetica").fontSize(9)
+    .text(`Invoice No: ${invoiceNumber}`, { width, align: "right" })
+    .text(`Date: ${formatDate(invoice.issuedAt)}`, { width, align: "right" })
+    .text(`Booking: #${booking.id}`, { width, align: "right" });
+
+  doc.moveTo(left, 125).lineTo(left + width, 125).stroke();
+
+  // Billed to / trip details
+  const section = (title: string, lines: string[], x: number, y: number) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(title, x, y, { width: width / 2 - 10 });
+    doc.font("Helvetica").fontSize(9);
+    lines.forEach(line => doc.text(line, { width: width / 2 - 10 }));
+    return doc.y;
+  };
+
+  const billedToBottom = section("Billed To", [
+    customer ? `${customer.firstName} ${customer.lastName}` : "-",
+    customer?.phoneNumber || "",
+    customer?.email || "",
+    `Patient: ${patient.name || "-"}${patient.age ? `, ${patient.age} yrs` : ""}`,
+  ].filter(Boolean), left, 140);
+
+  const tripBottom = section("Trip Details", [
+    `Service: ${ambulanceType?.name || "-"}${booking.bookingType === "emergency" ? " (Emergency)" : " (Scheduled)"}`,
+    `Ambulance: ${ambulance?.registrationNumber || "-"}`,
+    `Pickup: ${booking.pickupAddress}`,
+    `Destination: ${hospital?.name || booking.destinationAddress || "-"}`,
+    `Booked: ${formatDate(booking.createdAt)}`,
+  ], left + width / 2 + 10, 140);
+
+  // Fare lines
+  let y = Math.max(billedToBottom, tripBottom) + 20;
+  const halfGstRate = (pricingRules.gstRate * 100) / 2;
+  const rows: [string, number][] = [
+    ["Base fare", fare.baseFare],
+    [`Distance (${fare.distanceKm.toFixed(1)} km)`, fare.distanceFare],
+  ];
+  if (fare.nightSurcharge > 0) rows.push(["Night surcharge", fare.nightSurcharge]);
+  if (fare.peakSurcharge > 0) rows.push(["Peak-hour surcharge", fare.peakSurcharge]);
+  if (fare.waitingCharge > 0) rows.push([`Waiting (${fare.waitingMinutes} min)`, fare.waitingCharge]);
+  if (fare.minimumFareAdjustment > 0) rows.push(["Minimum fare adjustment", fare.minimumFareAdjustment]);
+
+  const row = (label: string, amount: string, bold = false) => {
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+    doc.text(label, left, y, { width: width - 120 });
+    doc.text(amount, left + width - 120, y, { width: 120, align: "right" });
+    y += 18;
+  };
+
+  doc.rect(left, y - 4, width, 18).fill("#eeeeee").fillColor("black");
+  row("Description", "Amount", true);
+  rows.forEach(([label, amount]) => row(label, formatAmount(amount)));
+
+  doc.moveTo(left, y).lineTo(left + width, y).stroke();
+  y += 6;
+  row("Taxable value", formatAmount(fare.subtotal), true);
+  // Intra-state supply: GST is split equally between CGST and SGST
+  const cgst = Math.round(fare.gst * 50) / 100;
+  row(`CGST @ ${halfGstRate}%`, formatAmount(cgst));
+  row(`SGST @ ${halfGstRate}%`, formatAmount(fare.gst - cgst));
+  doc.moveTo(left, y).lineTo(left + width, y).stroke();
+  y += 6;
+  row("Total", formatAmount(invoice.total), true);
+
+  doc.font("Helvetica").fontSize(8).fillColor("#666666")
+    .text("This is a computer-generated invoice and does not require a signature.", left, y + 30, { width, align: "center" });
+
+  return doc;
+}
+
+// Gathers everything printed on the invoice
+export async function loadInvoiceDetails(invoice: Invoice, booking: Booking): Promise<InvoiceDetails> {
+  const [customer, ambulance, ambulanceType, hospital] = await Promise.all([
+    storage.getUser(booking.userId),
+    booking.ambulanceId ? storage.getAmbulanceById(booking.ambulanceId) : undefined,
+    booking.ambulanceTypeId ? storage.getAmbulanceTypeById(booking.ambulanceTypeId) : undefined,
+    booking.hospitalId ? storage.getHospitalById(booking.hospitalId) : undefined,
+  ]);
+
+  return { invoice, booking, customer, ambulance, ambulanceType, hospital };
+}
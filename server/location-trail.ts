@@ -0,0 +1,79 @@
+import type { LocationPing } from "@shared/schema";
+import { calculateBearing, calculateDistance } from "@shared/geo";
+import { storage } from "./storage";
+
+// Keeps the trail compact: stationary ambulances don't need a breadcrumb every few seconds
+export const trailRetention = {
+  // A ping closer than this to the previous one is dropped unless the heartbeat has passed
+  minMovementMeters: 15,
+  stationaryHeartbeatSeconds: 120,
+  // Pings arriving faster than this are always dropped
+  minIntervalSeconds: 5,
+  // Idle/patrol pings are only useful for recent coverage; trip trails are kept for replays and disputes
+  idleRetentionDays: 7,
+  tripRetentionDays: 180,
+  sweepIntervalMinutes: 60,
+};
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  speedKmh?: number | null;
+  heading?: number | null;
+  accuracyM?: number | null;
+}
+
+/**
+ * Appends a fix to the ambulance's trail, tagged with the booking it's serving.
+ * Speed and heading come from the device when it reports them, otherwise they're
+ * derived from the previous ping. Returns undefined when the fix was dropped.
+ */
+export async function recordLocationPing(ambulanceId: number, bookingId: number | null, fix: LocationFix): Promise<LocationPing | undefined> {
+  const now = new Date();
+  const previous = await storage.getLatestLocationPing(ambulanceId);
+
+  let { speedKmh, heading } = fix;
+  if (previous) {
+    const elapsedSeconds = (now.getTime() - previous.recordedAt.getTime()) / 1000;
+    const movedMeters = calculateDistance(previous.latitude, previous.longitude, fix.latitude, fix.longitude) * 1000;
+    const sameLeg = previous.bookingId === bookingId;
+
+    if (sameLeg && (elapsedSeconds < trailRetention.minIntervalSeconds ||
+      (movedMeters < trailRetention.minMovementMeters && elapsedSeconds < trailRetention.stationaryHeartbeatSeconds))) {
+      return undefined;
+    }
+
+    if (speedKmh == null && elapsedSeconds > 0) {
+      speedKmh = (movedMeters / 1000) / (elapsedSeconds / 3600);
+    }
+    if (heading == null && movedMeters >= trailRetention.minMovementMeters) {
+      heading = calculateBearing(previous.latitude, previous.longitude, fix.latitude, fix.longitude);
+    }
+  }
+
+  return await storage.addLocationPing({
+    ambulanceId,
+    bookingId,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    speedKmh: speedKmh != null ? Math.round(speedKmh * 10) / 10 : null,
+    heading: heading != null ? Math.round(heading) % 360 : null,
+    accuracyM: fix.accuracyM ?? null,
+    recordedAt: now,
+  });
+}
+
+export async function pruneLocationTrail(now = new Date()): Promise<number> {
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const idle = await storage.deleteLocationPingsBefore(daysAgo(trailRetention.idleRetentionDays), false);
+  const trips = await storage.deleteLocationPingsBefore(daysAgo(trailRetention.tripRetentionDays), true);
+  return idle + trips;
+}
+
+export function startTrailRetention(): NodeJS.Timeout {
+  return setInterval(() => {
+    pruneLocationTrail().catch(error => {
+      console.error("Error pruning location trail:", error);
+    });
+  }, trailRetention.sweepIntervalMinutes * 60 * 1000);
+}
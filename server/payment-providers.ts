@@ -0,0 +1,103 @@
+import { randomBytes } from "crypto";
+import type { PaymentMethod } from "@shared/schema";
+
+interface ProviderPaymentRequest {
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  bookingId: number;
+}
+
+export interface ProviderPaymentResult {
+  status: "requires_confirmation" | "succeeded" | "failed";
+  providerReference: string;
+  failureReason?: string;
+}
+
+export interface ProviderRefundResult {
+  providerReference: string;
+}
+
+/**
+ * A payment gateway. Real gateways (Razorpay, Stripe, ...) implement this and are
+ * registered in `paymentProviders`; the rest of the server only talks to this interface.
+ */
+export interface PaymentProvider {
+  name: string;
+  createPayment(request: ProviderPaymentRequest): Promise<ProviderPaymentResult>;
+  // Called after the patient completes checkout on the gateway's page or app
+  confirmPayment(providerReference: string, options?: { simulateFailure?: boolean }): Promise<ProviderPaymentResult>;
+  refund(providerReference: string, amount: number): Promise<ProviderRefundResult>;
+}
+
+const reference = (prefix: string) => `${prefix}_${randomBytes(8).toString("hex")}`;
+
+/**
+ * Local stand-in for a UPI/card gateway, used in development and tests. Payments wait
+ * for confirmation like a real checkout and succeed unless a failure is simulated.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  name = "mock";
+
+  async createPayment(): Promise<ProviderPaymentResult> {
+    return { status: "requires_confirmation", providerReference: reference("mock_pi") };
+  }
+
+  async confirmPayment(providerReference: string, options: { simulateFailure?: boolean } = {}): Promise<ProviderPaymentResult> {
+    if (options.simulateFailure) {
+      return { status: "failed", providerReference, failureReason: "Payment declined (simulated)" };
+    }
+    return { status: "succeeded", providerReference };
+  }
+
+  async refund(): Promise<ProviderRefundResult> {
+    return { providerReference: reference("mock_re") };
+  }
+}
+
+// Cash handed to the crew; settled the moment it's recorded
+export class CashProvider implements PaymentProvider {
+  name = "cash";
+
+  async createPayment(): Promise<ProviderPaymentResult> {
+    return { status: "succeeded", providerReference: reference("cash") };
+  }
+
+  async confirmPayment(providerReference: string): Promise<ProviderPaymentResult> {
+    return { status: "succeeded", providerReference };
+  }
+
+  async refund(): Promise<ProviderRefundResult> {
+    return { providerReference: reference("cash_re") };
+  }
+}
+
+const isProduction = process.env.NODE_ENV === "production";
+
+const paymentProviders: Record<string, PaymentProvider> = {
+  cash: new CashProvider(),
+};
+
+// The mock lets the patient confirm their own payment, so it can never take real money
+if (!isProduction) {
+  paymentProviders.mock = new MockPaymentProvider();
+}
+
+// UPI and card go through PAYMENT_GATEWAY; outside production it defaults to the mock provider
+export function getProviderForMethod(method: PaymentMethod): PaymentProvider {
+  if (method === "cash") return paymentProviders.cash;
+
+  const gateway = process.env.PAYMENT_GATEWAY || (isProduction ? undefined : "mock");
+  if (!gateway) {
+    throw new Error("No payment gateway configured for UPI and card payments; set PAYMENT_GATEWAY");
+  }
+  return getProvider(gateway);
+}
+
+export function getProvider(name: string): PaymentProvider {
+  const provider = paymentProviders[name];
+  if (!provider) {
+    throw new Error(`Unknown payment provider "${name}"`);
+  }
+  return provider;
+}
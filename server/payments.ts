@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import type { Booking, BookingPaymentStatus, BookingPaymentSummary, InsertLedgerEntry, Payment, PaymentMethod, Refund } from "@shared/schema";
+import { storage } from "./storage";
+import { pricingRules } from "./pricing";
+import { getProvider, getProviderForMethod } from "./payment-providers";
+
+// Rejected payment operations; `status` is the HTTP status the route should send
+export class PaymentError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Money that was actually collected, including anything since refunded
+const collected = (payment: Payment) =>
+  payment.status === "succeeded" || payment.status === "refunded" ? payment.amount : 0;
+
+export function amountDue(booking: Booking, payments: Payment[]): number {
+  if (booking.status !== "completed" || booking.actualFare == null) return 0;
+  const paid = payments.reduce((sum, payment) => sum + collected(payment), 0);
+  return Math.max(0, round(booking.actualFare - paid));
+}
+
+export async function getBookingPaymentSummary(booking: Booking): Promise<BookingPaymentSummary> {
+  const payments = await storage.getPaymentsByBookingId(booking.id);
+  const withRefunds = await Promise.all(payments.map(async payment => ({
+    ...payment,
+    refunds: await storage.getRefundsByPaymentId(payment.id),
+  })));
+
+  return {
+    paymentStatus: booking.paymentStatus as BookingPaymentStatus,
+    fare: booking.actualFare,
+    amountDue: amountDue(booking, payments),
+    payments: withRefunds,
+  };
+}
+
+/**
+ * Starts a payment for whatever is still owed on a completed booking. Cash is settled
+ * immediately; UPI and card wait for confirmPayment once the patient finishes checkout.
+ */
+export async function createPayment(booking: Booking, method: PaymentMethod, recordedBy?: number): Promise<Payment> {
+  if (booking.status !== "completed" || booking.actualFare == null) {
+    throw new PaymentError(409, "Payments can only be taken for completed bookings");
+  }
+
+  const existing = await storage.getPaymentsByBookingId(booking.id);
+  const amount = amountDue(booking, existing);
+  if (amount <= 0) {
+    throw new PaymentError(409, "Nothing is due on this booking");
+  }
+
+  // Only one checkout at a time; starting another abandons the previous one
+  for (const open of existing.filter(payment => payment.status === "requires_confirmation")) {
+    await storage.updatePayment(open.id, { status: "cancelled" });
+  }
+
+  const provider = getProviderForMethod(method);
+  const result = await provider.createPayment({ amount, currency: "INR", method, bookingId: booking.id });
+
+  const payment = await storage.createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount,
+    currency: "INR",
+    method,
+    provider: provider.name,
+    providerReference: result.providerReference,
+    status: result.status,
+    failureReason: result.failureReason,
+    recordedBy,
+  });
+
+  if (payment.status === "succeeded") {
+    await postPayment(payment);
+  }
+
+  await refreshBookingPaymentStatus(booking.id);
+  return payment;
+}
+
+export async function confirmPayment(payment: Payment, options: { simulateFailure?: boolean } = {}): Promise<Payment> {
+  if (payment.status !== "requires_confirmation") {
+    throw new PaymentError(409, `Payment is already ${payment.status}`);
+  }
+
+  const provider = getProvider(payment.provider);
+  const result = await provider.confirmPayment(payment.providerReference!, options);
+
+  const updatedPayment = await storage.updatePayment(payment.id, {
+    status: result.status,
+    providerReference: result.providerReference,
+    failureReason: result.failureReason ?? null,
+  });
+
+  if (updatedPayment.status === "succeeded") {
+    await postPayment(updatedPayment);
+  }
+
+  await refreshBookingPaymentStatus(payment.bookingId);
+  return updatedPayment;
+}
+
+export async function refundPayment(payment: Payment, amount: number, reason: string, issuedBy: number): Promise<Refund> {
+  if (payment.status !== "succeeded") {
+    throw new PaymentError(409, "Only successful payments can be refunded");
+  }
+
+  const refundable = round(payment.amount - payment.refundedAmount);
+  if (round(amount) > refundable) {
+    throw new PaymentError(400, `At most ₹${refundable.toFixed(2)} can be refunded on this payment`);
+  }
+
+  const provider = getProvider(payment.provider);
+  const result = await provider.refund(payment.providerReference!, round(amount));
+
+  const refund = await storage.createRefund({
+    paymentId: payment.id,
+    amount: round(amount),
+    reason,
+    providerReference: result.providerReference,
+    issuedBy,
+  });
+
+  const refundedAmount = round(payment.refundedAmount + refund.amount);
+  await storage.updatePayment(payment.id, {
+    refundedAmount,
+    status: refundedAmount >= payment.amount ? "refunded" : "succeeded",
+  });
+
+  await postRefund(payment, refund);
+  await refreshBookingPaymentStatus(payment.bookingId);
+  return refund;
+}
+
+// Rolls the booking's payments up into bookings.paymentStatus
+async function refreshBookingPaymentStatus(bookingId: number): Promise<void> {
+  const booking = await storage.getBookingById(bookingId);
+  if (!booking) return;
+
+  const payments = await storage.getPaymentsByBookingId(bookingId);
+  const refunded = payments.reduce((sum, payment) => sum + payment.refundedAmount, 0);
+  const kept = payments.reduce((sum, payment) => sum + collected(payment), 0) - refunded;
+
+  let status: BookingPaymentStatus = "unpaid";
+  if (refunded > 0) {
+    status = kept > 0 ? "partially_refunded" : "refunded";
+  } else if (kept > 0 && amountDue(booking, payments) === 0) {
+    status = "paid";
+  } else if (kept > 0 || payments.some(payment => payment.status === "requires_confirmation")) {
+    status = "pending";
+  }
+
+  if (status !== booking.paymentStatus) {
+    await storage.updateBookingPaymentStatus(bookingId, status);
+  }
+}
+
+// Fares are GST-inclusive, so the tax is backed out of the amount collected
+function splitGst(amount: number): { revenue: number; gst: number } {
+  const gst = round(amount * pricingRules.gstRate / (1 + pricingRules.gstRate));
+  return { revenue: round(amount - gst), gst };
+}
+
+const assetAccount = (payment: Payment) => payment.method === "cash" ? "cash_on_hand" : "gateway_clearing";
+
+async function postPayment(payment: Payment): Promise<void> {
+  const { revenue, gst } = splitGst(payment.amount);
+  const base = { transactionId: randomUUID(), bookingId: payment.bookingId, paymentId: payment.id };
+  const description = `Payment #${payment.id} (${payment.method}) for booking #${payment.bookingId}`;
+
+  await postTransaction([
+    { ...base, account: assetAccount(payment), debit: payment.amount, credit: 0, description },
+    { ...base, account: "fare_revenue", debit: 0, credit: revenue, description },
+    { ...base, account: "gst_payable", debit: 0, credit: gst, description },
+  ]);
+}
+
+async function postRefund(payment: Payment, refund: Refund): Promise<void> {
+  const { revenue, gst } = splitGst(refund.amount);
+  const base = { transactionId: randomUUID(), bookingId: payment.bookingId, paymentId: payment.id, refundId: refund.id };
+  const description = `Refund #${refund.id} on payment #${payment.id}: ${refund.reason}`;
+
+  await postTransaction([
+    { ...base, account: "fare_revenue", debit: revenue, credit: 0, description },
+    { ...base, account: "gst_payable", debit: gst, credit: 0, description },
+    { ...base, account: assetAccount(payment), debit: 0, credit: refund.amount, description },
+  ]);
+}
+
+async function postTransaction(entries: InsertLedgerEntry[]): Promise<void> {
+  const debits = entries.reduce((sum, entry) => sum + (entry.debit || 0), 0);
+  const credits = entries.reduce((sum, entry) => sum + (entry.credit || 0), 0);
+  if (round(debits) !== round(credits)) {
+    throw new Error(`Unbalanced ledger transaction: debits ${debits} != credits ${credits}`);
+  }
+  await storage.addLedgerTransaction(entries);
+}
@@ -0,0 +1,112 @@
+import type { AmbulanceType, Booking, BookingStatusUpdate } from "@shared/schema";
+import type { FareBreakdown } from "@shared/pricing";
+
+// Fare rules applied on top of each ambulance type's base price and per-km rate
+export const pricingRules = {
+  // 22:00-06:00 local time
+  nightStartHour: 22,
+  nightEndHour: 6,
+  nightSurchargeRate: 0.25,
+  // Weekday rush hours; only scheduled bookings pay this, never emergencies
+  peakHours: [[8, 11], [17, 21]] as [number, number][],
+  peakSurchargeRate: 0.15,
+  // Waiting at the pickup beyond the free allowance is charged per minute
+  freeWaitingMinutes: 10,
+  waitingChargePerMinute: 10,
+  // Short trips are charged as if they were this long
+  minimumChargeableKm: 3,
+  gstRate: 0.05,
+  timeZone: "Asia/Kolkata",
+};
+
+interface FareInput {
+  ambulanceType: AmbulanceType;
+  bookingType: string;
+  distanceKm: number;
+  at: Date;
+  waitingMinutes?: number;
+}
+
+export function calculateFare({ ambulanceType, bookingType, distanceKm, at, waitingMinutes = 0 }: FareInput): FareBreakdown {
+  const baseFare = ambulanceType.basePrice;
+  const distanceFare = distanceKm * ambulanceType.pricePerKm;
+  const tripFare = baseFare + distanceFare;
+
+  const { hour, weekday } = localTime(at);
+  const isNight = hour >= pricingRules.nightStartHour || hour < pricingRules.nightEndHour;
+  const isPeak = bookingType === "scheduled" && !isNight && weekday !== "Sat" && weekday !== "Sun" &&
+    pricingRules.peakHours.some(([start, end]) => hour >= start && hour < end);
+
+  const nightSurcharge = isNight ? tripFare * pricingRules.nightSurchargeRate : 0;
+  const peakSurcharge = isPeak ? tripFare * pricingRules.peakSurchargeRate : 0;
+
+  const chargeableWaiting = Math.max(0, Math.ceil(waitingMinutes) - pricingRules.freeWaitingMinutes);
+  const waitingCharge = chargeableWaiting * pricingRules.waitingChargePerMinute;
+
+  const minimumFare = baseFare + pricingRules.minimumChargeableKm * ambulanceType.pricePerKm;
+  const minimumFareAdjustment = Math.max(0, minimumFare - tripFare);
+
+  const subtotal = tripFare + nightSurcharge + peakSurcharge + waitingCharge + minimumFareAdjustment;
+  const gst = subtotal * pricingRules.gstRate;
+
+  return {
+    distanceKm: round(distanceKm),
+    baseFare: round(baseFare),
+    distanceFare: round(distanceFare),
+    nightSurcharge: round(nightSurcharge),
+    peakSurcharge: round(peakSurcharge),
+    waitingMinutes: Math.max(0, Math.round(waitingMinutes)),
+    waitingCharge: round(waitingCharge),
+    minimumFareAdjustment: round(minimumFareAdjustment),
+    subtotal: round(subtotal),
+    gst: round(gst),
+    total: round(subtotal + gst),
+  };
+}
+
+/**
+ * Final fare for a completed booking. The trip is priced from when the patient was
+ * picked up, and waiting is the time between arriving at the pickup and departing.
+ * `distanceKm` is the recorded trip distance, or the straight-line estimate when the
+ * ambulance didn't share its location.
+ */
+export function calculateFinalFare(
+  booking: Booking,
+  ambulanceType: AmbulanceType,
+  statusUpdates: BookingStatusUpdate[],
+  distanceKm: number
+): FareBreakdown {
+  const timeOf = (status: string) => statusUpdates.find(update => update.status === status)?.createdAt;
+  const arrivedAt = timeOf("arrived_pickup");
+  const onboardAt = timeOf("patient_onboard");
+
+  const waitingMinutes = arrivedAt && onboardAt
+    ? (onboardAt.getTime() - arrivedAt.getTime()) / 60000
+    : 0;
+
+  return calculateFare({
+    ambulanceType,
+    bookingType: booking.bookingType,
+    distanceKm,
+    at: onboardAt || booking.scheduledTime || booking.createdAt || new Date(),
+    waitingMinutes,
+  });
+}
+
+function localTime(at: Date): { hour: number; weekday: string } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: pricingRules.timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  return {
+    hour: parseInt(parts.find(part => part.type === "hour")?.value || "0"),
+    weekday: parts.find(part => part.type === "weekday")?.value || "",
+  };
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,202 @@
+import type { IncomingMessage, Server } from "http";
+import type { RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { type Ambulance, type Booking, type BookingStatusUpdate, type User } from "@shared/schema";
+import { REALTIME_PATH, type RealtimeClientMessage, type RealtimeServerMessage } from "@shared/realtime";
+import { storage } from "./storage";
+import { bookingEvents } from "./events";
+import { runAsSystem, runAsUser } from "./audit";
+
+// Drop connections that stop answering pings (e.g. a phone that lost signal)
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+type StatusUpdateListener = (update: BookingStatusUpdate, booking: Booking | undefined) => void;
+
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    // Other upgrades (e.g. the Vite HMR socket in development) are handled elsewhere
+    if (new URL(req.url || "/", "http://localhost").pathname !== REALTIME_PATH) {
+      return;
+    }
+
+    authenticate(req, sessionMiddleware)
+      .then(user => {
+        if (!user) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req, user));
+      })
+      .catch(error => {
+        console.error("Error authenticating realtime connection:", error);
+        socket.destroy();
+      });
+  });
+
+  // Each status update reads its booking once and hands it to every connection. The push
+  // isn't any user's read, so it isn't logged as one (it often runs inside the request of
+  // the driver whose location update caused it).
+  const statusUpdateListeners = new Set<StatusUpdateListener>();
+  const onStatusUpdate = (update: BookingStatusUpdate) => {
+    if (statusUpdateListeners.size === 0) return;
+    runAsSystem(() => storage.getBookingById(update.bookingId))
+      .then(booking => statusUpdateListeners.forEach(listener => listener(update, booking)))
+      .catch(error => console.error(`Error sending realtime update for booking ${update.bookingId}:`, error));
+  };
+  bookingEvents.on("statusUpdate", onStatusUpdate);
+
+  const alive = new WeakSet<WebSocket>();
+  wss.on("connection", (ws: WebSocket, req: IncomingMessage, user: User) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+
+    const listener = handleConnection(ws, user, req.socket.remoteAddress ?? null);
+    statusUpdateListeners.add(listener);
+    ws.on("close", () => statusUpdateListeners.delete(listener));
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => {
+    clearInterval(heartbeat);
+    bookingEvents.off("statusUpdate", onStatusUpdate);
+  });
+
+  return wss;
+}
+
+// Reuse the express session so only logged-in users can open a socket
+async function authenticate(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<User | undefined> {
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware(req as any, {} as any, (err?: any) => (err ? reject(err) : resolve()));
+  });
+
+  const userId = (req as any).session?.passport?.user;
+  return userId ? storage.getUser(userId) : undefined;
+}
+
+// Returns the connection's listener for booking status updates
+function handleConnection(ws: WebSocket, user: User, ip: string | null): StatusUpdateListener {
+  // Subscribed booking IDs and the ambulance currently assigned to each
+  const subscriptions = new Map<number, number | null>();
+  // Admins watching the whole fleet get every ambulance and booking change
+  let fleetSubscribed = false;
+
+  // Bookings the user asks for over the socket are logged as read by them
+  const asSocketUser = <T>(action: string, fn: () => Promise<T>) =>
+    runAsUser(user, { route: `WS ${REALTIME_PATH} ${action}`, ip }, fn);
+
+  const send = (message: RealtimeServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const onStatusUpdate: StatusUpdateListener = (update, booking) => {
+    if (fleetSubscribed && booking) {
+      send({ type: "fleet_booking", booking });
+    }
+    if (!subscriptions.has(update.bookingId)) return;
+    send({ type: "status_update", bookingId: update.bookingId, update });
+
+    // Assignment and reassignment always write a status update, so refresh which ambulance to follow
+    if (booking) {
+      subscriptions.set(booking.id, booking.ambulanceId);
+    }
+  };
+
+  const onAmbulanceUpdate = (ambulance: Ambulance) => {
+    if (fleetSubscribed) {
+      send({ type: "fleet_ambulance", ambulance });
+    }
+  };
+
+  const onAmbulanceLocation = (ambulance: Ambulance) => {
+    onAmbulanceUpdate(ambulance);
+    if (ambulance.latitude == null || ambulance.longitude == null) return;
+
+    subscriptions.forEach((ambulanceId, bookingId) => {
+      if (ambulanceId !== ambulance.id) return;
+      send({
+        type: "ambulance_location",
+        bookingId,
+        location: {
+          ambulanceId: ambulance.id,
+          latitude: ambulance.latitude!,
+          longitude: ambulance.longitude!,
+          recordedAt: new Date().toISOString(),
+        },
+      });
+    });
+  };
+
+  bookingEvents.on("ambulanceLocation", onAmbulanceLocation);
+  bookingEvents.on("ambulanceUpdate", onAmbulanceUpdate);
+
+  ws.on("close", () => {
+    bookingEvents.off("ambulanceLocation", onAmbulanceLocation);
+    bookingEvents.off("ambulanceUpdate", onAmbulanceUpdate);
+  });
+
+  ws.on("message", async (data) => {
+    let message: RealtimeClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return send({ type: "error", message: "Invalid message" });
+    }
+
+    try {
+      if (message.type === "unsubscribe") {
+        subscriptions.delete(message.bookingId);
+        return;
+      }
+
+      if (message.type === "subscribe_fleet") {
+        if (user.role !== "admin") {
+          return send({ type: "error", message: "Unauthorized. Admin access required." });
+        }
+        fleetSubscribed = true;
+        return send({ type: "fleet_subscribed" });
+      }
+
+      if (message.type === "unsubscribe_fleet") {
+        fleetSubscribed = false;
+        return;
+      }
+
+      if (message.type !== "subscribe" || typeof message.bookingId !== "number") {
+        return send({ type: "error", message: "Unknown message type" });
+      }
+
+      const booking = await asSocketUser(message.type, () => storage.getBookingById(message.bookingId));
+      if (!booking) {
+        return send({ type: "error", bookingId: message.bookingId, message: "Booking not found" });
+      }
+
+      // Same rule as GET /api/secure/bookings/:id
+      if (booking.userId !== user.id && user.role !== "admin" && user.role !== "driver") {
+        return send({ type: "error", bookingId: message.bookingId, message: "Unauthorized to access this booking" });
+      }
+
+      subscriptions.set(booking.id, booking.ambulanceId);
+      send({ type: "subscribed", bookingId: booking.id });
+    } catch (error) {
+      console.error("Error handling realtime message:", error);
+      send({ type: "error", message: "Failed to handle message" });
+    }
+  });
+
+  return onStatusUpdate;
+}
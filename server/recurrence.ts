@@ -0,0 +1,157 @@
+import { type Booking, type BookingSeries, type InsertBooking, type Recurrence } from "@shared/schema";
+import { type BookingActorRole } from "@shared/booking-lifecycle";
+import { dayFormat, wallClockFormat } from "./analytics";
+import { storage } from "./storage";
+
+// Hard cap so a mistyped end date can't generate years of rides
+export const MAX_OCCURRENCES = 120;
+
+// Occurrences in these states haven't started and can still be changed by the patient
+export const CHANGEABLE_OCCURRENCE_STATUSES = ["pending", "confirmed"];
+
+// Last moment of the day `date` falls on in the operating time zone, wherever the server runs
+function endOfLocalDay(date: Date): Date {
+  const nextDay = new Date(`${dayFormat.format(date)}T00:00:00Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  // How far the zone's clock is ahead of UTC at that midnight, e.g. 5.5 hours in Asia/Kolkata
+  const offsetMs = new Date(wallClockFormat.format(nextDay).replace(" ", "T") + "Z").getTime() - nextDay.getTime();
+  return new Date(nextDay.getTime() - offsetMs - 1);
+}
+
+// Pickup times from `start` up to and including the day of `endDate`
+export function generateOccurrences(start: Date, pattern: Recurrence["pattern"], endDate: Date): Date[] {
+  const endOfEndDate = endOfLocalDay(endDate);
+
+  const occurrences: Date[] = [];
+  for (let i = 0; occurrences.length < MAX_OCCURRENCES; i++) {
+    const next = new Date(start);
+
+    switch (pattern) {
+      case "daily":
+        next.setDate(start.getDate() + i);
+        break;
+      case "weekly":
+        next.setDate(start.getDate() + i * 7);
+        break;
+      case "biweekly":
+        next.setDate(start.getDate() + i * 14);
+        break;
+      case "monthly":
+        next.setMonth(start.getMonth() + i);
+        // Clamp e.g. Jan 31 -> Feb 28 instead of rolling into March
+        if (next.getDate() !== start.getDate()) {
+          next.setDate(0);
+        }
+        break;
+    }
+
+    if (next > endOfEndDate) break;
+    occurrences.push(next);
+  }
+
+  return occurrences;
+}
+
+export async function createBookingSeries(
+  insertBooking: InsertBooking,
+  recurrence: Recurrence
+): Promise<{ series: BookingSeries; bookings: Booking[] }> {
+  const startTime = insertBooking.scheduledTime!;
+  const occurrences = generateOccurrences(startTime, recurrence.pattern, recurrence.endDate);
+
+  const series = await storage.createBookingSeries({
+    userId: insertBooking.userId,
+    recurringPattern: recurrence.pattern,
+    startTime,
+    endDate: recurrence.endDate,
+    status: "active",
+  });
+
+  const bookings: Booking[] = [];
+  for (const scheduledTime of occurrences) {
+    bookings.push(await storage.createBooking({
+      ...insertBooking,
+      scheduledTime,
+      seriesId: series.id,
+    }));
+  }
+
+  return { series, bookings };
+}
+
+export async function skipOccurrence(booking: Booking, role: BookingActorRole): Promise<Booking> {
+  const updatedBooking = await storage.updateBookingStatus(booking.id, "skipped", role);
+
+  await storage.addBookingStatusUpdate({
+    bookingId: booking.id,
+    status: updatedBooking.status,
+    message: "This occurrence was skipped. The rest of the series is unchanged.",
+  });
+
+  return updatedBooking;
+}
+
+export async function rescheduleOccurrence(booking: Booking, scheduledTime: Date): Promise<Booking> {
+  const updatedBooking = await storage.rescheduleBooking(booking.id, scheduledTime);
+
+  await storage.addBookingStatusUpdate({
+    bookingId: booking.id,
+    status: updatedBooking.status,
+    message: `Rescheduled to ${scheduledTime.toISOString()}.`,
+  });
+
+  return updatedBooking;
+}
+
+export async function cancelSeries(series: BookingSeries, role: BookingActorRole, now = new Date()): Promise<Booking[]> {
+  const occurrences = await storage.getBookingsBySeriesId(series.id);
+  const cancelled: Booking[] = [];
+
+  for (const booking of occurrences.filter(booking => isUpcoming(booking, now))) {
+    const updatedBooking = await storage.updateBookingStatus(booking.id, "cancelled", role);
+    await storage.addBookingStatusUpdate({
+      bookingId: booking.id,
+      status: updatedBooking.status,
+      message: "Cancelled together with the rest of the recurring series.",
+    });
+    cancelled.push(updatedBooking);
+  }
+
+  await storage.updateBookingSeriesStatus(series.id, "cancelled");
+  return cancelled;
+}
+
+// Move every upcoming occurrence by the same amount `fromBooking` is being moved
+export async function rescheduleSeries(
+  series: BookingSeries,
+  fromBooking: Booking,
+  scheduledTime: Date,
+  now = new Date()
+): Promise<Booking[]> {
+  const shiftMs = scheduledTime.getTime() - new Date(fromBooking.scheduledTime!).getTime();
+  const occurrences = await storage.getBookingsBySeriesId(series.id);
+  const rescheduled: Booking[] = [];
+
+  for (const booking of occurrences) {
+    if (!isUpcoming(booking, now) || new Date(booking.scheduledTime!) < new Date(fromBooking.scheduledTime!)) {
+      continue;
+    }
+    rescheduled.push(await rescheduleOccurrence(booking, new Date(new Date(booking.scheduledTime!).getTime() + shiftMs)));
+  }
+
+  // Keep the series' bounds in step with its occurrences; the start only moves with the first one
+  const movesFirst = new Date(fromBooking.scheduledTime!).getTime() <= new Date(series.startTime).getTime();
+  await storage.rescheduleBookingSeries(
+    series.id,
+    movesFirst ? new Date(new Date(series.startTime).getTime() + shiftMs) : series.startTime,
+    new Date(new Date(series.endDate).getTime() + shiftMs),
+  );
+
+  return rescheduled;
+}
+
+function isUpcoming(booking: Booking, now: Date): boolean {
+  return CHANGEABLE_OCCURRENCE_STATUSES.includes(booking.status) &&
+    !!booking.scheduledTime &&
+    new Date(booking.scheduledTime) > now;
+}
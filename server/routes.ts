@@ -1,14 +1,42 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, hashPassword } from "./auth";
-import { ambulanceTypes, hospitals, insertBookingSchema, patientDetailsSchema, emergencyContactSchema } from "@shared/schema";
+import { setupRealtime } from "./realtime";
+import { startDispatch, acceptOffer, declineOffer, expireOffer, cancelPendingOffers } from "./dispatch-offers";
+import { createBookingSeries, skipOccurrence, rescheduleOccurrence, cancelSeries, rescheduleSeries } from "./recurrence";
+import { ambulanceTypes, hospitals, bookingRequestSchema, insertAmbulanceSchema, insertAmbulanceTypeSchema, type InsertAmbulanceType, type AmbulanceType, insertHospitalSchema, type InsertHospital, type Hospital, type OperatingHours, type WeekDay, type Booking, adminAmbulanceStatuses, type Ambulance, type InsertAmbulance, paymentMethods, insertRefundSchema, bookingRatingSchema, reviewStatuses, type AdminReview, type RatingSummary, type TripReplay, type PatientDetails, patientDetailsSchema, emergencyContactSchema, recurrenceSchema, insertServiceAreaSchema, type InsertPlace, auditEventKinds } from "@shared/schema";
+import { type AmbulanceLocation, type OperationsSnapshot } from "@shared/realtime";
+import { isHospitalSpecialty, normalizeSpecialty, type HospitalSpecialty } from "@shared/hospital-specialties";
+import { fareEstimateSchema, type FareBreakdown } from "@shared/pricing";
+import { responseTimeGroupings, HOURS_PER_WEEK, DEFAULT_COVERAGE_TARGETS_MINUTES } from "@shared/analytics";
+import { exportDatasets, exportFormats } from "@shared/exports";
+import { calculateDistance } from "@shared/geo";
+import { calculateFare, calculateFinalFare } from "./pricing";
+import { getOrCreateInvoice, loadInvoiceDetails, renderInvoicePdf, formatInvoiceNumber } from "./invoices";
+import { createPayment, confirmPayment, refundPayment, getBookingPaymentSummary, PaymentError } from "./payments";
+import { recordLocationPing } from "./location-trail";
+import { findRoute } from "./routing";
+import { checkGeofences } from "./geofence";
+import { checkServiceArea, getActiveServiceAreas } from "./service-areas";
+import { searchPlaces, reverseGeocode, parseGazetteerCsv } from "./geocoding";
+import { analyticsConfig, buildResponseTimeReport, getBookingResponseTimes } from "./analytics";
+import { getDemandHeatmap, getHourOfWeek, planStandby } from "./demand";
+import { getCoverage } from "./coverage";
+import { streamExport } from "./exports";
+import { assertTransition, isBookingStatus, isLiveBooking, BookingTransitionError, type BookingActorRole } from "@shared/booking-lifecycle";
 
 import { z } from "zod";
 
+const DEFAULT_HOSPITAL_PAGE_SIZE = 20;
+const MAX_HOSPITAL_PAGE_SIZE = 100;
+const HOSPITAL_TIME_ZONE = "Asia/Kolkata";
+// Ignore GPS jitter while stationary when accumulating trip distance
+const MIN_TRIP_SEGMENT_KM = 0.02;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
 
   // Seed initial data
   await seedInitialData();
@@ -16,50 +44,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // API routes
   app.get("/api/ambulance-types", async (req, res) => {
     try {
+      // Deactivated types are hidden from the catalog and booking forms
       const types = await storage.getAmbulanceTypes();
-      res.json(types);
+      res.json(types.filter(type => type.isActive));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch ambulance types" });
     }
   });
 
+  // Single source of fare math for the booking forms
+  app.post("/api/fare-estimate", async (req, res) => {
+    try {
+      const request = fareEstimateSchema.parse(req.body);
+      
+      const ambulanceType = await storage.getAmbulanceTypeById(request.ambulanceTypeId);
+      if (!ambulanceType || !ambulanceType.isActive) {
+        return res.status(400).json({ message: "Selected ambulance type is not available" });
+      }
+      
+      // Priced on the road distance the meter will roughly record; without a destination only the minimum fare can be estimated
+      const distanceKm = request.destinationLatitude != null && request.destinationLongitude != null
+        ? findRoute([request.pickupLatitude, request.pickupLongitude], [request.destinationLatitude, request.destinationLongitude]).distanceKm
+        : 0;
+      
+      const fare = calculateFare({
+        ambulanceType,
+        bookingType: request.bookingType,
+        distanceKm,
+        at: request.scheduledTime || new Date(),
+      });
+      res.json(fare);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fare estimate request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to estimate fare" });
+    }
+  });
+
+  // Driving route between two points, for ETAs and the route line on maps
+  app.get("/api/route", async (req, res) => {
+    try {
+      const query = routeQuerySchema.parse(req.query);
+      res.json(findRoute([query.fromLat, query.fromLng], [query.toLat, query.toLng]));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid route request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to find route" });
+    }
+  });
+
+  // Address autocomplete from the local gazetteer, optionally biased towards the user's position
+  app.get("/api/geocode/search", async (req, res) => {
+    try {
+      const query = placeSearchQuerySchema.parse(req.query);
+      const near = query.latitude !== undefined && query.longitude !== undefined
+        ? { latitude: query.latitude, longitude: query.longitude }
+        : undefined;
+      res.json(await searchPlaces(query.q, query.limit, near));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search places" });
+    }
+  });
+
+  app.get("/api/geocode/reverse", async (req, res) => {
+    try {
+      const query = reverseGeocodeQuerySchema.parse(req.query);
+      res.json(await reverseGeocode(query.latitude, query.longitude));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to look up address" });
+    }
+  });
+
+  // Active service areas, shown as coverage on the booking maps
+  app.get("/api/service-areas", async (req, res) => {
+    try {
+      const areas = await getActiveServiceAreas();
+      res.json(areas.map(({ id, name, city, operator, polygon }) => ({ id, name, city, operator, polygon })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch service areas" });
+    }
+  });
+
   app.get("/api/hospitals", async (req, res) => {
     try {
-      // If latitude and longitude are provided, fetch nearby hospitals
-      if (req.query.latitude && req.query.longitude) {
-        const latitude = parseFloat(req.query.latitude as string);
-        const longitude = parseFloat(req.query.longitude as string);
-        
-        if (isNaN(latitude) || isNaN(longitude)) {
-          return res.status(400).json({ message: "Invalid latitude or longitude" });
-        }
-        
-        // Get all hospitals and calculate distance to each
-        const allHospitals = await storage.getHospitals();
-        const hospitalsWithDistance = allHospitals.map(hospital => {
-          const distance = calculateDistance(
-            latitude,
-            longitude,
-            hospital.latitude,
-            hospital.longitude
-          );
-          return { ...hospital, distance };
-        });
-        
-        // Sort by distance and return
-        hospitalsWithDistance.sort((a, b) => a.distance - b.distance);
-        res.json(hospitalsWithDistance);
-      } else {
-        // Just return all hospitals if no coordinates provided
-        const allHospitals = await storage.getHospitals();
-        res.json(allHospitals);
+      const query = hospitalQuerySchema.parse(req.query);
+      const hasLocation = query.latitude !== undefined && query.longitude !== undefined;
+      
+      if (query.radiusKm !== undefined && !hasLocation) {
+        return res.status(400).json({ message: "radiusKm requires latitude and longitude" });
+      }
+      
+      // Inactive hospitals are hidden from the directory and booking forms
+      let results: (Hospital & { distance?: number })[] = (await storage.getHospitals())
+        .filter(hospital => hospital.isActive);
+      
+      if (query.specialty.length > 0) {
+        results = results.filter(hospital =>
+          query.specialty.every(specialty => hospital.specialties.includes(specialty))
+        );
+      }
+      
+      if (query.openNow) {
+        const now = new Date();
+        results = results.filter(hospital => isHospitalOpen(hospital, now));
+      }
+      
+      // If latitude and longitude are provided, sort by distance to each hospital
+      if (hasLocation) {
+        results = results
+          .map(hospital => ({
+            ...hospital,
+            distance: calculateDistance(query.latitude!, query.longitude!, hospital.latitude, hospital.longitude)
+          }))
+          .filter(hospital => query.radiusKm === undefined || hospital.distance <= query.radiusKm)
+          .sort((a, b) => a.distance - b.distance);
+      }
+      
+      // Without page/pageSize the whole list is returned, as existing callers expect
+      res.setHeader("X-Total-Count", results.length.toString());
+      if (query.page !== undefined || query.pageSize !== undefined) {
+        const page = query.page ?? 1;
+        const pageSize = query.pageSize ?? DEFAULT_HOSPITAL_PAGE_SIZE;
+        results = results.slice((page - 1) * pageSize, page * pageSize);
       }
+      
+      res.json(results);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid hospital search", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch hospitals" });
     }
   });
 
-  app.get("/api/nearby-ambulances", (req, res) => {
+  app.get("/api/hospitals/:id", async (req, res) => {
+    try {
+      const hospitalId = parseInt(req.params.id);
+      const hospital = await storage.getHospitalById(hospitalId);
+      
+      if (!hospital) {
+        return res.status(404).json({ message: "Hospital not found" });
+      }
+      
+      res.json(hospital);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch hospital" });
+    }
+  });
+
+  app.get("/api/nearby-ambulances", async (req, res) => {
     const latitude = parseFloat(req.query.latitude as string);
     const longitude = parseFloat(req.query.longitude as string);
     
@@ -68,7 +209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     try {
-      const nearbyAmbulances = storage.getNearbyAmbulances(latitude, longitude);
+      const nearbyAmbulances = await storage.getNearbyAmbulances(latitude, longitude);
       res.json(nearbyAmbulances);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch nearby ambulances" });
@@ -91,6 +232,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trip replay - the recorded path of a booking with its status milestones
+  app.get("/api/admin/bookings/:id/replay", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const [trail, statusUpdates] = await Promise.all([
+        storage.getLocationPingsByBookingId(booking.id),
+        storage.getBookingStatusUpdates(booking.id),
+      ]);
+      
+      // Location updates repeat the current status; keep only the changes
+      const milestones = statusUpdates
+        .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime())
+        .filter((update, i, updates) => i === 0 || update.status !== updates[i - 1].status);
+      
+      const replay: TripReplay = { booking, trail, milestones };
+      res.json(replay);
+    } catch (error) {
+      console.error("Error fetching trip replay:", error);
+      res.status(500).json({ message: "Failed to fetch trip replay" });
+    }
+  });
+
+  app.get("/api/admin/ambulances/:id/trail", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const { from, to } = z.object({
+        from: z.coerce.date().default(() => new Date(Date.now() - 24 * 60 * 60 * 1000)),
+        to: z.coerce.date().default(() => new Date()),
+      }).parse(req.query);
+      
+      const trail = await storage.getLocationPingsByAmbulanceId(parseInt(req.params.id), from, to);
+      res.json(trail);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid time range", errors: error.errors });
+      }
+      console.error("Error fetching ambulance trail:", error);
+      res.status(500).json({ message: "Failed to fetch ambulance trail" });
+    }
+  });
+
   app.get("/api/admin/ambulances", async (req, res) => {
     try {
       if (req.user?.role !== "admin") {
@@ -105,83 +299,1154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/drivers", async (req, res) => {
+  // Live operations map - the fleet and the bookings in play; kept current over the realtime channel
+  app.get("/api/admin/operations", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const [allAmbulances, allBookings] = await Promise.all([
+        storage.getAmbulances(),
+        storage.getAllBookings(),
+      ]);
+      
+      const snapshot: OperationsSnapshot = {
+        ambulances: allAmbulances.filter(ambulance => ambulance.status !== "decommissioned"),
+        bookings: allBookings.filter(booking => isLiveBooking(booking)),
+      };
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error fetching operations snapshot:", error);
+      res.status(500).json({ message: "Failed to fetch operations snapshot" });
+    }
+  });
+
+  // Ambulance type catalog - services, equipment and pricing
+  app.get("/api/admin/ambulance-types", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const types = await storage.getAmbulanceTypes();
+      res.json(types);
+    } catch (error) {
+      console.error("Error fetching ambulance types:", error);
+      res.status(500).json({ message: "Failed to fetch ambulance types" });
+    }
+  });
+
+  app.post("/api/admin/ambulance-types", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const typeData = insertAmbulanceTypeSchema.parse(req.body);
+      
+      const problem = await checkAmbulanceTypeChange(typeData);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const type = await storage.createAmbulanceType(typeData);
+      res.status(201).json(type);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ambulance type data", errors: error.errors });
+      }
+      console.error("Error creating ambulance type:", error);
+      res.status(500).json({ message: "Failed to create ambulance type" });
+    }
+  });
+
+  app.patch("/api/admin/ambulance-types/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const type = await storage.getAmbulanceTypeById(parseInt(req.params.id));
+      
+      if (!type) {
+        return res.status(404).json({ message: "Ambulance type not found" });
+      }
+      
+      const update = insertAmbulanceTypeSchema.partial().parse(req.body);
+      
+      const problem = await checkAmbulanceTypeChange(update, type);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const updatedType = await storage.updateAmbulanceType(type.id, update);
+      res.json(updatedType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ambulance type data", errors: error.errors });
+      }
+      console.error("Error updating ambulance type:", error);
+      res.status(500).json({ message: "Failed to update ambulance type" });
+    }
+  });
+
+  // Types are deactivated rather than deleted; ambulances and past bookings still reference them
+  app.delete("/api/admin/ambulance-types/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const type = await storage.getAmbulanceTypeById(parseInt(req.params.id));
+      
+      if (!type) {
+        return res.status(404).json({ message: "Ambulance type not found" });
+      }
+      
+      const updatedType = await storage.updateAmbulanceType(type.id, { isActive: false });
+      res.json(updatedType);
+    } catch (error) {
+      console.error("Error deactivating ambulance type:", error);
+      res.status(500).json({ message: "Failed to deactivate ambulance type" });
+    }
+  });
+
+  // Hospital directory management
+  app.get("/api/admin/hospitals", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const allHospitals = await storage.getHospitals();
+      res.json(allHospitals);
+    } catch (error) {
+      console.error("Error fetching hospitals:", error);
+      res.status(500).json({ message: "Failed to fetch hospitals" });
+    }
+  });
+
+  app.post("/api/admin/hospitals", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const hospitalData = insertHospitalSchema.parse(req.body);
+      
+      const problem = await checkHospitalChange(hospitalData);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const hospital = await storage.createHospital(hospitalData);
+      res.status(201).json(hospital);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid hospital data", errors: error.errors });
+      }
+      console.error("Error creating hospital:", error);
+      res.status(500).json({ message: "Failed to create hospital" });
+    }
+  });
+
+  app.patch("/api/admin/hospitals/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const hospital = await storage.getHospitalById(parseInt(req.params.id));
+      
+      if (!hospital) {
+        return res.status(404).json({ message: "Hospital not found" });
+      }
+      
+      const update = insertHospitalSchema.partial().parse(req.body);
+      
+      const problem = await checkHospitalChange(update, hospital);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const updatedHospital = await storage.updateHospital(hospital.id, update);
+      res.json(updatedHospital);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid hospital data", errors: error.errors });
+      }
+      console.error("Error updating hospital:", error);
+      res.status(500).json({ message: "Failed to update hospital" });
+    }
+  });
+
+  // Hospitals are deactivated rather than deleted; past bookings still reference them
+  app.delete("/api/admin/hospitals/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const hospital = await storage.getHospitalById(parseInt(req.params.id));
+      
+      if (!hospital) {
+        return res.status(404).json({ message: "Hospital not found" });
+      }
+      
+      const updatedHospital = await storage.updateHospital(hospital.id, { isActive: false });
+      res.json(updatedHospital);
+    } catch (error) {
+      console.error("Error deactivating hospital:", error);
+      res.status(500).json({ message: "Failed to deactivate hospital" });
+    }
+  });
+
+  // Service areas - polygons a booking's pickup must fall inside
+  app.get("/api/admin/service-areas", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      res.json(await storage.getServiceAreas());
+    } catch (error) {
+      console.error("Error fetching service areas:", error);
+      res.status(500).json({ message: "Failed to fetch service areas" });
+    }
+  });
+
+  app.post("/api/admin/service-areas", async (req, res) => {
     try {
       if (req.user?.role !== "admin") {
         return res.status(403).json({ message: "Unauthorized. Admin access required." });
       }
       
-      // Get all drivers (users with role 'driver')
-      const drivers = await storage.getUsersByRole("driver");
-      res.json(drivers);
+      const areaData = insertServiceAreaSchema.parse(req.body);
+      const area = await storage.createServiceArea(areaData);
+      res.status(201).json(area);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service area data", errors: error.errors });
+      }
+      console.error("Error creating service area:", error);
+      res.status(500).json({ message: "Failed to create service area" });
+    }
+  });
+
+  app.patch("/api/admin/service-areas/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const area = await storage.getServiceAreaById(parseInt(req.params.id));
+      
+      if (!area) {
+        return res.status(404).json({ message: "Service area not found" });
+      }
+      
+      const update = insertServiceAreaSchema.partial().parse(req.body);
+      const updatedArea = await storage.updateServiceArea(area.id, update);
+      res.json(updatedArea);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service area data", errors: error.errors });
+      }
+      console.error("Error updating service area:", error);
+      res.status(500).json({ message: "Failed to update service area" });
+    }
+  });
+
+  // Nothing references an area, so unlike hospitals they can be removed outright
+  app.delete("/api/admin/service-areas/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const area = await storage.getServiceAreaById(parseInt(req.params.id));
+      
+      if (!area) {
+        return res.status(404).json({ message: "Service area not found" });
+      }
+      
+      await storage.deleteServiceArea(area.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting service area:", error);
+      res.status(500).json({ message: "Failed to delete service area" });
+    }
+  });
+
+  // Gazetteer import: a CSV body (see parseGazetteerCsv); ?replace=true swaps out the whole gazetteer.
+  // The role is checked before the potentially large body is read.
+  app.post("/api/admin/places/import", (req, res, next) => {
+    if (req.user?.role !== "admin") {
+      return res.status(403).json({ message: "Unauthorized. Admin access required." });
+    }
+    next();
+  }, express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || req.body.trim() === "") {
+        return res.status(400).json({ message: "Send the gazetteer as a CSV request body" });
+      }
+      
+      const { places, errors } = parseGazetteerCsv(req.body);
+      if (places.length === 0) {
+        return res.status(400).json({ message: "No valid places found", errors });
+      }
+      
+      const imported = await storage.importPlaces(places, req.query.replace === "true");
+      res.json({ imported, errors });
+    } catch (error) {
+      console.error("Error importing gazetteer:", error);
+      res.status(500).json({ message: "Failed to import gazetteer" });
+    }
+  });
+
+  // Fleet management - register, edit and decommission vehicles and assign drivers
+  app.post("/api/admin/ambulances", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const ambulanceData = insertAmbulanceSchema.parse(req.body);
+      
+      const problem = await checkFleetChange(ambulanceData);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const ambulance = await storage.createAmbulance(ambulanceData);
+      res.status(201).json(ambulance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ambulance data", errors: error.errors });
+      }
+      console.error("Error creating ambulance:", error);
+      res.status(500).json({ message: "Failed to create ambulance" });
+    }
+  });
+
+  app.patch("/api/admin/ambulances/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const ambulance = await storage.getAmbulanceById(parseInt(req.params.id));
+      
+      if (!ambulance) {
+        return res.status(404).json({ message: "Ambulance not found" });
+      }
+      
+      const update = insertAmbulanceSchema.partial().parse(req.body);
+      
+      const problem = await checkFleetChange(update, ambulance);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const updatedAmbulance = await storage.updateAmbulance(ambulance.id, update);
+      res.json(updatedAmbulance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ambulance data", errors: error.errors });
+      }
+      console.error("Error updating ambulance:", error);
+      res.status(500).json({ message: "Failed to update ambulance" });
+    }
+  });
+
+  // Decommissioned vehicles are kept so past bookings still resolve their ambulance
+  app.delete("/api/admin/ambulances/:id", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const ambulance = await storage.getAmbulanceById(parseInt(req.params.id));
+      
+      if (!ambulance) {
+        return res.status(404).json({ message: "Ambulance not found" });
+      }
+      
+      const problem = await checkFleetChange({}, ambulance);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const updatedAmbulance = await storage.updateAmbulance(ambulance.id, { status: "decommissioned", driverId: null });
+      res.json(updatedAmbulance);
+    } catch (error) {
+      console.error("Error decommissioning ambulance:", error);
+      res.status(500).json({ message: "Failed to decommission ambulance" });
+    }
+  });
+
+  app.post("/api/admin/ambulances/:id/driver", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const ambulance = await storage.getAmbulanceById(parseInt(req.params.id));
+      
+      if (!ambulance) {
+        return res.status(404).json({ message: "Ambulance not found" });
+      }
+      
+      // driverId: null unassigns the current driver
+      const { driverId } = insertAmbulanceSchema.pick({ driverId: true }).parse(req.body);
+      if (driverId === undefined) {
+        return res.status(400).json({ message: "driverId is required (null to unassign)" });
+      }
+      
+      const problem = await checkFleetChange({ driverId }, ambulance);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      
+      const updatedAmbulance = await storage.assignAmbulanceToDriver(ambulance.id, driverId);
+      res.json(updatedAmbulance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid driver assignment", errors: error.errors });
+      }
+      console.error("Error assigning driver:", error);
+      res.status(500).json({ message: "Failed to assign driver" });
+    }
+  });
+
+  app.post("/api/admin/payments/:id/refunds", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const payment = await storage.getPaymentById(parseInt(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const { amount, reason } = insertRefundSchema.pick({ amount: true, reason: true }).parse(req.body);
+      const refund = await refundPayment(payment, amount, reason, req.user.id);
+      res.status(201).json(refund);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refund data", errors: error.errors });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error refunding payment:", error);
+      res.status(500).json({ message: "Failed to refund payment" });
+    }
+  });
+
+  app.get("/api/admin/ledger", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const bookingId = req.query.bookingId ? parseInt(req.query.bookingId as string) : undefined;
+      const entries = await storage.getLedgerEntries(bookingId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching ledger:", error);
+      res.status(500).json({ message: "Failed to fetch ledger" });
+    }
+  });
+
+  // Review moderation - hidden reviews stay on the booking but no longer count towards ratings
+  app.get("/api/admin/reviews", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const [ratedBookings, patients, drivers, ambulances, driverRatings] = await Promise.all([
+        storage.getRatedBookings(),
+        storage.getUsersByRole("patient"),
+        storage.getUsersByRole("driver"),
+        storage.getAmbulances(),
+        storage.getRatingSummaries("driver"),
+      ]);
+      const fullName = (id: number | null, users: typeof drivers) => {
+        const user = users.find(user => user.id === id);
+        return user ? `${user.firstName} ${user.lastName}` : null;
+      };
+      
+      const reviews: AdminReview[] = ratedBookings.map(booking => ({
+        bookingId: booking.id,
+        rating: booking.rating!,
+        feedback: booking.feedback,
+        ratedAt: booking.ratedAt,
+        reviewStatus: booking.reviewStatus,
+        patientName: (booking.patientDetails as Partial<PatientDetails>).name || fullName(booking.userId, patients) || "Unknown",
+        driverId: booking.driverId,
+        driverName: fullName(booking.driverId, drivers),
+        ambulanceId: booking.ambulanceId,
+        ambulanceRegistration: ambulances.find(ambulance => ambulance.id === booking.ambulanceId)?.registrationNumber || null,
+      }));
+      
+      res.json({
+        reviews,
+        drivers: driverRatings.map(summary => ({ ...summary, name: fullName(summary.id, drivers) || `Driver #${summary.id}` })),
+      });
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.patch("/api/admin/reviews/:bookingId", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const { reviewStatus } = z.object({ reviewStatus: z.enum(reviewStatuses) }).parse(req.body);
+      const booking = await storage.getBookingById(parseInt(req.params.bookingId));
+      
+      if (!booking || booking.rating == null) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      const updatedBooking = await storage.updateReviewStatus(booking.id, reviewStatus, req.user.id);
+      res.json(updatedBooking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review status", errors: error.errors });
+      }
+      console.error("Error moderating review:", error);
+      res.status(500).json({ message: "Failed to update review" });
+    }
+  });
+
+  // Response-time KPIs - percentiles of each interval by day, zone or ambulance type
+  app.get("/api/admin/analytics/response-times", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const { from, to, groupBy } = responseTimeQuerySchema.parse(req.query);
+      const report = await buildResponseTimeReport(from, to, groupBy);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid analytics query", errors: error.errors });
+      }
+      console.error("Error building response-time report:", error);
+      res.status(500).json({ message: "Failed to build response-time report" });
+    }
+  });
+
+  // The per-booking intervals behind the report
+  app.get("/api/admin/analytics/response-times/bookings", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const { from, to } = responseTimeQuerySchema.parse(req.query);
+      const responseTimes = await getBookingResponseTimes(from, to);
+      res.json(responseTimes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid analytics query", errors: error.errors });
+      }
+      console.error("Error fetching booking response times:", error);
+      res.status(500).json({ message: "Failed to fetch booking response times" });
+    }
+  });
+
+  // Past emergency pickups per grid cell, for one hour of the week (the current one by default) or all of them
+  app.get("/api/admin/demand/heatmap", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const { hourOfWeek } = demandHeatmapQuerySchema.parse(req.query);
+      const heatmap = await getDemandHeatmap(hourOfWeek === "all" ? null : hourOfWeek ?? getHourOfWeek(new Date()));
+      res.json(heatmap);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid heatmap query", errors: error.errors });
+      }
+      console.error("Error building demand heatmap:", error);
+      res.status(500).json({ message: "Failed to build demand heatmap" });
+    }
+  });
+
+  // Forecast demand for the current hour and where to park the available fleet for it
+  app.get("/api/admin/demand/standby", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const plan = await planStandby();
+      res.json(plan);
+    } catch (error) {
+      console.error("Error planning standby locations:", error);
+      res.status(500).json({ message: "Failed to plan standby locations" });
+    }
+  });
+
+  // Which parts of the service areas the available fleet reaches within each target (minutes, ?targets=8,15)
+  app.get("/api/admin/coverage", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const { targets } = coverageQuerySchema.parse(req.query);
+      const report = await getCoverage(targets);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coverage query", errors: error.errors });
+      }
+      console.error("Error computing fleet coverage:", error);
+      res.status(500).json({ message: "Failed to compute fleet coverage" });
+    }
+  });
+
+  // Spreadsheet downloads; ?includePhi=true adds the patient health columns
+  app.get("/api/admin/exports/:dataset", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const dataset = z.enum(exportDatasets).parse(req.params.dataset);
+      const { format, includePhi, ...bookingFilter } = exportQuerySchema.parse(req.query);
+      await streamExport(res, dataset, format, { includePhi, bookingFilter });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      console.error("Error exporting data:", error);
+      // Once rows have gone out the download can only be cut short
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Audit log search, newest first; pass the last id seen as beforeId for the next page
+  app.get("/api/admin/audit", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const events = await storage.getAuditEvents(auditQuerySchema.parse(req.query));
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit query", errors: error.errors });
+      }
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get("/api/admin/drivers", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      // Get all drivers (users with role 'driver')
+      const drivers = await storage.getUsersByRole("driver");
+      res.json(drivers);
+    } catch (error) {
+      console.error("Error fetching drivers:", error);
+      res.status(500).json({ message: "Failed to fetch drivers" });
+    }
+  });
+
+  app.get("/api/admin/patients", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      // Get all patients (users with role 'patient')
+      const patients = await storage.getUsersByRole("patient");
+      res.json(patients);
+    } catch (error) {
+      console.error("Error fetching patients:", error);
+      res.status(500).json({ message: "Failed to fetch patients" });
+    }
+  });
+
+  app.get("/api/admin/alerts", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const alerts = await storage.getAdminAlerts(req.query.all === "true");
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching admin alerts:", error);
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.post("/api/admin/alerts/:id/acknowledge", async (req, res) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      }
+      
+      const alert = await storage.acknowledgeAdminAlert(parseInt(req.params.id), req.user.id);
+      res.json(alert);
+    } catch (error) {
+      console.error("Error acknowledging admin alert:", error);
+      res.status(500).json({ message: "Failed to acknowledge alert" });
+    }
+  });
+
+  // Secure routes - require authentication
+  app.post("/api/secure/bookings", async (req, res) => {
+    try {
+      // Log the received data for debugging
+      console.log("Received booking data:", JSON.stringify(req.body));
+
+      // Validate booking data
+      const bookingData = bookingRequestSchema.parse(req.body);
+      
+      // Validate patient details
+      const patientDetails = patientDetailsSchema.parse(bookingData.patientDetails);
+      
+      // Validate emergency contact if provided
+      if (bookingData.emergencyContact) {
+        emergencyContactSchema.parse(bookingData.emergencyContact);
+      }
+      
+      const ambulanceType = await storage.getAmbulanceTypeById(bookingData.ambulanceTypeId);
+      if (!ambulanceType || !ambulanceType.isActive) {
+        return res.status(400).json({ message: "Selected ambulance type is not available" });
+      }
+      
+      if (bookingData.hospitalId) {
+        const hospital = await storage.getHospitalById(bookingData.hospitalId);
+        if (!hospital || !hospital.isActive) {
+          return res.status(400).json({ message: "Selected hospital is not available" });
+        }
+      }
+      
+      const outOfArea = await checkServiceArea(bookingData.pickupLatitude, bookingData.pickupLongitude);
+      if (outOfArea) {
+        return res.status(422).json(outOfArea);
+      }
+      
+      // Recurring scheduled bookings are materialized into a series of bookings
+      if (req.body.recurrence && bookingData.bookingType === "scheduled") {
+        const recurrence = recurrenceSchema.parse(req.body.recurrence);
+        
+        if (!bookingData.scheduledTime || recurrence.endDate < bookingData.scheduledTime) {
+          return res.status(400).json({ message: "Recurrence end date must be on or after the first scheduled time" });
+        }
+        
+        const { bookings } = await createBookingSeries({
+          ...bookingData,
+          userId: req.user!.id,
+        }, recurrence);
+        
+        return res.status(201).json(bookings[0]);
+      }
+      
+      // Bookings are always made in the signed-in patient's name
+      const booking = await storage.createBooking({
+        ...bookingData,
+        userId: req.user!.id,
+      });
+      
+      // Emergency bookings are offered to the best ranked driver right away
+      await startDispatch(booking);
+      
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error("ZodError details:", JSON.stringify(error.errors));
+        return res.status(400).json({ 
+          message: "Invalid booking data", 
+          errors: error.errors 
+        });
+      }
+      console.error("Booking creation error:", error);
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
+  app.get("/api/secure/bookings", async (req, res) => {
+    try {
+      const bookings = await storage.getBookingsByUserId(req.user!.id);
+      res.json(bookings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  app.get("/api/secure/bookings/:id", async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Check if user is authorized to access this booking
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin" && req.user!.role !== "driver") {
+        return res.status(403).json({ message: "Unauthorized to access this booking" });
+      }
+      
+      res.json(booking);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch booking" });
+    }
+  });
+
+  app.get("/api/secure/bookings/:id/invoice", async (req, res) => {
+    try {
+      let booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Invoices carry billing details, so unlike the booking itself drivers can't fetch them
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to access this invoice" });
+      }
+      
+      if (booking.status !== "completed") {
+        return res.status(409).json({ message: "Invoices are only available for completed bookings" });
+      }
+      
+      // Bookings completed before fares were finalized are priced on first download
+      if (!booking.fareBreakdown) {
+        booking = await storage.setBookingFare(booking.id, await computeFinalFare(booking));
+      }
+      
+      const invoice = await getOrCreateInvoice(booking);
+      const doc = renderInvoicePdf(await loadInvoiceDetails(invoice, booking));
+      
+      const filename = `invoice-${formatInvoiceNumber(invoice).replace(/\//g, "-")}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      doc.pipe(res);
+      doc.end();
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  // Payments - patients pay by UPI or card; the crew or an admin records cash
+  app.get("/api/secure/bookings/:id/payments", async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to access this booking's payments" });
+      }
+      
+      res.json(await getBookingPaymentSummary(booking));
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/secure/bookings/:id/payments", async (req, res) => {
+    try {
+      const { method } = z.object({ method: z.enum(paymentMethods) }).parse(req.body);
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      if (method === "cash") {
+        // Cash is recorded by whoever received it, never by the patient
+        if (req.user!.role !== "admin" && !(await isAssignedDriver(booking, req.user!.id))) {
+          return res.status(403).json({ message: "Only the assigned crew or an admin can record cash payments" });
+        }
+      } else if (booking.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized to pay for this booking" });
+      }
+      
+      const payment = await createPayment(booking, method, method === "cash" ? req.user!.id : undefined);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment method", errors: error.errors });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating payment:", error);
+      res.status(500).json({ message: "Failed to create payment" });
+    }
+  });
+
+  // Completes a UPI/card checkout. With the mock gateway, `simulateFailure` exercises the declined path
+  app.post("/api/secure/payments/:id/confirm", async (req, res) => {
+    try {
+      const payment = await storage.getPaymentById(parseInt(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      if (payment.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized to confirm this payment" });
+      }
+      
+      const updatedPayment = await confirmPayment(payment, { simulateFailure: req.body?.simulateFailure === true });
+      res.json(updatedPayment);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error confirming payment:", error);
+      res.status(500).json({ message: "Failed to confirm payment" });
+    }
+  });
+
+  // Ratings - the patient rates a completed trip once
+  app.post("/api/secure/bookings/:id/rating", async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      if (booking.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized to rate this booking" });
+      }
+      
+      if (booking.status !== "completed") {
+        return res.status(409).json({ message: "Only completed trips can be rated" });
+      }
+      
+      const { rating, feedback } = bookingRatingSchema.parse(req.body);
+      const ratedBooking = await storage.rateBooking(booking.id, rating, feedback || null);
+      
+      if (!ratedBooking) {
+        return res.status(409).json({ message: "This trip has already been rated" });
+      }
+      
+      res.json(ratedBooking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rating", errors: error.errors });
+      }
+      console.error("Error rating booking:", error);
+      res.status(500).json({ message: "Failed to save rating" });
+    }
+  });
+
+  // Published ratings of the crew assigned to a booking, for the tracking card
+  app.get("/api/secure/bookings/:id/crew-rating", async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Check if user is authorized to access this booking
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin" && req.user!.role !== "driver") {
+        return res.status(403).json({ message: "Unauthorized to access this booking" });
+      }
+      
+      res.json({
+        ambulance: booking.ambulanceId ? await getRatingSummary("ambulance", booking.ambulanceId) : null,
+        driver: booking.driverId ? await getRatingSummary("driver", booking.driverId) : null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch crew rating" });
+    }
+  });
+
+  app.get("/api/secure/bookings/:id/status-updates", async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBookingById(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Check if user is authorized to access this booking
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin" && req.user!.role !== "driver") {
+        return res.status(403).json({ message: "Unauthorized to access this booking" });
+      }
+      
+      const statusUpdates = await storage.getBookingStatusUpdates(bookingId);
+      res.json(statusUpdates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch booking status updates" });
+    }
+  });
+
+  // Latest known position of the ambulance assigned to a booking; kept current over the realtime channel
+  app.get("/api/secure/bookings/:id/ambulance-location", async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Check if user is authorized to access this booking
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin" && req.user!.role !== "driver") {
+        return res.status(403).json({ message: "Unauthorized to access this booking" });
+      }
+      
+      const ambulance = booking.ambulanceId ? await storage.getAmbulanceById(booking.ambulanceId) : undefined;
+      
+      if (!ambulance || ambulance.latitude == null || ambulance.longitude == null) {
+        return res.json(null);
+      }
+      
+      const location: AmbulanceLocation = {
+        ambulanceId: ambulance.id,
+        latitude: ambulance.latitude,
+        longitude: ambulance.longitude,
+        recordedAt: new Date().toISOString(),
+      };
+      res.json(location);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ambulance location" });
+    }
+  });
+
+  app.post("/api/secure/bookings/:id/cancel", async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBookingById(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Check if user is authorized to cancel this booking
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to cancel this booking" });
+      }
+      
+      // Check if booking can be cancelled before withdrawing any open offer
+      const role = req.user!.role as BookingActorRole;
+      assertTransition(booking.status, "cancelled", role);
+      
+      await cancelPendingOffers(bookingId);
+      const updatedBooking = await storage.updateBookingStatus(bookingId, "cancelled", role);
+      res.json(updatedBooking);
     } catch (error) {
-      console.error("Error fetching drivers:", error);
-      res.status(500).json({ message: "Failed to fetch drivers" });
+      if (error instanceof BookingTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      res.status(500).json({ message: "Failed to cancel booking" });
     }
   });
 
-  app.get("/api/admin/patients", async (req, res) => {
+  // Recurring booking series - change one occurrence or the whole series
+  app.get("/api/secure/booking-series/:id", async (req, res) => {
     try {
-      if (req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Unauthorized. Admin access required." });
+      const series = await storage.getBookingSeriesById(parseInt(req.params.id));
+      
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
       }
       
-      // Get all patients (users with role 'patient')
-      const patients = await storage.getUsersByRole("patient");
-      res.json(patients);
+      if (series.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to access this booking series" });
+      }
+      
+      const bookings = await storage.getBookingsBySeriesId(series.id);
+      res.json({ ...series, bookings });
     } catch (error) {
-      console.error("Error fetching patients:", error);
-      res.status(500).json({ message: "Failed to fetch patients" });
+      res.status(500).json({ message: "Failed to fetch booking series" });
     }
   });
 
-  // Secure routes - require authentication
-  app.post("/api/secure/bookings", async (req, res) => {
+  app.post("/api/secure/booking-series/:id/cancel", async (req, res) => {
     try {
-      // Log the received data for debugging
-      console.log("Received booking data:", JSON.stringify(req.body));
-
-      // Validate booking data
-      const bookingData = insertBookingSchema.parse(req.body);
+      const series = await storage.getBookingSeriesById(parseInt(req.params.id));
       
-      // Validate patient details
-      const patientDetails = patientDetailsSchema.parse(bookingData.patientDetails);
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
       
-      // Validate emergency contact if provided
-      if (bookingData.emergencyContact) {
-        emergencyContactSchema.parse(bookingData.emergencyContact);
+      if (series.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to cancel this booking series" });
       }
       
-      // Add user ID from authenticated user if not already provided
-      const booking = await storage.createBooking({
-        ...bookingData,
-        userId: bookingData.userId || req.user!.id,
-      });
+      if (series.status === "cancelled") {
+        return res.status(400).json({ message: "Booking series is already cancelled" });
+      }
       
-      res.status(201).json(booking);
+      const cancelledBookings = await cancelSeries(series, req.user!.role as BookingActorRole);
+      res.json({ cancelled: cancelledBookings.length });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("ZodError details:", JSON.stringify(error.errors));
-        return res.status(400).json({ 
-          message: "Invalid booking data", 
-          errors: error.errors 
-        });
+      if (error instanceof BookingTransitionError) {
+        return sendTransitionConflict(res, error);
       }
-      console.error("Booking creation error:", error);
-      res.status(500).json({ message: "Failed to create booking" });
+      console.error("Error cancelling booking series:", error);
+      res.status(500).json({ message: "Failed to cancel booking series" });
     }
   });
 
-  app.get("/api/secure/bookings", async (req, res) => {
+  app.post("/api/secure/bookings/:id/skip", async (req, res) => {
     try {
-      const bookings = await storage.getBookingsByUserId(req.user!.id);
-      res.json(bookings);
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to change this booking" });
+      }
+      
+      if (!booking.seriesId) {
+        return res.status(400).json({ message: "Only occurrences of a recurring booking can be skipped" });
+      }
+      
+      assertTransition(booking.status, "skipped", req.user!.role as BookingActorRole);
+      
+      const updatedBooking = await skipOccurrence(booking, req.user!.role as BookingActorRole);
+      res.json(updatedBooking);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      if (error instanceof BookingTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      console.error("Error skipping booking:", error);
+      res.status(500).json({ message: "Failed to skip booking" });
     }
   });
 
-  app.get("/api/secure/bookings/:id", async (req, res) => {
+  app.post("/api/secure/bookings/:id/reschedule", async (req, res) => {
     try {
       const booking = await storage.getBookingById(parseInt(req.params.id));
       
@@ -189,67 +1454,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Booking not found" });
       }
       
-      // Check if user is authorized to access this booking
-      if (booking.userId !== req.user!.id && req.user!.role !== "admin" && req.user!.role !== "driver") {
-        return res.status(403).json({ message: "Unauthorized to access this booking" });
+      if (booking.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized to change this booking" });
       }
       
-      res.json(booking);
+      if (booking.bookingType !== "scheduled") {
+        return res.status(400).json({ message: "Only scheduled bookings can be rescheduled" });
+      }
+      
+      // Rescheduling puts the booking back to pending for the scheduler to dispatch again
+      assertTransition(booking.status, "pending", req.user!.role as BookingActorRole);
+      
+      const scheduledTime = new Date(req.body.scheduledTime);
+      if (isNaN(scheduledTime.getTime()) || scheduledTime <= new Date()) {
+        return res.status(400).json({ message: "A future scheduled time is required" });
+      }
+      
+      // Optionally move every later occurrence of the series by the same amount
+      if (req.body.applyToSeries && booking.seriesId) {
+        const series = await storage.getBookingSeriesById(booking.seriesId);
+        if (!series || series.status !== "active") {
+          return res.status(400).json({ message: "Booking series is no longer active" });
+        }
+        
+        const rescheduledBookings = await rescheduleSeries(series, booking, scheduledTime);
+        return res.json(rescheduledBookings);
+      }
+      
+      const updatedBooking = await rescheduleOccurrence(booking, scheduledTime);
+      res.json(updatedBooking);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch booking" });
+      if (error instanceof BookingTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      console.error("Error rescheduling booking:", error);
+      res.status(500).json({ message: "Failed to reschedule booking" });
     }
   });
 
-  app.get("/api/secure/bookings/:id/status-updates", async (req, res) => {
+  // Driver app - the driver's own ambulance, duty status and current job
+  app.get("/api/driver/ambulance", async (req, res) => {
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBookingById(bookingId);
+      const ambulance = await storage.getAmbulanceByDriverId(req.user!.id);
       
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!ambulance) {
+        return res.status(404).json({ message: "No ambulance assigned to this driver" });
       }
       
-      // Check if user is authorized to access this booking
-      if (booking.userId !== req.user!.id && req.user!.role !== "admin" && req.user!.role !== "driver") {
-        return res.status(403).json({ message: "Unauthorized to access this booking" });
+      res.json(ambulance);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ambulance" });
+    }
+  });
+
+  app.post("/api/driver/duty", async (req, res) => {
+    try {
+      const { onDuty } = req.body;
+      
+      if (typeof onDuty !== "boolean") {
+        return res.status(400).json({ message: "onDuty must be true or false" });
       }
       
-      const statusUpdates = await storage.getBookingStatusUpdates(bookingId);
-      res.json(statusUpdates);
+      const ambulance = await storage.getAmbulanceByDriverId(req.user!.id);
+      
+      if (!ambulance) {
+        return res.status(404).json({ message: "No ambulance assigned to this driver" });
+      }
+      
+      // Offered, reserved and assigned units have to finish (or hand back) their job first
+      const from = onDuty ? "off_duty" : "available";
+      if (ambulance.status !== from) {
+        return res.status(409).json({ message: `Cannot go ${onDuty ? "on" : "off"} duty while ambulance is ${ambulance.status}` });
+      }
+      
+      const updatedAmbulance = await storage.updateAmbulanceStatus(ambulance.id, onDuty ? "available" : "off_duty");
+      res.json(updatedAmbulance);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch booking status updates" });
+      res.status(500).json({ message: "Failed to update duty status" });
     }
   });
 
-  app.post("/api/secure/bookings/:id/cancel", async (req, res) => {
+  app.get("/api/driver/current-booking", async (req, res) => {
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBookingById(bookingId);
+      const ambulance = await storage.getAmbulanceByDriverId(req.user!.id);
       
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!ambulance) {
+        return res.status(404).json({ message: "No ambulance assigned to this driver" });
       }
       
-      // Check if user is authorized to cancel this booking
-      if (booking.userId !== req.user!.id && req.user!.role !== "admin") {
-        return res.status(403).json({ message: "Unauthorized to cancel this booking" });
-      }
+      const booking = await storage.getActiveBookingByAmbulanceId(ambulance.id);
       
-      // Check if booking can be cancelled
-      if (["completed", "cancelled"].includes(booking.status)) {
-        return res.status(400).json({ message: `Booking cannot be cancelled in ${booking.status} state` });
+      if (!booking) {
+        return res.json(null);
       }
       
-      const updatedBooking = await storage.updateBookingStatus(bookingId, "cancelled");
-      res.json(updatedBooking);
+      // The crew needs a number to call the patient on
+      const patient = await storage.getUser(booking.userId);
+      const hospital = booking.hospitalId ? await storage.getHospitalById(booking.hospitalId) : undefined;
+      
+      res.json({
+        ...booking,
+        patient: patient ? {
+          firstName: patient.firstName,
+          lastName: patient.lastName,
+          phoneNumber: patient.phoneNumber,
+        } : null,
+        hospital: hospital || null,
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to cancel booking" });
+      res.status(500).json({ message: "Failed to fetch current booking" });
     }
   });
 
   app.post("/api/driver/updateLocation", async (req, res) => {
     try {
-      const { latitude, longitude } = req.body;
+      const { latitude, longitude, speedKmh, heading, accuracyM } = req.body;
       
       if (!latitude || !longitude) {
         return res.status(400).json({ message: "Latitude and longitude are required" });
@@ -265,32 +1584,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update ambulance location
       const updatedAmbulance = await storage.updateAmbulanceLocation(ambulance.id, latitude, longitude);
       
-      // If ambulance is assigned to a booking, update the ETA
-      if (ambulance.status === "assigned") {
-        // Find active booking for this ambulance
-        const activeBooking = await storage.getActiveBookingByAmbulanceId(ambulance.id);
-        
-        if (activeBooking) {
-          // Calculate ETA (simplified version - in a real app this would use distance/traffic info)
-          const distanceToPickup = calculateDistance(
-            latitude, 
-            longitude, 
-            activeBooking.pickupLatitude, 
-            activeBooking.pickupLongitude
-          );
-          
-          const etaInSeconds = Math.round(distanceToPickup * 60); // Simple estimation
-          
-          // Add status update
-          await storage.addBookingStatusUpdate({
-            bookingId: activeBooking.id,
-            status: activeBooking.status,
-            latitude,
-            longitude,
-            eta: etaInSeconds,
-            message: `Driver is ${Math.round(distanceToPickup * 10) / 10} km away`,
-          });
+      // Find active booking for this ambulance, if it is assigned to (or reserved for) one
+      const activeBooking = ["assigned", "reserved"].includes(ambulance.status)
+        ? await storage.getActiveBookingByAmbulanceId(ambulance.id)
+        : undefined;
+      
+      const optionalNumber = (value: unknown) => typeof value === "number" && isFinite(value) ? value : null;
+      const fix = {
+        latitude,
+        longitude,
+        speedKmh: optionalNumber(speedKmh),
+        heading: optionalNumber(heading),
+        accuracyM: optionalNumber(accuracyM),
+      };
+      await recordLocationPing(ambulance.id, activeBooking?.id ?? null, fix);
+      
+      // Reaching the pickup or the hospital records the arrival for the crew
+      const arrivedBooking = activeBooking && await checkGeofences(activeBooking, fix).catch(error => {
+        console.error(`Error checking geofences for booking ${activeBooking.id}:`, error);
+        return undefined;
+      });
+      
+      // If ambulance is serving a booking, update the ETA (an arrival just recorded already carries the position)
+      if (activeBooking && !arrivedBooking) {
+        // The fare is charged on the distance driven with the patient onboard
+        if (activeBooking.status === "patient_onboard" && ambulance.latitude != null && ambulance.longitude != null) {
+          const segmentKm = calculateDistance(ambulance.latitude, ambulance.longitude, latitude, longitude);
+          if (segmentKm >= MIN_TRIP_SEGMENT_KM) {
+            await storage.addTripDistance(activeBooking.id, segmentKm);
+          }
         }
+        
+        // Once the patient is onboard the ETA is to the destination rather than the pickup
+        const towardsDestination = activeBooking.status === "patient_onboard" &&
+          activeBooking.destinationLatitude != null && activeBooking.destinationLongitude != null;
+        const route = towardsDestination
+          ? findRoute([latitude, longitude], [activeBooking.destinationLatitude!, activeBooking.destinationLongitude!])
+          : findRoute([latitude, longitude], [activeBooking.pickupLatitude, activeBooking.pickupLongitude]);
+        
+        // Add status update
+        await storage.addBookingStatusUpdate({
+          bookingId: activeBooking.id,
+          status: activeBooking.status,
+          latitude,
+          longitude,
+          eta: route.durationSeconds,
+          message: towardsDestination
+            ? `${Math.round(route.distanceKm * 10) / 10} km to destination`
+            : `Driver is ${Math.round(route.distanceKm * 10) / 10} km away`,
+        });
       }
       
       res.json(updatedAmbulance);
@@ -301,12 +1643,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/driver/updateBookingStatus", async (req, res) => {
     try {
-      const { bookingId, status, latitude, longitude, message } = req.body;
+      const { bookingId, status, latitude, longitude, message, cashCollected } = req.body;
       
       if (!bookingId || !status) {
         return res.status(400).json({ message: "Booking ID and status are required" });
       }
       
+      if (!isBookingStatus(status)) {
+        return res.status(400).json({ message: `Unknown booking status: ${status}` });
+      }
+      
       const booking = await storage.getBookingById(bookingId);
       
       if (!booking) {
@@ -325,8 +1671,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Driver not assigned to this booking" });
       }
       
+      // Repeated taps, or an arrival the geofence already recorded
+      if (booking.status === status) {
+        return res.json(booking);
+      }
+      
       // Update booking status
-      const updatedBooking = await storage.updateBookingStatus(bookingId, status);
+      let updatedBooking = await storage.updateBookingStatus(bookingId, status, req.user!.role as BookingActorRole);
+      
+      if (status === "completed") {
+        updatedBooking = await storage.setBookingFare(bookingId, await computeFinalFare(updatedBooking));
+        // Issue the invoice now so numbers follow completion order; downloading retries if this fails
+        await getOrCreateInvoice(updatedBooking).catch(error =>
+          console.error(`Error issuing invoice for booking ${bookingId}:`, error)
+        );
+        // The crew took the fare in cash at drop-off
+        if (cashCollected === true) {
+          await createPayment(updatedBooking, "cash", req.user!.id).catch(error =>
+            console.error(`Error recording cash payment for booking ${bookingId}:`, error)
+          );
+          updatedBooking = (await storage.getBookingById(bookingId)) || updatedBooking;
+        }
+      }
       
       // Add status update
       await storage.addBookingStatusUpdate({
@@ -341,31 +1707,359 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedBooking);
     } catch (error) {
+      if (error instanceof BookingTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
       res.status(500).json({ message: "Failed to update booking status" });
     }
   });
 
+  // Dispatch offers - the driver must accept a job before the booking is assigned
+  app.get("/api/driver/offers", async (req, res) => {
+    try {
+      const offers = await storage.getPendingDispatchOffersByDriverId(req.user!.id);
+      
+      // Include enough of the booking for the driver to decide
+      const offersWithBookings = await Promise.all(offers.map(async (offer) => {
+        const booking = await storage.getBookingById(offer.bookingId);
+        return {
+          ...offer,
+          booking: booking ? {
+            id: booking.id,
+            bookingType: booking.bookingType,
+            ambulanceTypeId: booking.ambulanceTypeId,
+            pickupAddress: booking.pickupAddress,
+            pickupLatitude: booking.pickupLatitude,
+            pickupLongitude: booking.pickupLongitude,
+            destinationAddress: booking.destinationAddress,
+          } : null,
+        };
+      }));
+      
+      res.json(offersWithBookings);
+    } catch (error) {
+      console.error("Error fetching dispatch offers:", error);
+      res.status(500).json({ message: "Failed to fetch dispatch offers" });
+    }
+  });
+
+  app.post("/api/driver/offers/:id/accept", async (req, res) => {
+    try {
+      const offer = await storage.getDispatchOfferById(parseInt(req.params.id));
+      
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      if (offer.driverId !== req.user!.id) {
+        return res.status(403).json({ message: "This offer was not made to you" });
+      }
+      
+      if (offer.status !== "pending") {
+        return res.status(409).json({ message: `Offer is already ${offer.status}` });
+      }
+      
+      // The expiry timer may not have fired yet
+      if (new Date(offer.expiresAt).getTime() <= Date.now()) {
+        await expireOffer(offer.id);
+        return res.status(409).json({ message: "Offer has expired" });
+      }
+      
+      const booking = await acceptOffer(offer);
+      res.json(booking);
+    } catch (error) {
+      if (error instanceof BookingTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      console.error("Error accepting dispatch offer:", error);
+      res.status(500).json({ message: "Failed to accept offer" });
+    }
+  });
+
+  app.post("/api/driver/offers/:id/decline", async (req, res) => {
+    try {
+      const offer = await storage.getDispatchOfferById(parseInt(req.params.id));
+      
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      if (offer.driverId !== req.user!.id) {
+        return res.status(403).json({ message: "This offer was not made to you" });
+      }
+      
+      if (offer.status !== "pending") {
+        return res.status(409).json({ message: `Offer is already ${offer.status}` });
+      }
+      
+      const declinedOffer = await declineOffer(offer, req.body?.reason);
+      res.json(declinedOffer);
+    } catch (error) {
+      console.error("Error declining dispatch offer:", error);
+      res.status(500).json({ message: "Failed to decline offer" });
+    }
+  });
+
   const httpServer = createServer(app);
+  
+  // Push booking status updates and ambulance positions to subscribed clients
+  setupRealtime(httpServer, sessionMiddleware);
 
   return httpServer;
 }
 
-// Helper function to calculate distance between two points (in km)
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-  const distance = R * c; // Distance in km
-  return distance;
+// Business rules for admin fleet changes on top of insertAmbulanceSchema.
+// Pass an empty change with `existing` to check whether a vehicle may be decommissioned.
+async function checkFleetChange(
+  change: Partial<InsertAmbulance>,
+  existing?: Ambulance
+): Promise<{ status: number; message: string } | null> {
+  if (existing?.status === "decommissioned") {
+    return { status: 409, message: "Ambulance has been decommissioned" };
+  }
+  
+  // Dispatch owns units that are offered, reserved or on a job
+  if (existing && ["offered", "reserved", "assigned"].includes(existing.status)) {
+    const changesAllowedOnJob = Object.keys(change).every(key => key === "latitude" || key === "longitude");
+    if (Object.keys(change).length === 0 || !changesAllowedOnJob) {
+      return { status: 409, message: `Ambulance is ${existing.status}; wait until its job is finished` };
+    }
+  }
+  
+  if (change.registrationNumber !== undefined) {
+    const registrationNumber = change.registrationNumber.trim();
+    if (!registrationNumber) {
+      return { status: 400, message: "Registration number is required" };
+    }
+    const allAmbulances = await storage.getAmbulances();
+    if (allAmbulances.some(ambulance => ambulance.id !== existing?.id && ambulance.registrationNumber.toLowerCase() === registrationNumber.toLowerCase())) {
+      return { status: 409, message: `Registration number ${registrationNumber} is already in the fleet` };
+    }
+  }
+  
+  if (change.typeId !== undefined && !(await storage.getAmbulanceTypeById(change.typeId))) {
+    return { status: 400, message: `Ambulance type ${change.typeId} does not exist` };
+  }
+  
+  if (change.status !== undefined && !(adminAmbulanceStatuses as readonly string[]).includes(change.status)) {
+    return { status: 400, message: `Status must be one of: ${adminAmbulanceStatuses.join(", ")}` };
+  }
+  
+  if (change.driverId != null) {
+    const driver = await storage.getUser(change.driverId);
+    if (!driver || driver.role !== "driver") {
+      return { status: 400, message: `User ${change.driverId} is not a driver` };
+    }
+    const current = await storage.getAmbulanceByDriverId(change.driverId);
+    if (current && current.id !== existing?.id) {
+      return { status: 409, message: `Driver is already assigned to ${current.registrationNumber}` };
+    }
+  }
+  
+  return null;
+}
+
+// Business rules for catalog changes on top of insertAmbulanceTypeSchema
+async function checkAmbulanceTypeChange(
+  change: Partial<InsertAmbulanceType>,
+  existing?: AmbulanceType
+): Promise<{ status: number; message: string } | null> {
+  const allTypes = await storage.getAmbulanceTypes();
+  
+  if (change.name !== undefined && allTypes.some(type => type.id !== existing?.id && type.name.toLowerCase() === change.name!.toLowerCase())) {
+    return { status: 409, message: `An ambulance type named ${change.name} already exists` };
+  }
+  
+  if (change.upgradeTypeIds) {
+    const unknownIds = change.upgradeTypeIds.filter(id => id === existing?.id || !allTypes.some(type => type.id === id));
+    if (unknownIds.length > 0) {
+      return { status: 400, message: `Invalid upgrade types: ${unknownIds.join(", ")}` };
+    }
+  }
+  
+  return null;
+}
+
+// Business rules for directory changes on top of insertHospitalSchema
+async function checkHospitalChange(
+  change: Partial<InsertHospital>,
+  existing?: Hospital
+): Promise<{ status: number; message: string } | null> {
+  // Chains share a name across branches, so only the same name at the same address is a duplicate
+  const name = (change.name ?? existing?.name ?? "").toLowerCase();
+  const address = (change.address ?? existing?.address ?? "").toLowerCase();
+  const allHospitals = await storage.getHospitals();
+  
+  if (allHospitals.some(hospital => hospital.id !== existing?.id && hospital.name.toLowerCase() === name && hospital.address.toLowerCase() === address)) {
+    return { status: 409, message: `${change.name ?? existing?.name} is already listed at this address` };
+  }
+  
+  return null;
+}
+
+const placeSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+const reverseGeocodeQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+const responseTimeQuerySchema = z.object({
+  from: z.coerce.date().default(() => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+  to: z.coerce.date().default(() => new Date()),
+  groupBy: z.enum(responseTimeGroupings).default("day"),
+}).refine(query => query.from < query.to, {
+  message: "from must be before to",
+  path: ["from"],
+}).refine(query => query.to.getTime() - query.from.getTime() <= analyticsConfig.maxRangeDays * 24 * 60 * 60 * 1000, {
+  message: `The range can cover at most ${analyticsConfig.maxRangeDays} days`,
+  path: ["to"],
+});
+
+const demandHeatmapQuerySchema = z.object({
+  hourOfWeek: z.union([z.literal("all"), z.coerce.number().int().min(0).max(HOURS_PER_WEEK - 1)]).optional(),
+});
+
+// targets is a comma separated list of whole minutes, e.g. "8,15"
+const coverageQuerySchema = z.object({
+  targets: z.string().optional().transform((value, ctx) => {
+    if (!value) return DEFAULT_COVERAGE_TARGETS_MINUTES;
+    const targets = Array.from(new Set(value.split(",").map(part => Number(part.trim())))).sort((a, b) => a - b);
+    if (targets.length > 4 || targets.some(target => !Number.isInteger(target) || target < 1 || target > 60)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Give up to 4 targets, each a whole number of minutes from 1 to 60" });
+      return z.NEVER;
+    }
+    return targets;
+  }),
+});
+
+// Filters after format and includePhi only apply to bookings; status is a comma separated list
+const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+  includePhi: z.enum(["true", "false"]).optional().transform(value => value === "true"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  status: z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const statuses = value.split(",").map(item => item.trim());
+    const unknown = statuses.find(item => !isBookingStatus(item));
+    if (unknown) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status: ${unknown}` });
+      return z.NEVER;
+    }
+    return statuses;
+  }),
+  type: z.enum(["emergency", "scheduled"]).optional(),
+  hospitalId: z.coerce.number().int().positive().optional(),
+}).transform(({ status, type, ...query }) => ({ ...query, statuses: status, bookingType: type }));
+
+const auditQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  kind: z.enum(auditEventKinds).optional(),
+  entityType: z.string().trim().max(50).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  beforeId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const routeQuerySchema = z.object({
+  fromLat: z.coerce.number().min(-90).max(90),
+  fromLng: z.coerce.number().min(-180).max(180),
+  toLat: z.coerce.number().min(-90).max(90),
+  toLng: z.coerce.number().min(-180).max(180),
+});
+
+// Query string for GET /api/hospitals; specialty is a comma separated list the hospital must all offer
+const hospitalQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().optional(),
+  specialty: z.string().optional().transform((value, ctx) => {
+    const specialties: HospitalSpecialty[] = [];
+    for (const item of (value || "").split(",").filter(item => item.trim())) {
+      const specialty = normalizeSpecialty(item);
+      if (!specialty) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown specialty: ${item}` });
+        return z.NEVER;
+      }
+      specialties.push(specialty);
+    }
+    return specialties;
+  }),
+  openNow: z.enum(["true", "false"]).optional().transform(value => value === "true"),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(MAX_HOSPITAL_PAGE_SIZE).optional(),
+});
+
+// Operating hours are local to the hospitals, which are all in India
+function isHospitalOpen(hospital: Hospital, at: Date): boolean {
+  if (!hospital.operatingHours) return true; // open 24x7
+  
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: HOSPITAL_TIME_ZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || "";
+  const day = part("weekday").toLowerCase() as WeekDay;
+  const time = `${part("hour")}:${part("minute")}`;
+  
+  const hours = (hospital.operatingHours as OperatingHours)[day];
+  if (!hours) return false;
+  // Windows that close past midnight (e.g. 20:00-02:00) wrap around
+  return hours.open <= hours.close
+    ? time >= hours.open && time < hours.close
+    : time >= hours.open || time < hours.close;
+}
+
+// Price a completed booking from its recorded trip; see calculateFinalFare
+async function computeFinalFare(booking: Booking): Promise<FareBreakdown> {
+  const ambulanceType = booking.ambulanceTypeId ? await storage.getAmbulanceTypeById(booking.ambulanceTypeId) : undefined;
+  if (!ambulanceType) {
+    throw new Error(`Ambulance type for booking ${booking.id} not found`);
+  }
+  
+  const statusUpdates = await storage.getBookingStatusUpdates(booking.id);
+  
+  // Fall back to the road distance the estimate used when the ambulance didn't share its location
+  let distanceKm = booking.tripDistanceKm;
+  if (distanceKm == null) {
+    distanceKm = booking.destinationLatitude != null && booking.destinationLongitude != null
+      ? findRoute([booking.pickupLatitude, booking.pickupLongitude], [booking.destinationLatitude, booking.destinationLongitude]).distanceKm
+      : 0;
+  }
+  
+  return calculateFinalFare(booking, ambulanceType, statusUpdates, distanceKm);
+}
+
+async function getRatingSummary(subject: "driver" | "ambulance", id: number): Promise<RatingSummary> {
+  const summary = (await storage.getRatingSummaries(subject)).find(summary => summary.id === id);
+  return summary ? { average: summary.average, count: summary.count } : { average: null, count: 0 };
+}
+
+async function isAssignedDriver(booking: Booking, userId: number): Promise<boolean> {
+  const ambulance = await storage.getAmbulanceByDriverId(userId);
+  return !!ambulance && booking.ambulanceId === ambulance.id;
 }
 
-function deg2rad(deg: number): number {
-  return deg * (Math.PI/180);
+// Respond to a disallowed booking status change with the states that are allowed instead
+function sendTransitionConflict(res: Response, error: BookingTransitionError) {
+  return res.status(error.status).json({
+    message: error.message,
+    currentStatus: error.from,
+    requestedStatus: error.to,
+    allowedNextStatuses: error.allowedNextStatuses,
+  });
 }
 
 // Seed initial data for ambulance types and hospitals
@@ -388,110 +2082,227 @@ async function seedInitialData() {
     console.log("Admin user created with username: admin and password: admin");
   }
   
-  // Seed ambulance types
-  const ambulanceTypesData = [
+  // Seed ambulance types - the catalog is managed by admins after this
+  const ambulanceTypesData: InsertAmbulanceType[] = [
     {
       name: "Basic Life Support",
       description: "For non-critical transport with basic medical care",
       basePrice: 1500,
       pricePerKm: 25,
-      icon: "ambulance"
+      icon: "ambulance",
+      features: [
+        "Basic medical monitoring equipment",
+        "Trained Emergency Medical Technicians (EMTs)",
+        "Oxygen administration",
+        "First aid supplies",
+        "Suitable for stable patients"
+      ],
+      idealFor: "Medical appointments, hospital discharges, inter-facility transfers for stable patients",
+      equipment: ["Oxygen cylinder", "Stretcher", "BP monitor", "Pulse oximeter", "First aid kit"],
+      isPopular: true
     },
     {
       name: "Advanced Life Support",
       description: "For critical patients requiring advanced care",
       basePrice: 3000,
       pricePerKm: 45,
-      icon: "heartbeat"
+      icon: "heartbeat",
+      features: [
+        "Advanced cardiac monitoring",
+        "IV administration capabilities",
+        "Advanced airway management",
+        "Paramedics in addition to EMTs",
+        "Medications for emergency treatment"
+      ],
+      idealFor: "Cardiac patients, respiratory distress, trauma cases, emergency response",
+      equipment: ["Cardiac monitor", "Defibrillator", "Suction unit", "Infusion pump", "Airway kit"],
+      isPopular: true
     },
     {
       name: "Neonatal",
       description: "Specialized transport for newborns",
       basePrice: 4000,
       pricePerKm: 60,
-      icon: "baby"
+      icon: "baby",
+      features: [
+        "Neonatal incubator",
+        "Specialized neonatal equipment",
+        "Neonatal respiratory support",
+        "Temperature control systems",
+        "Neonatal specialists on board"
+      ],
+      idealFor: "Premature babies, neonates requiring specialized care, NICU transfers",
+      equipment: ["Transport incubator", "Neonatal ventilator", "Infant warmer", "Neonatal monitor"]
     },
     {
       name: "ICU on Wheels",
       description: "Mobile intensive care unit for critical patients",
       basePrice: 5000,
       pricePerKm: 75,
-      icon: "hospital"
+      icon: "hospital",
+      features: [
+        "Full ICU equipment suite",
+        "Ventilator support",
+        "Critical care monitoring",
+        "ICU specialist on board",
+        "Blood gas analysis capabilities"
+      ],
+      idealFor: "Critical care patients, ventilator-dependent patients, complex medical cases",
+      equipment: ["Transport ventilator", "Multi-parameter monitor", "Defibrillator", "Syringe pumps", "Blood gas analyzer"]
     },
     {
       name: "Mental Health",
       description: "Specialized transport with mental health professionals",
       basePrice: 2500,
       pricePerKm: 35,
-      icon: "brain"
+      icon: "brain",
+      features: [
+        "Secure patient compartment",
+        "Mental health specialists",
+        "De-escalation trained staff",
+        "Comfortable environment",
+        "Privacy considerations"
+      ],
+      idealFor: "Psychiatric patients, behavioral health transfers, crisis situations",
+      equipment: ["Padded secure compartment", "Soft restraints", "Basic monitoring equipment"]
     },
     {
       name: "Pet Ambulance",
       description: "Emergency transport for pets",
       basePrice: 2000,
       pricePerKm: 30,
-      icon: "paw"
+      icon: "paw",
+      features: [
+        "Veterinary first aid equipment",
+        "Oxygen therapy for animals",
+        "Animal restraint systems",
+        "Temperature control",
+        "Trained in animal handling"
+      ],
+      idealFor: "Injured pets, emergency veterinary care, pet hospital transfers",
+      equipment: ["Pet oxygen masks", "Animal stretcher", "Veterinary first aid kit", "Climate-controlled crate"]
     }
   ];
 
+  // Which types may stand in for another when dispatching (requested type -> upgrades)
+  const ambulanceTypeUpgrades: Record<string, string[]> = {
+    "Basic Life Support": ["Advanced Life Support", "ICU on Wheels"],
+    "Advanced Life Support": ["ICU on Wheels"],
+  };
+
   // Only seed if no ambulance types exist
   const existingTypes = await storage.getAmbulanceTypes();
   if (existingTypes.length === 0) {
     for (const type of ambulanceTypesData) {
       await storage.createAmbulanceType(type);
     }
+  } else {
+    // Databases seeded before the catalog columns existed only have name and pricing
+    for (const type of existingTypes) {
+      const catalog = ambulanceTypesData.find(t => t.name === type.name);
+      if (catalog && !type.features) {
+        await storage.updateAmbulanceType(type.id, {
+          features: catalog.features,
+          idealFor: catalog.idealFor,
+          equipment: catalog.equipment,
+          isPopular: catalog.isPopular
+        });
+      }
+    }
+  }
+
+  // Upgrade paths, backfilled on databases seeded before they existed; a type whose upgrades an admin has set (even to none) is left alone
+  const allTypes = await storage.getAmbulanceTypes();
+  for (const type of allTypes) {
+    const upgradeNames = ambulanceTypeUpgrades[type.name];
+    if (upgradeNames && type.upgradeTypeIds == null) {
+      await storage.updateAmbulanceType(type.id, {
+        upgradeTypeIds: allTypes.filter(t => upgradeNames.includes(t.name)).map(t => t.id)
+      });
+    }
   }
 
   // Seed hospitals
-  const hospitalsData = [
+  const hospitalsData: InsertHospital[] = [
     {
       name: "AIIMS Bangalore",
       address: "Bengaluru Urban, Karnataka 560016",
       latitude: 12.9174,
       longitude: 77.5990,
-      specialties: ["Emergency", "Trauma", "Cardiac", "Neurology"]
+      specialties: ["emergency", "trauma", "cardiology", "neurology"],
+      phone: "080-2657-0100",
+      edPhone: "080-2657-0108"
     },
     {
       name: "Manipal Hospital",
       address: "Old Airport Road, Bengaluru 560017",
       latitude: 12.9558,
       longitude: 77.6491,
-      specialties: ["Pediatric", "Emergency", "Oncology", "Cardiology"]
+      specialties: ["pediatrics", "emergency", "oncology", "cardiology"],
+      phone: "080-2502-4444",
+      edPhone: "080-2502-3030"
     },
     {
       name: "Fortis Hospital",
       address: "Bannerghatta Road, Bengaluru 560076",
       latitude: 12.8911,
       longitude: 77.5962,
-      specialties: ["Cardiac", "Orthopedic", "Emergency", "Transplant"]
+      specialties: ["cardiology", "orthopedics", "emergency", "transplant"],
+      phone: "080-6621-4444",
+      edPhone: "080-6621-4105"
     },
     {
       name: "Narayana Hrudayalaya",
       address: "Electronic City, Bengaluru 560100",
       latitude: 12.8429,
       longitude: 77.6474,
-      specialties: ["Cardiac", "Emergency", "Pediatric", "Neurosurgery"]
+      specialties: ["cardiology", "emergency", "pediatrics", "neurosurgery"],
+      phone: "080-7122-2222",
+      edPhone: "080-7122-2200"
     },
     {
       name: "BGS Gleneagles Global Hospital",
       address: "67, Uttarahalli Main Rd, Sunkalpalya, Bengaluru",
       latitude: 12.9276,
       longitude: 77.5477,
-      specialties: ["Multi-Organ Transplant", "Cancer Care", "Neurosciences", "Cardiac Sciences"]
+      specialties: ["transplant", "oncology", "neurology", "cardiology"],
+      phone: "080-2625-5555",
+      edPhone: "080-2625-5500"
     },
     {
       name: "Jayadeva Memorial Hospital",
       address: "Jayanagar, Bengaluru",
       latitude: 12.9278,
       longitude: 77.5943,
-      specialties: ["Orthopedics", "Rheumatology", "Arthritis Care"]
+      specialties: ["orthopedics", "rheumatology"],
+      phone: "080-2653-4600",
+      // Outpatient specialty centre without a 24-hour emergency department
+      operatingHours: {
+        mon: { open: "09:00", close: "18:00" },
+        tue: { open: "09:00", close: "18:00" },
+        wed: { open: "09:00", close: "18:00" },
+        thu: { open: "09:00", close: "18:00" },
+        fri: { open: "09:00", close: "18:00" },
+        sat: { open: "09:00", close: "13:00" },
+        sun: null
+      }
     },
     {
       name: "Sanjeevani Specialty Healthcare",
       address: "Bannerghatta Road, Bengaluru",
       latitude: 12.8933,
       longitude: 77.5996,
-      specialties: ["General Medicine", "Diabetes Care", "Cardiology"]
+      specialties: ["general_medicine", "endocrinology", "cardiology"],
+      phone: "080-4090-1234",
+      operatingHours: {
+        mon: { open: "08:00", close: "20:00" },
+        tue: { open: "08:00", close: "20:00" },
+        wed: { open: "08:00", close: "20:00" },
+        thu: { open: "08:00", close: "20:00" },
+        fri: { open: "08:00", close: "20:00" },
+        sat: { open: "08:00", close: "20:00" },
+        sun: { open: "09:00", close: "14:00" }
+      }
     }
   ];
 
@@ -501,6 +2312,49 @@ async function seedInitialData() {
     for (const hospital of hospitalsData) {
       await storage.createHospital(hospital);
     }
+  } else {
+    // Databases seeded before the specialty taxonomy stored free-text specialties
+    for (const hospital of existingHospitals) {
+      if (hospital.specialties.every(isHospitalSpecialty)) continue;
+      
+      const specialties = hospital.specialties
+        .map(normalizeSpecialty)
+        .filter((specialty): specialty is HospitalSpecialty => !!specialty);
+      const seed = hospitalsData.find(h => h.name === hospital.name);
+      await storage.updateHospital(hospital.id, {
+        specialties: Array.from(new Set(specialties)),
+        ...(seed && !hospital.phone ? {
+          phone: seed.phone,
+          edPhone: seed.edPhone,
+          operatingHours: seed.operatingHours
+        } : {})
+      });
+    }
+  }
+
+  // A starter gazetteer so address search works before a full one is imported
+  if (await storage.countPlaces() === 0) {
+    const placesData: InsertPlace[] = [
+      { name: "MG Road", kind: "locality", city: "Bengaluru", pincode: "560001", latitude: 12.9756, longitude: 77.6050, rank: 10 },
+      { name: "Malleshwaram", kind: "locality", city: "Bengaluru", pincode: "560003", latitude: 13.0035, longitude: 77.5710, rank: 5 },
+      { name: "Rajajinagar", kind: "locality", city: "Bengaluru", pincode: "560010", latitude: 12.9915, longitude: 77.5530, rank: 5 },
+      { name: "Hebbal", kind: "locality", city: "Bengaluru", pincode: "560024", latitude: 13.0358, longitude: 77.5970, rank: 5 },
+      { name: "Koramangala", kind: "locality", city: "Bengaluru", pincode: "560034", latitude: 12.9352, longitude: 77.6245, rank: 8 },
+      { name: "Indiranagar", kind: "locality", city: "Bengaluru", pincode: "560038", latitude: 12.9719, longitude: 77.6412, rank: 8 },
+      { name: "Jayanagar", kind: "locality", city: "Bengaluru", pincode: "560041", latitude: 12.9299, longitude: 77.5826, rank: 8 },
+      { name: "Yelahanka", kind: "locality", city: "Bengaluru", pincode: "560064", latitude: 13.1005, longitude: 77.5963, rank: 5 },
+      { name: "Whitefield", kind: "locality", city: "Bengaluru", pincode: "560066", latitude: 12.9698, longitude: 77.7500, rank: 8 },
+      { name: "BTM Layout", kind: "locality", city: "Bengaluru", pincode: "560076", latitude: 12.9166, longitude: 77.6101, rank: 6 },
+      { name: "Electronic City", kind: "locality", city: "Bengaluru", pincode: "560100", latitude: 12.8452, longitude: 77.6602, rank: 6 },
+      { name: "HSR Layout", kind: "locality", city: "Bengaluru", pincode: "560102", latitude: 12.9116, longitude: 77.6389, rank: 6 },
+      { name: "Cubbon Park", kind: "landmark", locality: "MG Road", city: "Bengaluru", pincode: "560001", latitude: 12.9763, longitude: 77.5929, rank: 10 },
+      { name: "Lalbagh Botanical Garden", kind: "landmark", locality: "Jayanagar", city: "Bengaluru", pincode: "560004", latitude: 12.9507, longitude: 77.5848, rank: 10 },
+      { name: "Kempegowda Bus Station (Majestic)", kind: "landmark", locality: "Gandhi Nagar", city: "Bengaluru", pincode: "560009", latitude: 12.9774, longitude: 77.5711, rank: 15 },
+      { name: "KSR Bengaluru City Railway Station", kind: "landmark", locality: "Gandhi Nagar", city: "Bengaluru", pincode: "560023", latitude: 12.9779, longitude: 77.5697, rank: 15 },
+      { name: "Forum Mall", kind: "landmark", locality: "Koramangala", city: "Bengaluru", pincode: "560095", latitude: 12.9346, longitude: 77.6113, rank: 8 },
+      { name: "Kempegowda International Airport", kind: "landmark", locality: "Devanahalli", city: "Bengaluru", pincode: "560300", latitude: 13.1986, longitude: 77.7066, rank: 15 },
+    ];
+    await storage.importPlaces(placesData, false);
   }
 
   // Seed available ambulances
@@ -0,0 +1,409 @@
+import fs from "fs";
+import path from "path";
+import { calculateDistance } from "@shared/geo";
+import type { Route, RoadGraphFile } from "@shared/routing";
+
+/**
+ * Shortest-time routing over a local road graph (see scripts/build-road-graph.ts).
+ * Nothing here touches the network. Without a graph, or for points too far from
+ * any road, routes fall back to a straight-line estimate.
+ */
+export const routingConfig = {
+  graphPath: process.env.ROAD_GRAPH_PATH || path.join(process.cwd(), "data", "road-graph.json"),
+  // Points further than this from the nearest road node are treated as off the network
+  maxSnapMeters: 1000,
+  // Getting between a point and its nearest road node, e.g. a driveway or campus road
+  accessSpeedKmh: 15,
+  // Straight-line fallback: roads are rarely straight, and city traffic averages ~30 km/h
+  fallbackDetourFactor: 1.3,
+  fallbackSpeedKmh: 30,
+  // Searches from many origins give up beyond this
+  maxSearchSeconds: 2 * 60 * 60,
+  routeCacheSize: 500,
+};
+
+const GRID_CELL_DEGREES = 0.005; // ~550 m
+
+interface RoadGraph {
+  nodeCount: number;
+  lat: Float64Array;
+  lng: Float64Array;
+  // Compressed adjacency: edges out of node i are offsets[i]..offsets[i + 1]
+  outOffsets: Int32Array;
+  outTargets: Int32Array;
+  outSeconds: Float32Array;
+  outMeters: Float32Array;
+  // The same edges reversed, for searching backwards from a destination
+  inOffsets: Int32Array;
+  inSources: Int32Array;
+  inSeconds: Float32Array;
+  inMeters: Float32Array;
+  maxSpeedMps: number;
+  grid: Map<string, number[]>;
+}
+
+// undefined: not loaded yet; null: no usable graph
+let graph: RoadGraph | null | undefined;
+const routeCache = new Map<string, Route>();
+
+function getGraph(): RoadGraph | null {
+  if (graph !== undefined) return graph;
+
+  try {
+    const file: RoadGraphFile = JSON.parse(fs.readFileSync(routingConfig.graphPath, "utf8"));
+    graph = buildGraph(file);
+    console.log(`Loaded road graph "${file.name}": ${graph.nodeCount} nodes, ${graph.outTargets.length} edges`);
+  } catch (error) {
+    console.warn(`No road graph at ${routingConfig.graphPath}; using straight-line ETAs`);
+    graph = null;
+  }
+  return graph;
+}
+
+function buildGraph(file: RoadGraphFile): RoadGraph {
+  const nodeCount = file.nodes.length / 2;
+  const edgeCount = file.edges.length / 4;
+  const lat = new Float64Array(nodeCount);
+  const lng = new Float64Array(nodeCount);
+  for (let i = 0; i < nodeCount; i++) {
+    lat[i] = file.nodes[i * 2];
+    lng[i] = file.nodes[i * 2 + 1];
+  }
+
+  const outOffsets = new Int32Array(nodeCount + 1);
+  const inOffsets = new Int32Array(nodeCount + 1);
+  for (let e = 0; e < edgeCount; e++) {
+    outOffsets[file.edges[e * 4] + 1]++;
+    inOffsets[file.edges[e * 4 + 1] + 1]++;
+  }
+  for (let i = 0; i < nodeCount; i++) {
+    outOffsets[i + 1] += outOffsets[i];
+    inOffsets[i + 1] += inOffsets[i];
+  }
+
+  const outTargets = new Int32Array(edgeCount);
+  const outSeconds = new Float32Array(edgeCount);
+  const outMeters = new Float32Array(edgeCount);
+  const inSources = new Int32Array(edgeCount);
+  const inSeconds = new Float32Array(edgeCount);
+  const inMeters = new Float32Array(edgeCount);
+  const outNext = outOffsets.slice(0, nodeCount);
+  const inNext = inOffsets.slice(0, nodeCount);
+  let maxSpeedMps = 1;
+
+  for (let e = 0; e < edgeCount; e++) {
+    const from = file.edges[e * 4];
+    const to = file.edges[e * 4 + 1];
+    const meters = file.edges[e * 4 + 2];
+    const speedMps = Math.max(1, file.edges[e * 4 + 3] / 3.6);
+    const seconds = meters / speedMps;
+    maxSpeedMps = Math.max(maxSpeedMps, speedMps);
+
+    const o = outNext[from]++;
+    outTargets[o] = to;
+    outSeconds[o] = seconds;
+    outMeters[o] = meters;
+
+    const r = inNext[to]++;
+    inSources[r] = from;
+    inSeconds[r] = seconds;
+    inMeters[r] = meters;
+  }
+
+  const grid = new Map<string, number[]>();
+  for (let i = 0; i < nodeCount; i++) {
+    const key = cellKey(Math.floor(lat[i] / GRID_CELL_DEGREES), Math.floor(lng[i] / GRID_CELL_DEGREES));
+    const cell = grid.get(key);
+    if (cell) cell.push(i);
+    else grid.set(key, [i]);
+  }
+
+  return {
+    nodeCount, lat, lng,
+    outOffsets, outTargets, outSeconds, outMeters,
+    inOffsets, inSources, inSeconds, inMeters,
+    maxSpeedMps, grid,
+  };
+}
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+interface Snap {
+  node: number;
+  meters: number;
+}
+
+// Nearest road node within maxSnapMeters, searching outwards ring by ring
+function snap(g: RoadGraph, latitude: number, longitude: number): Snap | null {
+  const row = Math.floor(latitude / GRID_CELL_DEGREES);
+  const col = Math.floor(longitude / GRID_CELL_DEGREES);
+  const maxRing = Math.ceil(routingConfig.maxSnapMeters / 500) + 1;
+  let best = null as Snap | null;
+
+  for (let ring = 0; ring <= maxRing; ring++) {
+    for (let r = row - ring; r <= row + ring; r++) {
+      for (let c = col - ring; c <= col + ring; c++) {
+        if (Math.max(Math.abs(r - row), Math.abs(c - col)) !== ring) continue;
+        for (const node of g.grid.get(cellKey(r, c)) || []) {
+          const meters = calculateDistance(latitude, longitude, g.lat[node], g.lng[node]) * 1000;
+          if (!best || meters < best.meters) best = { node, meters };
+        }
+      }
+    }
+    // Nodes in the next ring are at least `ring` cells away (cells are narrower east-west away from the equator)
+    const ringMeters = ring * GRID_CELL_DEGREES * 111320 * Math.cos(latitude * Math.PI / 180);
+    if (best && best.meters <= ringMeters) break;
+  }
+
+  return best && best.meters <= routingConfig.maxSnapMeters ? best : null;
+}
+
+const accessSeconds = (meters: number) => meters / (routingConfig.accessSpeedKmh / 3.6);
+
+/**
+ * Fastest route between two points. Results are cached, since the tracking
+ * screen asks for the same legs repeatedly.
+ */
+export function findRoute(from: [number, number], to: [number, number]): Route {
+  const key = [...from, ...to].map(value => value.toFixed(4)).join(",");
+  const cached = routeCache.get(key);
+  if (cached) return cached;
+
+  const route = computeRoute(from, to);
+  routeCache.set(key, route);
+  if (routeCache.size > routingConfig.routeCacheSize) {
+    routeCache.delete(routeCache.keys().next().value!);
+  }
+  return route;
+}
+
+function computeRoute(from: [number, number], to: [number, number]): Route {
+  const g = getGraph();
+  const start = g && snap(g, from[0], from[1]);
+  const goal = g && snap(g, to[0], to[1]);
+  if (!g || !start || !goal) return estimateRoute(from, to);
+
+  // A* on travel time; the heuristic assumes the fastest road all the way
+  const goalLat = g.lat[goal.node];
+  const goalLng = g.lng[goal.node];
+  const heuristic = (node: number) => calculateDistance(g.lat[node], g.lng[node], goalLat, goalLng) * 1000 / g.maxSpeedMps;
+
+  const seconds = new Map<number, number>([[start.node, 0]]);
+  const meters = new Map<number, number>([[start.node, 0]]);
+  const previous = new Map<number, number>();
+  const settled = new Set<number>();
+  const queue = new MinHeap();
+  queue.push(start.node, heuristic(start.node));
+
+  while (queue.size > 0) {
+    const node = queue.pop();
+    if (settled.has(node)) continue;
+    settled.add(node);
+    if (node === goal.node) break;
+
+    for (let e = g.outOffsets[node]; e < g.outOffsets[node + 1]; e++) {
+      const next = g.outTargets[e];
+      const candidate = seconds.get(node)! + g.outSeconds[e];
+      if (candidate < (seconds.get(next) ?? Infinity)) {
+        seconds.set(next, candidate);
+        meters.set(next, meters.get(node)! + g.outMeters[e]);
+        previous.set(next, node);
+        queue.push(next, candidate + heuristic(next));
+      }
+    }
+  }
+
+  if (!settled.has(goal.node)) return estimateRoute(from, to);
+
+  const nodes = [goal.node];
+  while (nodes[nodes.length - 1] !== start.node) {
+    nodes.push(previous.get(nodes[nodes.length - 1])!);
+  }
+  nodes.reverse();
+
+  const totalMeters = meters.get(goal.node)! + start.meters + goal.meters;
+  const totalSeconds = seconds.get(goal.node)! + accessSeconds(start.meters) + accessSeconds(goal.meters);
+  return {
+    distanceKm: round(totalMeters / 1000),
+    durationSeconds: Math.round(totalSeconds),
+    path: [from, ...nodes.map(node => [g.lat[node], g.lng[node]] as [number, number]), to],
+    source: "road",
+  };
+}
+
+/**
+ * Travel times from several origins to one destination, e.g. every candidate ambulance
+ * to a pickup. One backwards search covers all of them. The result is in origin order
+ * and has no paths.
+ */
+export function findRoutesTo(origins: [number, number][], to: [number, number]): Route[] {
+  const g = getGraph();
+  const goal = g && snap(g, to[0], to[1]);
+  if (!g || !goal) return origins.map(from => estimateRoute(from, to));
+
+  const starts = origins.map(from => snap(g, from[0], from[1]));
+  const wanted = new Set(starts.filter((start): start is Snap => !!start).map(start => start.node));
+
+  const seconds = new Map<number, number>([[goal.node, 0]]);
+  const meters = new Map<number, number>([[goal.node, 0]]);
+  const settled = new Set<number>();
+  const queue = new MinHeap();
+  queue.push(goal.node, 0);
+
+  while (queue.size > 0 && wanted.size > 0) {
+    const node = queue.pop();
+    if (settled.has(node)) continue;
+    settled.add(node);
+    wanted.delete(node);
+    if (seconds.get(node)! > routingConfig.maxSearchSeconds) break;
+
+    for (let e = g.inOffsets[node]; e < g.inOffsets[node + 1]; e++) {
+      const next = g.inSources[e];
+      const candidate = seconds.get(node)! + g.inSeconds[e];
+      if (candidate < (seconds.get(next) ?? Infinity)) {
+        seconds.set(next, candidate);
+        meters.set(next, meters.get(node)! + g.inMeters[e]);
+        queue.push(next, candidate);
+      }
+    }
+  }
+
+  return origins.map((from, i) => {
+    const start = starts[i];
+    if (!start || !settled.has(start.node)) return estimateRoute(from, to);
+    return {
+      distanceKm: round((meters.get(start.node)! + start.meters + goal.meters) / 1000),
+      durationSeconds: Math.round(seconds.get(start.node)! + accessSeconds(start.meters) + accessSeconds(goal.meters)),
+      path: [from, to],
+      source: "road" as const,
+    };
+  });
+}
+
+/**
+ * For each target, the fastest time in seconds from whichever origin is nearest, or
+ * Infinity if none gets there within maxSeconds. One forward search from all origins
+ * at once, stopped at maxSeconds.
+ */
+export function fastestTimesFrom(origins: [number, number][], targets: [number, number][], maxSeconds: number): number[] {
+  const estimate = (target: [number, number], from: [number, number][]) => {
+    const fastest = Math.min(...from.map(origin => estimateRoute(origin, target).durationSeconds));
+    return fastest <= maxSeconds ? fastest : Infinity;
+  };
+
+  const g = getGraph();
+  if (!g) return targets.map(target => estimate(target, origins));
+
+  // Origins off the road network can still reach nearby targets by the straight-line estimate
+  const offNetwork: [number, number][] = [];
+  const seconds = new Map<number, number>();
+  const queue = new MinHeap();
+  origins.forEach(origin => {
+    const start = snap(g, origin[0], origin[1]);
+    if (!start) {
+      offNetwork.push(origin);
+      return;
+    }
+    const startSeconds = accessSeconds(start.meters);
+    if (startSeconds < (seconds.get(start.node) ?? Infinity)) {
+      seconds.set(start.node, startSeconds);
+      queue.push(start.node, startSeconds);
+    }
+  });
+
+  const settled = new Set<number>();
+  while (queue.size > 0) {
+    const node = queue.pop();
+    if (settled.has(node)) continue;
+    if (seconds.get(node)! > maxSeconds) break;
+    settled.add(node);
+
+    for (let e = g.outOffsets[node]; e < g.outOffsets[node + 1]; e++) {
+      const next = g.outTargets[e];
+      const candidate = seconds.get(node)! + g.outSeconds[e];
+      if (candidate < (seconds.get(next) ?? Infinity)) {
+        seconds.set(next, candidate);
+        queue.push(next, candidate);
+      }
+    }
+  }
+
+  return targets.map(target => {
+    const end = snap(g, target[0], target[1]);
+    if (!end) return estimate(target, origins);
+
+    const byRoad = settled.has(end.node) ? seconds.get(end.node)! + accessSeconds(end.meters) : Infinity;
+    const fastest = Math.round(Math.min(byRoad, offNetwork.length > 0 ? estimate(target, offNetwork) : Infinity));
+    return fastest <= maxSeconds ? fastest : Infinity;
+  });
+}
+
+export function estimateRoute(from: [number, number], to: [number, number]): Route {
+  const distanceKm = calculateDistance(from[0], from[1], to[0], to[1]) * routingConfig.fallbackDetourFactor;
+  return {
+    distanceKm: round(distanceKm),
+    durationSeconds: Math.round(distanceKm / routingConfig.fallbackSpeedKmh * 3600),
+    path: [from, to],
+    source: "estimate",
+  };
+}
+
+// Lets a replaced graph file be picked up without a restart
+export function reloadRoadGraph(): boolean {
+  graph = undefined;
+  routeCache.clear();
+  return getGraph() !== null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Binary min-heap of node ids keyed by priority
+class MinHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number) {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
@@ -0,0 +1,102 @@
+import { type Booking } from "@shared/schema";
+import { storage } from "./storage";
+import { rankCandidates, describeCandidate, getRequestedTypeName } from "./dispatch";
+
+// How long before the pickup time a scheduled booking gets an ambulance reserved
+export const SCHEDULED_DISPATCH_LEAD_MINUTES = parseInt(process.env.SCHEDULED_DISPATCH_LEAD_MINUTES || "60", 10);
+// If nothing could be reserved this close to pickup, the dispatch team is alerted
+export const SCHEDULED_DISPATCH_ESCALATE_MINUTES = parseInt(process.env.SCHEDULED_DISPATCH_ESCALATE_MINUTES || "15", 10);
+const SCHEDULER_INTERVAL_SECONDS = parseInt(process.env.SCHEDULER_INTERVAL_SECONDS || "60", 10);
+
+let running = false;
+
+export async function dispatchDueScheduledBookings(now = new Date()) {
+  // Skip a tick rather than overlap with a slow previous run
+  if (running) return;
+  running = true;
+
+  try {
+    const dueBefore = new Date(now.getTime() + SCHEDULED_DISPATCH_LEAD_MINUTES * 60 * 1000);
+    const dueBookings = await storage.getScheduledBookingsDueBefore(dueBefore);
+
+    for (const booking of dueBookings) {
+      try {
+        const reserved = await reserveAmbulance(booking);
+        if (!reserved) {
+          await escalateIfLate(booking, now);
+        }
+      } catch (error) {
+        console.error(`Error dispatching scheduled booking ${booking.id}:`, error);
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function reserveAmbulance(booking: Booking): Promise<boolean> {
+  const candidates = await rankCandidates(storage, {
+    ambulanceTypeId: booking.ambulanceTypeId,
+    latitude: booking.pickupLatitude,
+    longitude: booking.pickupLongitude,
+  });
+
+  // A scheduled job needs a crew that will actually turn up
+  const crewed = candidates.filter(candidate => candidate.crewReady);
+  if (crewed.length === 0) {
+    return false;
+  }
+
+  const [chosen] = crewed;
+  const requestedName = await getRequestedTypeName(storage, booking.ambulanceTypeId);
+
+  // Assign first: this throws if the booking can no longer be confirmed (e.g. it was cancelled)
+  const updatedBooking = await storage.assignBookingAmbulance(booking.id, chosen.ambulance.id, chosen.ambulance.driverId);
+  await storage.updateAmbulanceStatus(chosen.ambulance.id, "reserved");
+
+  await storage.addBookingStatusUpdate({
+    bookingId: booking.id,
+    status: updatedBooking.status,
+    message: `Reserved ${describeCandidate(chosen, 1, crewed.length, requestedName)}`,
+  });
+
+  return true;
+}
+
+async function escalateIfLate(booking: Booking, now: Date) {
+  const minutesToPickup = (new Date(booking.scheduledTime!).getTime() - now.getTime()) / 60000;
+  if (minutesToPickup > SCHEDULED_DISPATCH_ESCALATE_MINUTES) {
+    return;
+  }
+
+  // Escalate once per booking
+  const existingAlerts = await storage.getAdminAlertsByBookingId(booking.id);
+  if (existingAlerts.some(alert => alert.type === "scheduled_dispatch_failed")) {
+    return;
+  }
+
+  const requestedName = await getRequestedTypeName(storage, booking.ambulanceTypeId);
+  const when = minutesToPickup > 0
+    ? `due in ${Math.round(minutesToPickup)} min`
+    : `overdue by ${Math.round(-minutesToPickup)} min`;
+
+  await storage.createAdminAlert({
+    type: "scheduled_dispatch_failed",
+    bookingId: booking.id,
+    message: `Scheduled booking #${booking.id} (${requestedName}, ${when}) has no ambulance. Pickup: ${booking.pickupAddress}`,
+  });
+
+  await storage.addBookingStatusUpdate({
+    bookingId: booking.id,
+    status: booking.status,
+    message: "No suitable ambulance could be reserved yet. Our dispatch team has been alerted.",
+  });
+}
+
+export function startScheduler(): NodeJS.Timeout {
+  return setInterval(() => {
+    dispatchDueScheduledBookings().catch(error => {
+      console.error("Error running scheduled dispatch:", error);
+    });
+  }, SCHEDULER_INTERVAL_SECONDS * 1000);
+}
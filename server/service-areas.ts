@@ -0,0 +1,44 @@
+import type { OutOfServiceAreaError, ServiceArea, ServiceAreaPolygon } from "@shared/schema";
+import { isPointInPolygon, nearestPointOnPolygon } from "@shared/geo";
+import { storage } from "./storage";
+
+export async function getActiveServiceAreas(): Promise<ServiceArea[]> {
+  return (await storage.getServiceAreas()).filter(area => area.isActive);
+}
+
+export function findServiceArea(areas: ServiceArea[], latitude: number, longitude: number): ServiceArea | undefined {
+  return areas.find(area => isPointInPolygon(latitude, longitude, area.polygon as ServiceAreaPolygon));
+}
+
+/**
+ * Checks a pickup against the active service areas. Returns null when it is served,
+ * or when no areas have been set up yet so a fresh install still takes bookings.
+ */
+export async function checkServiceArea(latitude: number, longitude: number): Promise<OutOfServiceAreaError | null> {
+  const areas = await getActiveServiceAreas();
+  if (areas.length === 0 || findServiceArea(areas, latitude, longitude)) {
+    return null;
+  }
+
+  let nearestArea: OutOfServiceAreaError["nearestArea"] = null;
+  for (const area of areas) {
+    const { point, distanceKm } = nearestPointOnPolygon(latitude, longitude, area.polygon as ServiceAreaPolygon);
+    if (!nearestArea || distanceKm < nearestArea.distanceKm) {
+      nearestArea = {
+        id: area.id,
+        name: area.name,
+        city: area.city,
+        distanceKm: Math.round(distanceKm * 10) / 10,
+        nearestPoint: point,
+      };
+    }
+  }
+
+  return {
+    code: "out_of_service_area",
+    message: nearestArea
+      ? `We don't serve this pickup location yet. The nearest area we serve is ${nearestArea.name}, ${nearestArea.city} (${nearestArea.distanceKm} km away).`
+      : "We don't serve this pickup location yet.",
+    nearestArea,
+  };
+}
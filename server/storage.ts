@@ -1,4 +1,11 @@
-import { users, type User, type InsertUser, ambulanceTypes, type AmbulanceType, type InsertAmbulanceType, hospitals, type Hospital, type InsertHospital, ambulances, type Ambulance, type InsertAmbulance, bookings, type Booking, type InsertBooking, bookingStatusUpdates, type BookingStatusUpdate, type InsertBookingStatusUpdate } from "@shared/schema";
+import { users, type User, type InsertUser, ambulanceTypes, type AmbulanceType, type InsertAmbulanceType, hospitals, type Hospital, type InsertHospital, ambulances, type Ambulance, type InsertAmbulance, bookings, type Booking, type InsertBooking, bookingStatusUpdates, type BookingStatusUpdate, type InsertBookingStatusUpdate, dispatchOffers, type DispatchOffer, type InsertDispatchOffer, adminAlerts, type AdminAlert, type InsertAdminAlert, bookingSeries, type BookingSeries, type InsertBookingSeries, invoices, type Invoice, type InsertInvoice, payments, type Payment, type InsertPayment, refunds, type Refund, type InsertRefund, ledgerEntries, type LedgerEntry, type InsertLedgerEntry, type RatingSummary, serviceAreas, type ServiceArea, type InsertServiceArea, places, type Place, type InsertPlace, locationPings, type LocationPing, type InsertLocationPing, type AuditEvent, type InsertAuditEvent, type AuditEventQuery } from "@shared/schema";
+import { assertTransition, isActiveBookingStatus, terminalBookingStatuses, type BookingActorRole, type BookingStatus } from "@shared/booking-lifecycle";
+import { bookingEvents } from "./events";
+import { calculateFare } from "./pricing";
+import { findRoute, findRoutesTo } from "./routing";
+import type { FareBreakdown } from "@shared/pricing";
+import type { BookingExportFilter } from "@shared/exports";
+import { calculateDistance } from "@shared/geo";
 import createMemoryStore from "memorystore";
 import session from "express-session";
 
@@ -15,11 +22,26 @@ export interface IStorage {
   getAmbulanceTypes(): Promise<AmbulanceType[]>;
   getAmbulanceTypeById(id: number): Promise<AmbulanceType | undefined>;
   createAmbulanceType(type: InsertAmbulanceType): Promise<AmbulanceType>;
+  updateAmbulanceType(id: number, type: Partial<InsertAmbulanceType>): Promise<AmbulanceType>;
   
   // Hospital related
   getHospitals(): Promise<Hospital[]>;
   getHospitalById(id: number): Promise<Hospital | undefined>;
   createHospital(hospital: InsertHospital): Promise<Hospital>;
+  updateHospital(id: number, hospital: Partial<InsertHospital>): Promise<Hospital>;
+  
+  // Service area related
+  getServiceAreas(): Promise<ServiceArea[]>;
+  getServiceAreaById(id: number): Promise<ServiceArea | undefined>;
+  createServiceArea(area: InsertServiceArea): Promise<ServiceArea>;
+  updateServiceArea(id: number, area: Partial<InsertServiceArea>): Promise<ServiceArea>;
+  deleteServiceArea(id: number): Promise<void>;
+  
+  // Gazetteer
+  searchPlaces(query: string, limit: number): Promise<Place[]>; // Name, locality or pincode prefix matches, most prominent first
+  getPlacesNear(latitude: number, longitude: number, radiusKm: number): Promise<Place[]>;
+  countPlaces(): Promise<number>;
+  importPlaces(places: InsertPlace[], replace: boolean): Promise<number>; // Returns the number imported
   
   // Ambulance related
   getAmbulances(): Promise<Ambulance[]>;
@@ -28,19 +50,84 @@ export interface IStorage {
   getNearbyAmbulances(latitude: number, longitude: number): Promise<any[]>;
   createAmbulance(ambulance: InsertAmbulance): Promise<Ambulance>;
   updateAmbulanceLocation(id: number, latitude: number, longitude: number): Promise<Ambulance>;
-  assignAmbulanceToDriver(id: number, driverId: number): Promise<Ambulance>;
+  updateAmbulanceStatus(id: number, status: string): Promise<Ambulance>;
+  updateAmbulance(id: number, ambulance: Partial<InsertAmbulance>): Promise<Ambulance>;
+  assignAmbulanceToDriver(id: number, driverId: number | null): Promise<Ambulance>; // null unassigns
   
   // Booking related
   getAllBookings(): Promise<Booking[]>; // For admin to view all bookings
+  getBookingsPage(filter: BookingExportFilter, afterId: number, limit: number): Promise<Booking[]>; // Oldest id first, for exports
   getBookingById(id: number): Promise<Booking | undefined>;
   getBookingsByUserId(userId: number): Promise<Booking[]>;
   getActiveBookingByAmbulanceId(ambulanceId: number): Promise<Booking | undefined>;
+  getScheduledBookingsDueBefore(time: Date): Promise<Booking[]>; // Unassigned scheduled bookings
+  getUnassignedEmergencyBookings(): Promise<Booking[]>; // Pending emergencies still waiting for a unit, oldest first
   createBooking(booking: InsertBooking): Promise<Booking>;
-  updateBookingStatus(id: number, status: string): Promise<Booking>;
+  updateBookingStatus(id: number, status: string, role: BookingActorRole): Promise<Booking>; // Enforces the booking lifecycle
+  assignBookingAmbulance(id: number, ambulanceId: number, driverId: number | null): Promise<Booking>;
+  rescheduleBooking(id: number, scheduledTime: Date): Promise<Booking>;
+  addTripDistance(id: number, distanceKm: number): Promise<Booking>;
+  setBookingFare(id: number, fare: FareBreakdown): Promise<Booking>; // Sets actualFare and its breakdown
+  rateBooking(id: number, rating: number, feedback: string | null): Promise<Booking | undefined>; // undefined if already rated
+  
+  // Reviews
+  getRatedBookings(): Promise<Booking[]>;
+  updateReviewStatus(id: number, reviewStatus: string, moderatedBy: number): Promise<Booking>;
+  getRatingSummaries(subject: "driver" | "ambulance"): Promise<(RatingSummary & { id: number })[]>; // Published ratings only
+  
+  // Booking series (recurring bookings)
+  getBookingSeriesById(id: number): Promise<BookingSeries | undefined>;
+  getBookingsBySeriesId(seriesId: number): Promise<Booking[]>;
+  createBookingSeries(series: InsertBookingSeries): Promise<BookingSeries>;
+  updateBookingSeriesStatus(id: number, status: string): Promise<BookingSeries>;
+  rescheduleBookingSeries(id: number, startTime: Date, endDate: Date): Promise<BookingSeries>;
   
   // Booking status updates
   getBookingStatusUpdates(bookingId: number): Promise<BookingStatusUpdate[]>;
   addBookingStatusUpdate(update: InsertBookingStatusUpdate): Promise<BookingStatusUpdate>;
+  getFirstStatusTimes(bookingIds: number[], statuses: string[]): Promise<{ bookingId: number; status: string; firstAt: Date }[]>; // When each booking first reached each status
+  
+  // Location trail
+  getLatestLocationPing(ambulanceId: number): Promise<LocationPing | undefined>;
+  getLocationPingsByAmbulanceId(ambulanceId: number, from: Date, to: Date): Promise<LocationPing[]>;
+  getLocationPingsByBookingId(bookingId: number): Promise<LocationPing[]>;
+  addLocationPing(ping: InsertLocationPing): Promise<LocationPing>;
+  deleteLocationPingsBefore(cutoff: Date, onTrip: boolean): Promise<number>; // Returns the number deleted
+  
+  // Dispatch offers
+  getDispatchOfferById(id: number): Promise<DispatchOffer | undefined>;
+  getDispatchOffersByBookingId(bookingId: number): Promise<DispatchOffer[]>;
+  getPendingDispatchOffers(): Promise<DispatchOffer[]>;
+  getPendingDispatchOffersByDriverId(driverId: number): Promise<DispatchOffer[]>;
+  createDispatchOffer(offer: InsertDispatchOffer): Promise<DispatchOffer>;
+  updateDispatchOfferStatus(id: number, status: string): Promise<DispatchOffer>;
+  
+  // Admin alerts
+  getAdminAlerts(includeAcknowledged: boolean): Promise<AdminAlert[]>;
+  getAdminAlertsByBookingId(bookingId: number): Promise<AdminAlert[]>;
+  createAdminAlert(alert: InsertAdminAlert): Promise<AdminAlert>;
+  acknowledgeAdminAlert(id: number, userId: number): Promise<AdminAlert>;
+  
+  // Invoices
+  getInvoiceByBookingId(bookingId: number): Promise<Invoice | undefined>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>; // Assigns the next sequence number in the financial year
+  
+  // Payments
+  getPaymentById(id: number): Promise<Payment | undefined>;
+  getPaymentsByBookingId(bookingId: number): Promise<Payment[]>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  updatePayment(id: number, update: Partial<Pick<Payment, "status" | "providerReference" | "refundedAmount" | "failureReason">>): Promise<Payment>;
+  getRefundsByPaymentId(paymentId: number): Promise<Refund[]>;
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  updateBookingPaymentStatus(id: number, paymentStatus: string): Promise<Booking>;
+  
+  // Ledger
+  getLedgerEntries(bookingId?: number): Promise<LedgerEntry[]>;
+  addLedgerTransaction(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]>; // All or nothing
+  
+  // Audit log - append only, written by the wrapper in audit.ts
+  addAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]>;
   
   // Session store
   sessionStore: any;
@@ -50,30 +137,74 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private ambulanceTypes: Map<number, AmbulanceType>;
   private hospitals: Map<number, Hospital>;
+  private serviceAreas: Map<number, ServiceArea>;
+  private places: Map<number, Place>;
   private ambulances: Map<number, Ambulance>;
   private bookings: Map<number, Booking>;
   private bookingStatusUpdates: Map<number, BookingStatusUpdate>;
+  private dispatchOffers: Map<number, DispatchOffer>;
+  private adminAlerts: Map<number, AdminAlert>;
+  private bookingSeries: Map<number, BookingSeries>;
+  private invoices: Map<number, Invoice>;
+  private payments: Map<number, Payment>;
+  private refunds: Map<number, Refund>;
+  private ledgerEntries: Map<number, LedgerEntry>;
+  private locationPings: Map<number, LocationPing>;
+  private auditEvents: AuditEvent[];
   private userIdCounter: number;
   private ambulanceTypeIdCounter: number;
   private hospitalIdCounter: number;
+  private serviceAreaIdCounter: number;
+  private placeIdCounter: number;
   private ambulanceIdCounter: number;
   private bookingIdCounter: number;
   private bookingStatusUpdateIdCounter: number;
+  private dispatchOfferIdCounter: number;
+  private adminAlertIdCounter: number;
+  private bookingSeriesIdCounter: number;
+  private invoiceIdCounter: number;
+  private paymentIdCounter: number;
+  private refundIdCounter: number;
+  private ledgerEntryIdCounter: number;
+  private locationPingIdCounter: number;
+  private auditEventIdCounter: number;
   sessionStore: any;
 
   constructor() {
     this.users = new Map();
     this.ambulanceTypes = new Map();
     this.hospitals = new Map();
+    this.serviceAreas = new Map();
+    this.places = new Map();
     this.ambulances = new Map();
     this.bookings = new Map();
     this.bookingStatusUpdates = new Map();
+    this.dispatchOffers = new Map();
+    this.adminAlerts = new Map();
+    this.bookingSeries = new Map();
+    this.invoices = new Map();
+    this.payments = new Map();
+    this.refunds = new Map();
+    this.ledgerEntries = new Map();
+    this.locationPings = new Map();
+    this.auditEvents = [];
     this.userIdCounter = 1;
     this.ambulanceTypeIdCounter = 1;
     this.hospitalIdCounter = 1;
+    this.serviceAreaIdCounter = 1;
+    this.placeIdCounter = 1;
     this.ambulanceIdCounter = 1;
     this.bookingIdCounter = 1;
     this.bookingStatusUpdateIdCounter = 1;
+    this.dispatchOfferIdCounter = 1;
+    this.adminAlertIdCounter = 1;
+    this.bookingSeriesIdCounter = 1;
+    this.invoiceIdCounter = 1;
+    this.paymentIdCounter = 1;
+    this.refundIdCounter = 1;
+    this.ledgerEntryIdCounter = 1;
+    this.locationPingIdCounter = 1;
+    this.auditEventIdCounter = 1;
     
     const MemoryStore = createMemoryStore(session);
     this.sessionStore = new MemoryStore({
@@ -127,11 +258,32 @@ export class MemStorage implements IStorage {
 
   async createAmbulanceType(insertType: InsertAmbulanceType): Promise<AmbulanceType> {
     const id = this.ambulanceTypeIdCounter++;
-    const type: AmbulanceType = { ...insertType, id };
+    const type: AmbulanceType = {
+      ...insertType,
+      id,
+      upgradeTypeIds: insertType.upgradeTypeIds || null,
+      features: insertType.features || null,
+      idealFor: insertType.idealFor || null,
+      equipment: insertType.equipment || null,
+      isPopular: insertType.isPopular ?? false,
+      isActive: insertType.isActive ?? true
+    };
     this.ambulanceTypes.set(id, type);
     return type;
   }
 
+  async updateAmbulanceType(id: number, update: Partial<InsertAmbulanceType>): Promise<AmbulanceType> {
+    const type = this.ambulanceTypes.get(id);
+    
+    if (!type) {
+      throw new Error(`Ambulance type with ID ${id} not found`);
+    }
+    
+    const updatedType: AmbulanceType = { ...type, ...update };
+    this.ambulanceTypes.set(id, updatedType);
+    return updatedType;
+  }
+
   // Hospital related methods
   async getHospitals(): Promise<Hospital[]> {
     return Array.from(this.hospitals.values());
@@ -143,11 +295,108 @@ export class MemStorage implements IStorage {
 
   async createHospital(insertHospital: InsertHospital): Promise<Hospital> {
     const id = this.hospitalIdCounter++;
-    const hospital: Hospital = { ...insertHospital, id };
+    const hospital: Hospital = {
+      ...insertHospital,
+      id,
+      phone: insertHospital.phone || null,
+      edPhone: insertHospital.edPhone || null,
+      operatingHours: insertHospital.operatingHours || null,
+      isActive: insertHospital.isActive ?? true
+    };
     this.hospitals.set(id, hospital);
     return hospital;
   }
 
+  async updateHospital(id: number, update: Partial<InsertHospital>): Promise<Hospital> {
+    const hospital = this.hospitals.get(id);
+    
+    if (!hospital) {
+      throw new Error(`Hospital with ID ${id} not found`);
+    }
+    
+    const updatedHospital: Hospital = { ...hospital, ...update };
+    this.hospitals.set(id, updatedHospital);
+    return updatedHospital;
+  }
+
+  // Service area related methods
+  async getServiceAreas(): Promise<ServiceArea[]> {
+    return Array.from(this.serviceAreas.values());
+  }
+
+  async getServiceAreaById(id: number): Promise<ServiceArea | undefined> {
+    return this.serviceAreas.get(id);
+  }
+
+  async createServiceArea(insertArea: InsertServiceArea): Promise<ServiceArea> {
+    const id = this.serviceAreaIdCounter++;
+    const area: ServiceArea = {
+      ...insertArea,
+      id,
+      operator: insertArea.operator || null,
+      isActive: insertArea.isActive ?? true,
+      createdAt: new Date()
+    };
+    this.serviceAreas.set(id, area);
+    return area;
+  }
+
+  async updateServiceArea(id: number, update: Partial<InsertServiceArea>): Promise<ServiceArea> {
+    const area = this.serviceAreas.get(id);
+    
+    if (!area) {
+      throw new Error(`Service area with ID ${id} not found`);
+    }
+    
+    const updatedArea: ServiceArea = { ...area, ...update };
+    this.serviceAreas.set(id, updatedArea);
+    return updatedArea;
+  }
+
+  async deleteServiceArea(id: number): Promise<void> {
+    this.serviceAreas.delete(id);
+  }
+
+  // Gazetteer methods
+  async searchPlaces(query: string, limit: number): Promise<Place[]> {
+    const q = query.toLowerCase();
+    const matchesWord = (text: string | null) => !!text && (text.toLowerCase().startsWith(q) || text.toLowerCase().includes(` ${q}`));
+    
+    return Array.from(this.places.values())
+      .filter(place => matchesWord(place.name) || matchesWord(place.locality) || !!place.pincode?.startsWith(q))
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+
+  async getPlacesNear(latitude: number, longitude: number, radiusKm: number): Promise<Place[]> {
+    return Array.from(this.places.values()).filter(place =>
+      calculateDistance(latitude, longitude, place.latitude, place.longitude) <= radiusKm
+    );
+  }
+
+  async countPlaces(): Promise<number> {
+    return this.places.size;
+  }
+
+  async importPlaces(insertPlaces: InsertPlace[], replace: boolean): Promise<number> {
+    if (replace) {
+      this.places.clear();
+    }
+    
+    for (const insertPlace of insertPlaces) {
+      const id = this.placeIdCounter++;
+      this.places.set(id, {
+        ...insertPlace,
+        id,
+        locality: insertPlace.locality || null,
+        pincode: insertPlace.pincode || null,
+        rank: insertPlace.rank ?? 0
+      });
+    }
+    
+    return insertPlaces.length;
+  }
+
   // Ambulance related methods
   async getAmbulances(): Promise<Ambulance[]> {
     return Array.from(this.ambulances.values());
@@ -166,15 +415,18 @@ export class MemStorage implements IStorage {
   async getNearbyAmbulances(latitude: number, longitude: number): Promise<any[]> {
     // In a real app, this would use geospatial queries
     // Here, we'll just return all available ambulances with some mock distance/ETA data
-    const availableAmbulances = Array.from(this.ambulances.values())
-      .filter(ambulance => ambulance.status === 'available' && ambulance.latitude && ambulance.longitude)
-      .map(ambulance => {
-        const distance = this.calculateDistance(
-          latitude, 
-          longitude, 
-          ambulance.latitude!, 
-          ambulance.longitude!
-        );
+    const ratedBookings = publishedRatings(Array.from(this.bookings.values()));
+    
+    const candidates = Array.from(this.ambulances.values())
+      .filter(ambulance => ambulance.status === 'available' && ambulance.latitude && ambulance.longitude);
+    const routes = findRoutesTo(
+      candidates.map(ambulance => [ambulance.latitude!, ambulance.longitude!] as [number, number]),
+      [latitude, longitude]
+    );
+    
+    const availableAmbulances = candidates
+      .map((ambulance, i) => {
+        const distance = routes[i].distanceKm;
         
         // Find the ambulance type
         const ambulanceType = this.ambulanceTypes.get(ambulance.typeId);
@@ -184,16 +436,17 @@ export class MemStorage implements IStorage {
         if (ambulance.driverId) {
           const driverUser = this.users.get(ambulance.driverId);
           if (driverUser) {
+            const driverRating = summarizeRatings(ratedBookings.filter(booking => booking.driverId === driverUser.id));
             driver = {
               id: driverUser.id,
               name: `${driverUser.firstName} ${driverUser.lastName}`,
-              rating: 4.8 // Mock rating
+              rating: driverRating.average,
+              ratingCount: driverRating.count
             };
           }
         }
         
-        // Calculate ETA (simple calculation, 30 km/h average speed)
-        const etaMinutes = Math.round(distance * 2); // 2 minutes per km as a rough estimate
+        const etaMinutes = Math.round(routes[i].durationSeconds / 60);
         
         return {
           id: ambulance.id,
@@ -204,10 +457,11 @@ export class MemStorage implements IStorage {
           distanceValue: distance,
           eta: `${etaMinutes} min`,
           etaMinutes: etaMinutes,
-          driver: driver || { name: 'Unassigned', rating: 0 },
+          rating: summarizeRatings(ratedBookings.filter(booking => booking.ambulanceId === ambulance.id)),
+          driver: driver || { name: 'Unassigned', rating: null, ratingCount: 0 },
         };
       })
-      .sort((a, b) => a.distanceValue - b.distanceValue) // Sort by distance
+      .sort((a, b) => a.etaMinutes - b.etaMinutes || a.distanceValue - b.distanceValue) // Fastest to reach first
       .slice(0, 5); // Limit to 5 ambulances
     
     return availableAmbulances;
@@ -242,10 +496,45 @@ export class MemStorage implements IStorage {
     };
     
     this.ambulances.set(id, updatedAmbulance);
+    bookingEvents.emit("ambulanceLocation", updatedAmbulance);
+    return updatedAmbulance;
+  }
+
+  async updateAmbulanceStatus(id: number, status: string): Promise<Ambulance> {
+    const ambulance = this.ambulances.get(id);
+    
+    if (!ambulance) {
+      throw new Error(`Ambulance with ID ${id} not found`);
+    }
+    
+    const updatedAmbulance: Ambulance = {
+      ...ambulance,
+      status
+    };
+    
+    this.ambulances.set(id, updatedAmbulance);
+    bookingEvents.emit("ambulanceUpdate", updatedAmbulance);
+    return updatedAmbulance;
+  }
+
+  async updateAmbulance(id: number, update: Partial<InsertAmbulance>): Promise<Ambulance> {
+    const ambulance = this.ambulances.get(id);
+    
+    if (!ambulance) {
+      throw new Error(`Ambulance with ID ${id} not found`);
+    }
+    
+    const updatedAmbulance: Ambulance = {
+      ...ambulance,
+      ...update
+    };
+    
+    this.ambulances.set(id, updatedAmbulance);
+    bookingEvents.emit("ambulanceUpdate", updatedAmbulance);
     return updatedAmbulance;
   }
 
-  async assignAmbulanceToDriver(id: number, driverId: number): Promise<Ambulance> {
+  async assignAmbulanceToDriver(id: number, driverId: number | null): Promise<Ambulance> {
     const ambulance = this.ambulances.get(id);
     
     if (!ambulance) {
@@ -258,6 +547,7 @@ export class MemStorage implements IStorage {
     };
     
     this.ambulances.set(id, updatedAmbulance);
+    bookingEvents.emit("ambulanceUpdate", updatedAmbulance);
     return updatedAmbulance;
   }
 
@@ -270,6 +560,20 @@ export class MemStorage implements IStorage {
       });
   }
   
+  async getBookingsPage(filter: BookingExportFilter, afterId: number, limit: number): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking =>
+        booking.id > afterId &&
+        (!filter.from || (booking.createdAt != null && booking.createdAt >= filter.from)) &&
+        (!filter.to || (booking.createdAt != null && booking.createdAt < filter.to)) &&
+        (!filter.statuses || filter.statuses.includes(booking.status)) &&
+        (!filter.bookingType || booking.bookingType === filter.bookingType) &&
+        (filter.hospitalId == null || booking.hospitalId === filter.hospitalId)
+      )
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+  
   async getBookingById(id: number): Promise<Booking | undefined> {
     return this.bookings.get(id);
   }
@@ -287,66 +591,77 @@ export class MemStorage implements IStorage {
     return Array.from(this.bookings.values()).find(
       (booking) => 
         booking.ambulanceId === ambulanceId && 
-        ['pending', 'confirmed', 'in_progress'].includes(booking.status)
+        isActiveBookingStatus(booking.status)
     );
   }
 
+  async getScheduledBookingsDueBefore(time: Date): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => 
+        booking.bookingType === 'scheduled' &&
+        booking.status === 'pending' &&
+        !booking.ambulanceId &&
+        booking.scheduledTime &&
+        booking.scheduledTime.getTime() <= time.getTime()
+      )
+      .sort((a, b) => a.scheduledTime!.getTime() - b.scheduledTime!.getTime());
+  }
+
+  async getUnassignedEmergencyBookings(): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => 
+        booking.bookingType === 'emergency' &&
+        booking.status === 'pending' &&
+        !booking.ambulanceId
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
   async createBooking(insertBooking: InsertBooking): Promise<Booking> {
     const id = this.bookingIdCounter++;
     const now = new Date();
     
-    // For emergency bookings, auto-assign the nearest ambulance
-    let assignedAmbulanceId = insertBooking.ambulanceId;
-    
-    if (insertBooking.bookingType === 'emergency' && !assignedAmbulanceId) {
-      const nearbyAmbulances = await this.getNearbyAmbulances(
-        insertBooking.pickupLatitude, 
-        insertBooking.pickupLongitude
-      );
-      
-      if (nearbyAmbulances.length > 0) {
-        const closestAmbulance = nearbyAmbulances[0];
-        assignedAmbulanceId = closestAmbulance.id;
-        
-        // Update ambulance status to assigned
-        const ambulance = this.ambulances.get(assignedAmbulanceId);
-        if (ambulance) {
-          this.ambulances.set(assignedAmbulanceId, {
-            ...ambulance,
-            status: 'assigned'
-          });
-        }
-      }
-    }
-    
     // Calculate estimated fare
-    let estimatedFare = insertBooking.estimatedFare;
+    let estimatedFare: number | null = null;
     
-    if (!estimatedFare && insertBooking.ambulanceTypeId) {
+    if (insertBooking.ambulanceTypeId) {
       const ambulanceType = this.ambulanceTypes.get(insertBooking.ambulanceTypeId);
       
       if (ambulanceType) {
-        const pickupLat = insertBooking.pickupLatitude;
-        const pickupLng = insertBooking.pickupLongitude;
         const destLat = insertBooking.destinationLatitude || 0;
         const destLng = insertBooking.destinationLongitude || 0;
+        // Priced on the road distance, as /api/fare-estimate shows it; without a destination only the minimum fare can be estimated
+        const distance = destLat && destLng
+          ? findRoute([insertBooking.pickupLatitude, insertBooking.pickupLongitude], [destLat, destLng]).distanceKm
+          : 0;
         
-        if (destLat && destLng) {
-          const distance = this.calculateDistance(pickupLat, pickupLng, destLat, destLng);
-          estimatedFare = ambulanceType.basePrice + (distance * ambulanceType.pricePerKm);
-        } else {
-          // If no destination, use a minimum fare
-          estimatedFare = ambulanceType.basePrice;
-        }
+        estimatedFare = calculateFare({
+          ambulanceType,
+          bookingType: insertBooking.bookingType,
+          distanceKm: distance,
+          at: insertBooking.scheduledTime || now,
+        }).total;
       }
     }
     
     const booking: Booking = {
       ...insertBooking,
       id,
-      ambulanceId: assignedAmbulanceId,
+      ambulanceId: insertBooking.ambulanceId || null,
+      driverId: insertBooking.driverId || null,
+      seriesId: insertBooking.seriesId || null,
       estimatedFare,
-      status: insertBooking.status || (insertBooking.bookingType === 'emergency' ? 'confirmed' : 'pending'),
+      actualFare: null,
+      fareBreakdown: null,
+      tripDistanceKm: null,
+      paymentStatus: 'unpaid',
+      rating: null,
+      feedback: null,
+      ratedAt: null,
+      reviewStatus: 'published',
+      moderatedBy: null,
+      // Emergency bookings stay pending until a driver accepts the dispatch offer
+      status: insertBooking.status || 'pending',
       createdAt: now,
       updatedAt: now
     };
@@ -358,20 +673,22 @@ export class MemStorage implements IStorage {
       bookingId: id,
       status: booking.status,
       message: booking.bookingType === 'emergency' 
-        ? 'Emergency booking created. Ambulance dispatched.'
+        ? 'Emergency booking created. Finding the nearest suitable ambulance.'
         : 'Booking created successfully.'
     });
     
     return booking;
   }
 
-  async updateBookingStatus(id: number, status: string): Promise<Booking> {
+  async updateBookingStatus(id: number, status: string, role: BookingActorRole): Promise<Booking> {
     const booking = this.bookings.get(id);
     
     if (!booking) {
       throw new Error(`Booking with ID ${id} not found`);
     }
     
+    assertTransition(booking.status, status, role);
+    
     const now = new Date();
     const updatedBooking: Booking = {
       ...booking,
@@ -380,30 +697,160 @@ export class MemStorage implements IStorage {
     };
     
     // Handle status-specific updates
-    if (status === 'completed' && booking.ambulanceId) {
+    if (terminalBookingStatuses.includes(status as BookingStatus) && booking.ambulanceId) {
       // Set ambulance back to available
       const ambulance = this.ambulances.get(booking.ambulanceId);
       if (ambulance) {
-        this.ambulances.set(booking.ambulanceId, {
-          ...ambulance,
-          status: 'available'
-        });
+        const releasedAmbulance: Ambulance = { ...ambulance, status: 'available' };
+        this.ambulances.set(booking.ambulanceId, releasedAmbulance);
+        bookingEvents.emit("ambulanceUpdate", releasedAmbulance);
       }
-    } else if (status === 'cancelled' && booking.ambulanceId) {
-      // Set ambulance back to available
+    }
+    
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  async assignBookingAmbulance(id: number, ambulanceId: number, driverId: number | null): Promise<Booking> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    assertTransition(booking.status, 'confirmed', 'system');
+    
+    const updatedBooking: Booking = {
+      ...booking,
+      ambulanceId,
+      driverId,
+      status: 'confirmed',
+      updatedAt: new Date()
+    };
+    
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  async rescheduleBooking(id: number, scheduledTime: Date): Promise<Booking> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    assertTransition(booking.status, 'pending', 'system');
+    
+    // Give back any reserved ambulance; the scheduler reserves again closer to the new time
+    if (booking.ambulanceId) {
       const ambulance = this.ambulances.get(booking.ambulanceId);
-      if (ambulance) {
-        this.ambulances.set(booking.ambulanceId, {
-          ...ambulance,
-          status: 'available'
-        });
+      if (ambulance && ambulance.status === 'reserved') {
+        const releasedAmbulance: Ambulance = { ...ambulance, status: 'available' };
+        this.ambulances.set(booking.ambulanceId, releasedAmbulance);
+        bookingEvents.emit("ambulanceUpdate", releasedAmbulance);
       }
     }
     
+    const updatedBooking: Booking = {
+      ...booking,
+      scheduledTime,
+      ambulanceId: null,
+      driverId: null,
+      status: 'pending',
+      updatedAt: new Date()
+    };
+    
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  async addTripDistance(id: number, distanceKm: number): Promise<Booking> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    const updatedBooking: Booking = {
+      ...booking,
+      tripDistanceKm: (booking.tripDistanceKm || 0) + distanceKm
+    };
+    
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  async setBookingFare(id: number, fare: FareBreakdown): Promise<Booking> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    const updatedBooking: Booking = {
+      ...booking,
+      actualFare: fare.total,
+      fareBreakdown: fare,
+      updatedAt: new Date()
+    };
+    
     this.bookings.set(id, updatedBooking);
     return updatedBooking;
   }
 
+
+  // Booking series related methods
+  async getBookingSeriesById(id: number): Promise<BookingSeries | undefined> {
+    return this.bookingSeries.get(id);
+  }
+
+  async getBookingsBySeriesId(seriesId: number): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.seriesId === seriesId)
+      .sort((a, b) => new Date(a.scheduledTime!).getTime() - new Date(b.scheduledTime!).getTime());
+  }
+
+  async createBookingSeries(insertSeries: InsertBookingSeries): Promise<BookingSeries> {
+    const id = this.bookingSeriesIdCounter++;
+    
+    const series: BookingSeries = {
+      id,
+      userId: insertSeries.userId,
+      recurringPattern: insertSeries.recurringPattern,
+      startTime: insertSeries.startTime,
+      endDate: insertSeries.endDate,
+      status: insertSeries.status || 'active',
+      createdAt: new Date()
+    };
+    
+    this.bookingSeries.set(id, series);
+    return series;
+  }
+
+  async updateBookingSeriesStatus(id: number, status: string): Promise<BookingSeries> {
+    const series = this.bookingSeries.get(id);
+    
+    if (!series) {
+      throw new Error(`Booking series with ID ${id} not found`);
+    }
+    
+    const updatedSeries: BookingSeries = { ...series, status };
+    this.bookingSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+
+  async rescheduleBookingSeries(id: number, startTime: Date, endDate: Date): Promise<BookingSeries> {
+    const series = this.bookingSeries.get(id);
+    
+    if (!series) {
+      throw new Error(`Booking series with ID ${id} not found`);
+    }
+    
+    const updatedSeries: BookingSeries = { ...series, startTime, endDate };
+    this.bookingSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+
   // Booking status updates related methods
   async getBookingStatusUpdates(bookingId: number): Promise<BookingStatusUpdate[]> {
     return Array.from(this.bookingStatusUpdates.values())
@@ -411,6 +858,22 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
 
+  async getFirstStatusTimes(bookingIds: number[], statuses: string[]): Promise<{ bookingId: number; status: string; firstAt: Date }[]> {
+    const wanted = new Set(bookingIds);
+    const first = new Map<string, { bookingId: number; status: string; firstAt: Date }>();
+    
+    this.bookingStatusUpdates.forEach(update => {
+      if (!wanted.has(update.bookingId) || !statuses.includes(update.status) || !update.createdAt) return;
+      const key = `${update.bookingId}:${update.status}`;
+      const existing = first.get(key);
+      if (!existing || update.createdAt < existing.firstAt) {
+        first.set(key, { bookingId: update.bookingId, status: update.status, firstAt: update.createdAt });
+      }
+    });
+    
+    return Array.from(first.values());
+  }
+
   async addBookingStatusUpdate(insertUpdate: InsertBookingStatusUpdate): Promise<BookingStatusUpdate> {
     const id = this.bookingStatusUpdateIdCounter++;
     const now = new Date();
@@ -427,31 +890,399 @@ export class MemStorage implements IStorage {
     };
     
     this.bookingStatusUpdates.set(id, update);
+    bookingEvents.emit("statusUpdate", update);
     return update;
   }
 
-  // Helper method to calculate distance between two points
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    if (!lat1 || !lon1 || !lat2 || !lon2) return 0;
+  // Dispatch offer related methods
+  async getDispatchOfferById(id: number): Promise<DispatchOffer | undefined> {
+    return this.dispatchOffers.get(id);
+  }
+
+  async getDispatchOffersByBookingId(bookingId: number): Promise<DispatchOffer[]> {
+    return Array.from(this.dispatchOffers.values())
+      .filter(offer => offer.bookingId === bookingId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getPendingDispatchOffers(): Promise<DispatchOffer[]> {
+    return Array.from(this.dispatchOffers.values())
+      .filter(offer => offer.status === 'pending')
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  async getPendingDispatchOffersByDriverId(driverId: number): Promise<DispatchOffer[]> {
+    return Array.from(this.dispatchOffers.values())
+      .filter(offer => offer.status === 'pending' && offer.driverId === driverId)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  async createDispatchOffer(insertOffer: InsertDispatchOffer): Promise<DispatchOffer> {
+    const id = this.dispatchOfferIdCounter++;
     
-    const R = 6371; // Radius of the earth in km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1); 
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2); 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-    const distance = R * c; // Distance in km
-    return distance;
+    const offer: DispatchOffer = {
+      id,
+      bookingId: insertOffer.bookingId,
+      ambulanceId: insertOffer.ambulanceId,
+      driverId: insertOffer.driverId,
+      status: insertOffer.status || 'pending',
+      message: insertOffer.message || null,
+      expiresAt: insertOffer.expiresAt,
+      respondedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.dispatchOffers.set(id, offer);
+    return offer;
   }
-  
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI/180);
+
+  async updateDispatchOfferStatus(id: number, status: string): Promise<DispatchOffer> {
+    const offer = this.dispatchOffers.get(id);
+    
+    if (!offer) {
+      throw new Error(`Dispatch offer with ID ${id} not found`);
+    }
+    
+    const updatedOffer: DispatchOffer = {
+      ...offer,
+      status,
+      respondedAt: new Date()
+    };
+    
+    this.dispatchOffers.set(id, updatedOffer);
+    return updatedOffer;
+  }
+
+  // Admin alert related methods
+  async getAdminAlerts(includeAcknowledged: boolean): Promise<AdminAlert[]> {
+    return Array.from(this.adminAlerts.values())
+      .filter(alert => includeAcknowledged || !alert.acknowledgedAt)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getAdminAlertsByBookingId(bookingId: number): Promise<AdminAlert[]> {
+    return Array.from(this.adminAlerts.values())
+      .filter(alert => alert.bookingId === bookingId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createAdminAlert(insertAlert: InsertAdminAlert): Promise<AdminAlert> {
+    const id = this.adminAlertIdCounter++;
+    
+    const alert: AdminAlert = {
+      id,
+      type: insertAlert.type,
+      bookingId: insertAlert.bookingId || null,
+      message: insertAlert.message,
+      acknowledgedBy: null,
+      acknowledgedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.adminAlerts.set(id, alert);
+    return alert;
+  }
+
+  async acknowledgeAdminAlert(id: number, userId: number): Promise<AdminAlert> {
+    const alert = this.adminAlerts.get(id);
+    
+    if (!alert) {
+      throw new Error(`Admin alert with ID ${id} not found`);
+    }
+    
+    const updatedAlert: AdminAlert = {
+      ...alert,
+      acknowledgedBy: userId,
+      acknowledgedAt: new Date()
+    };
+    
+    this.adminAlerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+
+  // Invoice related methods
+  async getInvoiceByBookingId(bookingId: number): Promise<Invoice | undefined> {
+    return Array.from(this.invoices.values()).find(invoice => invoice.bookingId === bookingId);
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    if (await this.getInvoiceByBookingId(insertInvoice.bookingId)) {
+      throw new Error(`Booking ${insertInvoice.bookingId} has already been invoiced`);
+    }
+    
+    const id = this.invoiceIdCounter++;
+    const sequence = Array.from(this.invoices.values())
+      .filter(invoice => invoice.financialYear === insertInvoice.financialYear).length + 1;
+    
+    const invoice: Invoice = {
+      ...insertInvoice,
+      id,
+      sequence,
+      issuedAt: new Date()
+    };
+    
+    this.invoices.set(id, invoice);
+    return invoice;
+  }
+
+  async rateBooking(id: number, rating: number, feedback: string | null): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    if (booking.rating != null) {
+      return undefined;
+    }
+    
+    const updatedBooking: Booking = { ...booking, rating, feedback, ratedAt: new Date(), updatedAt: new Date() };
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  // Review related methods
+  async getRatedBookings(): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.rating != null)
+      .sort((a, b) => (b.ratedAt?.getTime() || 0) - (a.ratedAt?.getTime() || 0));
+  }
+
+  async updateReviewStatus(id: number, reviewStatus: string, moderatedBy: number): Promise<Booking> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    const updatedBooking: Booking = { ...booking, reviewStatus, moderatedBy, updatedAt: new Date() };
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  async getRatingSummaries(subject: "driver" | "ambulance"): Promise<(RatingSummary & { id: number })[]> {
+    const grouped = new Map<number, Booking[]>();
+    
+    publishedRatings(Array.from(this.bookings.values())).forEach(booking => {
+      const id = subject === "driver" ? booking.driverId : booking.ambulanceId;
+      if (id != null) {
+        grouped.set(id, [...(grouped.get(id) || []), booking]);
+      }
+    });
+    
+    return Array.from(grouped.entries()).map(([id, rated]) => ({ id, ...summarizeRatings(rated) }));
+  }
+
+  // Location trail related methods
+  async getLatestLocationPing(ambulanceId: number): Promise<LocationPing | undefined> {
+    let latest: LocationPing | undefined;
+    this.locationPings.forEach(ping => {
+      if (ping.ambulanceId === ambulanceId && (!latest || ping.recordedAt >= latest.recordedAt)) {
+        latest = ping;
+      }
+    });
+    return latest;
+  }
+
+  async getLocationPingsByAmbulanceId(ambulanceId: number, from: Date, to: Date): Promise<LocationPing[]> {
+    return Array.from(this.locationPings.values())
+      .filter(ping => ping.ambulanceId === ambulanceId && ping.recordedAt >= from && ping.recordedAt <= to)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async getLocationPingsByBookingId(bookingId: number): Promise<LocationPing[]> {
+    return Array.from(this.locationPings.values())
+      .filter(ping => ping.bookingId === bookingId)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async addLocationPing(insertPing: InsertLocationPing): Promise<LocationPing> {
+    const id = this.locationPingIdCounter++;
+    
+    const ping: LocationPing = {
+      ...insertPing,
+      id,
+      bookingId: insertPing.bookingId || null,
+      speedKmh: insertPing.speedKmh ?? null,
+      heading: insertPing.heading ?? null,
+      accuracyM: insertPing.accuracyM ?? null,
+      recordedAt: insertPing.recordedAt || new Date()
+    };
+    
+    this.locationPings.set(id, ping);
+    return ping;
+  }
+
+  async deleteLocationPingsBefore(cutoff: Date, onTrip: boolean): Promise<number> {
+    let deleted = 0;
+    
+    this.locationPings.forEach((ping, id) => {
+      if (ping.recordedAt < cutoff && (ping.bookingId != null) === onTrip) {
+        this.locationPings.delete(id);
+        deleted++;
+      }
+    });
+    
+    return deleted;
+  }
+
+  // Payment related methods
+  async getPaymentById(id: number): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async getPaymentsByBookingId(bookingId: number): Promise<Payment[]> {
+    return Array.from(this.payments.values())
+      .filter(payment => payment.bookingId === bookingId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const id = this.paymentIdCounter++;
+    const now = new Date();
+    
+    const payment: Payment = {
+      ...insertPayment,
+      id,
+      currency: insertPayment.currency || 'INR',
+      providerReference: insertPayment.providerReference || null,
+      refundedAmount: 0,
+      failureReason: insertPayment.failureReason || null,
+      recordedBy: insertPayment.recordedBy || null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.payments.set(id, payment);
+    return payment;
+  }
+
+  async updatePayment(id: number, update: Partial<Pick<Payment, "status" | "providerReference" | "refundedAmount" | "failureReason">>): Promise<Payment> {
+    const payment = this.payments.get(id);
+    
+    if (!payment) {
+      throw new Error(`Payment with ID ${id} not found`);
+    }
+    
+    const updatedPayment: Payment = { ...payment, ...update, updatedAt: new Date() };
+    this.payments.set(id, updatedPayment);
+    return updatedPayment;
+  }
+
+  async getRefundsByPaymentId(paymentId: number): Promise<Refund[]> {
+    return Array.from(this.refunds.values())
+      .filter(refund => refund.paymentId === paymentId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund> {
+    const id = this.refundIdCounter++;
+    
+    const refund: Refund = {
+      ...insertRefund,
+      id,
+      providerReference: insertRefund.providerReference || null,
+      createdAt: new Date()
+    };
+    
+    this.refunds.set(id, refund);
+    return refund;
+  }
+
+  async updateBookingPaymentStatus(id: number, paymentStatus: string): Promise<Booking> {
+    const booking = this.bookings.get(id);
+    
+    if (!booking) {
+      throw new Error(`Booking with ID ${id} not found`);
+    }
+    
+    const updatedBooking: Booking = { ...booking, paymentStatus, updatedAt: new Date() };
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  // Ledger related methods
+  async getLedgerEntries(bookingId?: number): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values())
+      .filter(entry => bookingId === undefined || entry.bookingId === bookingId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async addLedgerTransaction(insertEntries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    const now = new Date();
+    
+    const entries: LedgerEntry[] = insertEntries.map(insertEntry => ({
+      ...insertEntry,
+      id: this.ledgerEntryIdCounter++,
+      debit: insertEntry.debit || 0,
+      credit: insertEntry.credit || 0,
+      bookingId: insertEntry.bookingId || null,
+      paymentId: insertEntry.paymentId || null,
+      refundId: insertEntry.refundId || null,
+      createdAt: now
+    }));
+    
+    entries.forEach(entry => this.ledgerEntries.set(entry.id, entry));
+    return entries;
+  }
+
+  // Audit log related methods
+  async addAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      id: this.auditEventIdCounter++,
+      kind: insertEvent.kind,
+      action: insertEvent.action,
+      entityType: insertEvent.entityType ?? null,
+      entityId: insertEvent.entityId ?? null,
+      recordIds: insertEvent.recordIds ?? null,
+      diff: insertEvent.diff ?? null,
+      actorId: insertEvent.actorId ?? null,
+      actorRole: insertEvent.actorRole,
+      ip: insertEvent.ip ?? null,
+      route: insertEvent.route ?? null,
+      occurredAt: new Date()
+    };
+    
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]> {
+    const q = query.q?.toLowerCase();
+    const matches: AuditEvent[] = [];
+    // Newest first; stop once the page is full
+    for (let i = this.auditEvents.length - 1; i >= 0 && matches.length < query.limit; i--) {
+      const event = this.auditEvents[i];
+      if (query.beforeId != null && event.id >= query.beforeId) continue;
+      if (query.kind && event.kind !== query.kind) continue;
+      if (query.entityType && event.entityType !== query.entityType) continue;
+      if (query.entityId != null && event.entityId !== query.entityId &&
+          !(Array.isArray(event.recordIds) && event.recordIds.includes(query.entityId))) continue;
+      if (query.actorId != null && event.actorId !== query.actorId) continue;
+      if (query.from && event.occurredAt < query.from) continue;
+      if (query.to && event.occurredAt >= query.to) continue;
+      if (q && ![event.action, event.route, event.ip, event.entityType].some(field => field?.toLowerCase().includes(q))) continue;
+      matches.push(event);
+    }
+    return matches;
+  }
+}
+
+// Ratings that count towards averages: set and not hidden by a moderator
+function publishedRatings(bookings: Booking[]): Booking[] {
+  return bookings.filter(booking => booking.rating != null && booking.reviewStatus === 'published');
+}
+
+export function summarizeRatings(ratedBookings: Booking[]): RatingSummary {
+  if (ratedBookings.length === 0) {
+    return { average: null, count: 0 };
   }
+  const total = ratedBookings.reduce((sum, booking) => sum + booking.rating!, 0);
+  return { average: Math.round((total / ratedBookings.length) * 10) / 10, count: ratedBookings.length };
 }
 
 import { DatabaseStorage } from "./database-storage";
+import { withAuditLog } from "./audit";
 
-// Use DatabaseStorage for persistent database storage
-export const storage = new DatabaseStorage();
+// Use DatabaseStorage for persistent database storage, recording every change in the audit log
+export const storage = withAuditLog(new DatabaseStorage());
@@ -0,0 +1,108 @@
+// Response-time KPIs computed by server/analytics.ts from each booking's status timeline
+
+export const responseIntervals = ["callToDispatch", "dispatchToArrival", "arrivalToHospital"] as const;
+export type ResponseInterval = typeof responseIntervals[number];
+
+export const responseIntervalLabels: Record<ResponseInterval, string> = {
+  callToDispatch: "Call to dispatch",
+  dispatchToArrival: "Dispatch to arrival",
+  arrivalToHospital: "Arrival to hospital",
+};
+
+export const responseTimeGroupings = ["day", "zone", "ambulance_type"] as const;
+export type ResponseTimeGrouping = typeof responseTimeGroupings[number];
+
+// Seconds between the milestones of one booking; null where the later milestone was never reached
+export interface BookingResponseTimes {
+  bookingId: number;
+  createdAt: string;
+  day: string; // YYYY-MM-DD in the operating time zone
+  zone: string | null; // service area containing the pickup
+  ambulanceTypeId: number;
+  callToDispatch: number | null;
+  dispatchToArrival: number | null;
+  arrivalToHospital: number | null;
+}
+
+export interface IntervalStats {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+}
+
+export interface ResponseTimeGroup {
+  key: string;
+  label: string;
+  bookings: number;
+  intervals: Record<ResponseInterval, IntervalStats>;
+}
+
+// Returned by GET /api/admin/analytics/response-times
+export interface ResponseTimeReport {
+  groupBy: ResponseTimeGrouping;
+  from: string;
+  to: string;
+  overall: ResponseTimeGroup;
+  groups: ResponseTimeGroup[];
+}
+
+// Demand for ambulances, computed by server/demand.ts from past emergency pickups
+
+export const HOURS_PER_WEEK = 7 * 24;
+
+// Hour 0 is Monday 00:00-01:00 in the operating time zone, following the order of weekDays
+
+export interface DemandCell {
+  latitude: number; // cell centre
+  longitude: number;
+  bounds: [[number, number], [number, number]]; // [south, west], [north, east]
+  value: number; // pickups in the history, or expected pickups per hour for a forecast
+}
+
+// Returned by GET /api/admin/demand/heatmap
+export interface DemandHeatmap {
+  cellSizeKm: number;
+  hourOfWeek: number | null; // null when every hour is counted
+  from: string;
+  cells: DemandCell[];
+}
+
+export interface StandbyRecommendation {
+  latitude: number;
+  longitude: number;
+  expectedCalls: number; // per hour, within reach of this point
+  ambulanceId: number | null; // nearest available unit to send there
+  registrationNumber: string | null;
+  distanceKm: number | null; // how far that unit has to move
+}
+
+// Returned by GET /api/admin/demand/standby
+export interface StandbyPlan {
+  hourOfWeek: number;
+  coverageRadiusKm: number;
+  forecast: DemandCell[];
+  recommendations: StandbyRecommendation[];
+}
+
+// Reachability of the service areas from the available fleet, computed by server/coverage.ts
+
+export const DEFAULT_COVERAGE_TARGETS_MINUTES = [8, 15];
+
+export interface CoverageCell {
+  latitude: number;
+  longitude: number;
+  bounds: [[number, number], [number, number]];
+  minutes: number | null; // fastest response, null if slower than every target
+}
+
+// Returned by GET /api/admin/coverage
+export interface CoverageReport {
+  computedAt: string;
+  targetsMinutes: number[];
+  cellSizeKm: number;
+  availableUnits: number;
+  // Share of the service area reachable within each target, in the same order
+  coverage: { minutes: number; share: number }[];
+  cells: CoverageCell[];
+}
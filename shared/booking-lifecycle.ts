@@ -0,0 +1,143 @@
+// Booking lifecycle state machine shared by the server (enforcement) and client (which buttons to show)
+
+export const bookingStatuses = [
+  "pending",             // created, waiting for an ambulance
+  "confirmed",           // ambulance assigned or reserved
+  "en_route",            // ambulance driving to the pickup
+  "arrived_pickup",      // ambulance at the pickup location
+  "patient_onboard",     // patient in the ambulance
+  "arrived_destination", // at the hospital / destination
+  "completed",
+  "cancelled",
+  "skipped",             // one occurrence of a recurring series left out
+] as const;
+
+export type BookingStatus = typeof bookingStatuses[number];
+
+// "system" covers dispatch, the scheduler and other automatic transitions
+export type BookingActorRole = "patient" | "driver" | "admin" | "system";
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  en_route: "En Route",
+  arrived_pickup: "Arrived at Pickup",
+  patient_onboard: "Patient Onboard",
+  arrived_destination: "Arrived at Destination",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  skipped: "Skipped",
+};
+
+// For each status, the statuses it may move to and the roles allowed to trigger that move
+export const bookingTransitions: Record<BookingStatus, Partial<Record<BookingStatus, BookingActorRole[]>>> = {
+  pending: {
+    pending: ["system", "admin", "patient"], // rescheduled
+    confirmed: ["system", "admin"],
+    cancelled: ["patient", "admin", "system"],
+    skipped: ["patient", "admin"],
+  },
+  confirmed: {
+    pending: ["system", "admin", "patient"], // rescheduled (patients) or unassigned
+    en_route: ["driver", "admin"],
+    cancelled: ["patient", "admin", "system"],
+    skipped: ["patient", "admin"],
+  },
+  en_route: {
+    arrived_pickup: ["driver", "admin", "system"],
+    cancelled: ["admin"],
+  },
+  arrived_pickup: {
+    patient_onboard: ["driver", "admin"],
+    cancelled: ["driver", "admin"], // e.g. patient not found or refused transport
+  },
+  patient_onboard: {
+    arrived_destination: ["driver", "admin", "system"],
+  },
+  arrived_destination: {
+    completed: ["driver", "admin"],
+  },
+  completed: {},
+  cancelled: {},
+  skipped: {},
+};
+
+// Bookings an ambulance is currently working on
+export const activeBookingStatuses: BookingStatus[] = [
+  "confirmed",
+  "en_route",
+  "arrived_pickup",
+  "patient_onboard",
+  "arrived_destination",
+];
+
+// Statuses that end a booking and free its ambulance
+export const terminalBookingStatuses: BookingStatus[] = ["completed", "cancelled", "skipped"];
+
+// How far ahead a pending scheduled booking starts showing on the live operations map
+export const LIVE_BOOKING_LEAD_MS = 2 * 60 * 60 * 1000;
+
+// Rows written before the lifecycle existed used a single in_progress state
+const legacyStatuses: Record<string, BookingStatus> = {
+  in_progress: "en_route",
+};
+
+export function isBookingStatus(status: string): status is BookingStatus {
+  return (bookingStatuses as readonly string[]).includes(status);
+}
+
+export function normalizeBookingStatus(status: string): BookingStatus | undefined {
+  if (isBookingStatus(status)) return status;
+  return legacyStatuses[status];
+}
+
+// activeBookingStatuses as stored, including legacy values, for filtering the bookings table
+export const storedActiveBookingStatuses: string[] = [
+  ...activeBookingStatuses,
+  ...Object.keys(legacyStatuses).filter(legacy => activeBookingStatuses.includes(legacyStatuses[legacy])),
+];
+
+export function isActiveBookingStatus(status: string): boolean {
+  const current = normalizeBookingStatus(status);
+  return !!current && activeBookingStatuses.includes(current);
+}
+
+export function getAllowedNextStatuses(from: string, role: BookingActorRole): BookingStatus[] {
+  const current = normalizeBookingStatus(from);
+  if (!current) return [];
+
+  return (Object.entries(bookingTransitions[current]) as [BookingStatus, BookingActorRole[]][])
+    .filter(([, roles]) => roles.includes(role))
+    .map(([status]) => status);
+}
+
+export function canTransition(from: string, to: string, role: BookingActorRole): boolean {
+  return getAllowedNextStatuses(from, role).includes(to as BookingStatus);
+}
+
+// Bookings dispatchers need to see right now: in progress, or waiting for an ambulance soon
+export function isLiveBooking(booking: { status: string; scheduledTime: Date | string | null }, now = new Date()): boolean {
+  if (isActiveBookingStatus(booking.status)) return true;
+  if (booking.status !== "pending") return false;
+  return !booking.scheduledTime || new Date(booking.scheduledTime).getTime() <= now.getTime() + LIVE_BOOKING_LEAD_MS;
+}
+
+export class BookingTransitionError extends Error {
+  status = 409;
+
+  constructor(
+    public from: string,
+    public to: string,
+    public role: BookingActorRole,
+    public allowedNextStatuses: BookingStatus[],
+  ) {
+    super(`Cannot change booking from ${from} to ${to} as ${role}`);
+    this.name = "BookingTransitionError";
+  }
+}
+
+export function assertTransition(from: string, to: string, role: BookingActorRole) {
+  if (!canTransition(from, to, role)) {
+    throw new BookingTransitionError(from, to, role, getAllowedNextStatuses(from, role));
+  }
+}
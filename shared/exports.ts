@@ -0,0 +1,25 @@
+// Spreadsheet exports for admins, written by server/exports.ts
+
+export const exportDatasets = ["bookings", "ambulances", "drivers", "patients"] as const;
+export type ExportDataset = typeof exportDatasets[number];
+
+export const exportDatasetLabels: Record<ExportDataset, string> = {
+  bookings: "Bookings",
+  ambulances: "Ambulances",
+  drivers: "Drivers",
+  patients: "Patients",
+};
+
+export const exportFormats = ["csv", "xlsx"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Datasets with patient health information; those columns are left out unless the admin opts in
+export const phiExportDatasets: readonly ExportDataset[] = ["bookings", "patients"];
+
+export interface BookingExportFilter {
+  from?: Date; // created at or after
+  to?: Date; // created before
+  statuses?: string[];
+  bookingType?: string;
+  hospitalId?: number;
+}
@@ -0,0 +1,64 @@
+// Helper function to calculate distance between two points (in km)
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Radius of the earth in km
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c; // Distance in km
+}
+
+function deg2rad(deg: number): number {
+  return deg * (Math.PI/180);
+}
+
+// Initial compass bearing from the first point to the second, 0-360
+export function calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLon = deg2rad(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(deg2rad(lat2));
+  const x = Math.cos(deg2rad(lat1)) * Math.sin(deg2rad(lat2)) -
+    Math.sin(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+// Ray casting; polygon is a ring of [lat, lng] vertices
+export function isPointInPolygon(lat: number, lng: number, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) &&
+      lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Closest point on the polygon's boundary and its distance in km (flat-earth projection, fine at city scale)
+export function nearestPointOnPolygon(lat: number, lng: number, polygon: [number, number][]): { point: [number, number]; distanceKm: number } {
+  const lngScale = Math.cos(deg2rad(lat));
+  let best: [number, number] = polygon[0];
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < polygon.length; i++) {
+    const [latA, lngA] = polygon[i];
+    const [latB, lngB] = polygon[(i + 1) % polygon.length];
+    const dx = (lngB - lngA) * lngScale;
+    const dy = latB - latA;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0
+      : Math.max(0, Math.min(1, (((lng - lngA) * lngScale) * dx + (lat - latA) * dy) / lengthSquared));
+    const point: [number, number] = [latA + t * dy, lngA + t * (lngB - lngA)];
+    const distance = calculateDistance(lat, lng, point[0], point[1]);
+    if (distance < bestDistance) {
+      best = point;
+      bestDistance = distance;
+    }
+  }
+
+  return { point: best, distanceKm: bestDistance };
+}
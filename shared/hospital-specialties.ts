@@ -0,0 +1,99 @@
+// Normalized hospital specialty taxonomy shared by the directory, admin forms and booking filters
+
+export const hospitalSpecialties = [
+  "emergency",
+  "trauma",
+  "cardiology",
+  "neurology",
+  "neurosurgery",
+  "stroke",
+  "pediatrics",
+  "neonatology",
+  "obstetrics",
+  "orthopedics",
+  "oncology",
+  "transplant",
+  "burns",
+  "psychiatry",
+  "general_medicine",
+  "endocrinology",
+  "rheumatology",
+  "nephrology",
+] as const;
+
+export type HospitalSpecialty = typeof hospitalSpecialties[number];
+
+export const hospitalSpecialtyLabels: Record<HospitalSpecialty, string> = {
+  emergency: "Emergency",
+  trauma: "Trauma",
+  cardiology: "Cardiology",
+  neurology: "Neurology",
+  neurosurgery: "Neurosurgery",
+  stroke: "Stroke Care",
+  pediatrics: "Pediatrics",
+  neonatology: "Neonatal / NICU",
+  obstetrics: "Obstetrics",
+  orthopedics: "Orthopedics",
+  oncology: "Oncology",
+  transplant: "Transplant",
+  burns: "Burns",
+  psychiatry: "Psychiatry",
+  general_medicine: "General Medicine",
+  endocrinology: "Diabetes & Endocrinology",
+  rheumatology: "Rheumatology",
+  nephrology: "Nephrology & Dialysis",
+};
+
+// Free-text values used before the taxonomy existed
+const legacySpecialties: Record<string, HospitalSpecialty> = {
+  "cardiac": "cardiology",
+  "cardiac sciences": "cardiology",
+  "pediatric": "pediatrics",
+  "orthopedic": "orthopedics",
+  "multi-organ transplant": "transplant",
+  "cancer care": "oncology",
+  "neurosciences": "neurology",
+  "arthritis care": "rheumatology",
+  "diabetes care": "endocrinology",
+  "dialysis": "nephrology",
+};
+
+export function isHospitalSpecialty(value: string): value is HospitalSpecialty {
+  return (hospitalSpecialties as readonly string[]).includes(value);
+}
+
+export function normalizeSpecialty(value: string): HospitalSpecialty | undefined {
+  const key = value.trim().toLowerCase();
+  const slug = key.replace(/[\s-]+/g, "_");
+  if (isHospitalSpecialty(slug)) return slug;
+  return legacySpecialties[key] ||
+    hospitalSpecialties.find(specialty => hospitalSpecialtyLabels[specialty].toLowerCase() === key);
+}
+
+export function getSpecialtyLabel(value: string): string {
+  const specialty = normalizeSpecialty(value);
+  return specialty ? hospitalSpecialtyLabels[specialty] : value;
+}
+
+// Keywords in the patient's free-text condition that point at a specialty
+const conditionKeywords: [RegExp, HospitalSpecialty][] = [
+  [/heart|cardiac|chest pain|angina/i, "cardiology"],
+  [/stroke|paralysis|slurred/i, "stroke"],
+  [/seizure|unconscious|head injury|brain/i, "neurology"],
+  [/accident|fracture|trauma|bleeding|injur/i, "trauma"],
+  [/burn/i, "burns"],
+  [/pregnan|labou?r|deliver/i, "obstetrics"],
+  [/newborn|neonat|premature/i, "neonatology"],
+  [/child|infant|baby/i, "pediatrics"],
+  [/dialysis|kidney|renal/i, "nephrology"],
+  [/cancer|chemo|tumou?r/i, "oncology"],
+  [/diabet|sugar/i, "endocrinology"],
+  [/psychiatric|suicid|mental/i, "psychiatry"],
+];
+
+export function suggestSpecialtiesForCondition(condition: string): HospitalSpecialty[] {
+  return conditionKeywords
+    .filter(([pattern]) => pattern.test(condition))
+    .map(([, specialty]) => specialty)
+    .filter((specialty, index, all) => all.indexOf(specialty) === index);
+}
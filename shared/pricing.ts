@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// Itemized fare returned by POST /api/fare-estimate and stored on completed bookings
+export interface FareBreakdown {
+  distanceKm: number;
+  baseFare: number;
+  distanceFare: number;
+  nightSurcharge: number;
+  peakSurcharge: number;
+  waitingMinutes: number;
+  waitingCharge: number;
+  minimumFareAdjustment: number; // tops short trips up to the minimum fare
+  subtotal: number;
+  gst: number;
+  total: number;
+}
+
+export const fareEstimateSchema = z.object({
+  ambulanceTypeId: z.number().int(),
+  bookingType: z.enum(["emergency", "scheduled"]).default("emergency"),
+  pickupLatitude: z.number(),
+  pickupLongitude: z.number(),
+  destinationLatitude: z.number().nullish(),
+  destinationLongitude: z.number().nullish(),
+  scheduledTime: z.coerce.date().nullish(),
+});
+
+export type FareEstimateRequest = z.infer<typeof fareEstimateSchema>;
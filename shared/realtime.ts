@@ -0,0 +1,33 @@
+import { type Ambulance, type Booking, type BookingStatusUpdate } from "./schema";
+
+// Messages exchanged over the realtime WebSocket (server/realtime.ts <-> use-booking-updates.ts, use-fleet-updates.ts)
+export const REALTIME_PATH = "/ws";
+
+export interface AmbulanceLocation {
+  ambulanceId: number;
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+export type RealtimeClientMessage =
+  | { type: "subscribe"; bookingId: number }
+  | { type: "unsubscribe"; bookingId: number }
+  // Admins only: every ambulance and booking change, for the live operations map
+  | { type: "subscribe_fleet" }
+  | { type: "unsubscribe_fleet" };
+
+export type RealtimeServerMessage =
+  | { type: "subscribed"; bookingId: number }
+  | { type: "status_update"; bookingId: number; update: BookingStatusUpdate }
+  | { type: "ambulance_location"; bookingId: number; location: AmbulanceLocation }
+  | { type: "fleet_subscribed" }
+  | { type: "fleet_ambulance"; ambulance: Ambulance }
+  | { type: "fleet_booking"; booking: Booking }
+  | { type: "error"; bookingId?: number; message: string };
+
+// Starting state of the live operations map, kept current by the fleet_* messages
+export interface OperationsSnapshot {
+  ambulances: Ambulance[];
+  bookings: Booking[];
+}
@@ -0,0 +1,20 @@
+// Returned by GET /api/route and used for ETAs; see server/routing.ts
+export interface Route {
+  distanceKm: number;
+  durationSeconds: number;
+  path: [number, number][]; // [lat, lng] along the roads, or just the two endpoints for estimates
+  source: "road" | "estimate"; // "estimate" when no road graph is loaded or a point is off the network
+}
+
+/**
+ * Preprocessed road graph as written by scripts/build-road-graph.ts. Arrays are flat to
+ * keep a city-sized extract small and quick to load.
+ */
+export interface RoadGraphFile {
+  version: 1;
+  name: string;
+  // lat0, lng0, lat1, lng1, ...
+  nodes: number[];
+  // from, to, lengthMeters, speedKmh, ... - directed; two-way roads appear once per direction
+  edges: number[];
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { hospitalSpecialties } from "./hospital-specialties";
 
 // User related schemas
 export const users = pgTable("users", {
@@ -36,25 +37,62 @@ export const ambulanceTypes = pgTable("ambulance_types", {
   basePrice: real("base_price").notNull(),
   pricePerKm: real("price_per_km").notNull(),
   icon: text("icon").notNull(),
+  // Types that may be dispatched in place of this one (e.g. ALS for a BLS request)
+  upgradeTypeIds: integer("upgrade_type_ids").array(),
+  // Catalog content shown on the services page
+  features: text("features").array(),
+  idealFor: text("ideal_for"),
+  equipment: text("equipment").array(),
+  isPopular: boolean("is_popular").notNull().default(false),
+  // Inactive types stay on existing ambulances and bookings but can't be booked
+  isActive: boolean("is_active").notNull().default(true),
 });
 
-export const insertAmbulanceTypeSchema = createInsertSchema(ambulanceTypes).pick({
+// Icon names understood by the client (see ambulance-type-icon.tsx)
+export const ambulanceTypeIcons = ["ambulance", "heartbeat", "baby", "hospital", "brain", "paw"] as const;
+
+export const insertAmbulanceTypeSchema = createInsertSchema(ambulanceTypes, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  description: (schema) => schema.trim().min(1, "Description is required"),
+  basePrice: (schema) => schema.nonnegative("Base price can't be negative"),
+  pricePerKm: (schema) => schema.nonnegative("Price per km can't be negative"),
+  icon: () => z.enum(ambulanceTypeIcons),
+}).pick({
   name: true,
   description: true,
   basePrice: true,
   pricePerKm: true,
   icon: true,
+  upgradeTypeIds: true,
+  features: true,
+  idealFor: true,
+  equipment: true,
+  isPopular: true,
+  isActive: true,
 });
 
 export type InsertAmbulanceType = z.infer<typeof insertAmbulanceTypeSchema>;
 export type AmbulanceType = typeof ambulanceTypes.$inferSelect;
 
 // Ambulances schema
+export const ambulanceStatuses = [
+  "available",
+  "offered",        // holding a dispatch offer
+  "reserved",       // held for a scheduled booking
+  "assigned",       // on a job
+  "off_duty",
+  "out_of_service", // e.g. in the workshop
+  "decommissioned", // removed from the fleet; kept for booking history
+] as const;
+
+// Statuses an admin may set directly; the others are driven by dispatch
+export const adminAmbulanceStatuses = ["available", "off_duty", "out_of_service"] as const;
+
 export const ambulances = pgTable("ambulances", {
   id: serial("id").primaryKey(),
   registrationNumber: text("registration_number").notNull().unique(),
   typeId: integer("type_id").notNull(),
-  status: text("status").notNull().default("available"),
+  status: text("status").notNull().default("available"), // see ambulanceStatuses
   latitude: real("latitude"),
   longitude: real("longitude"),
   driverId: integer("driver_id"),
@@ -79,28 +117,172 @@ export const hospitals = pgTable("hospitals", {
   address: text("address").notNull(),
   latitude: real("latitude").notNull(),
   longitude: real("longitude").notNull(),
-  specialties: text("specialties").array().notNull(),
+  specialties: text("specialties").array().notNull(), // see hospitalSpecialties
+  phone: text("phone"),
+  edPhone: text("ed_phone"), // emergency department direct line for pre-arrival handover
+  operatingHours: json("operating_hours"), // see operatingHoursSchema; null means open 24x7
+  // Inactive hospitals stay on existing bookings but aren't offered as destinations
+  isActive: boolean("is_active").notNull().default(true),
 });
 
-export const insertHospitalSchema = createInsertSchema(hospitals).pick({
+export const weekDays = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type WeekDay = typeof weekDays[number];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)");
+
+// Opening window per weekday; a missing or null day means closed
+export const operatingHoursSchema = z.record(
+  z.enum(weekDays),
+  z.object({ open: timeOfDay, close: timeOfDay }).nullable(),
+);
+
+export type OperatingHours = z.infer<typeof operatingHoursSchema>;
+
+const hospitalPhone = z.string()
+  .trim()
+  .regex(/^\+?[\d\s-]{8,16}$/, "Must be a valid phone number");
+
+export const insertHospitalSchema = createInsertSchema(hospitals, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  address: (schema) => schema.trim().min(1, "Address is required"),
+  latitude: (schema) => schema.min(-90).max(90),
+  longitude: (schema) => schema.min(-180).max(180),
+  specialties: () => z.array(z.enum(hospitalSpecialties)).min(1, "Select at least one specialty"),
+  phone: () => hospitalPhone.nullable().optional(),
+  edPhone: () => hospitalPhone.nullable().optional(),
+  operatingHours: () => operatingHoursSchema.nullable().optional(),
+}).pick({
   name: true,
   address: true,
   latitude: true,
   longitude: true,
   specialties: true,
+  phone: true,
+  edPhone: true,
+  operatingHours: true,
+  isActive: true,
 });
 
 export type InsertHospital = z.infer<typeof insertHospitalSchema>;
 export type Hospital = typeof hospitals.$inferSelect;
 
+// Areas we serve; when any are active, bookings are only accepted for pickups inside one
+export const serviceAreas = pgTable("service_areas", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  city: text("city").notNull(),
+  operator: text("operator"), // partner running the fleet here; null for our own
+  polygon: json("polygon").notNull(), // see serviceAreaPolygonSchema
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// [lat, lng] vertices in order; the ring closes itself
+export const serviceAreaPolygonSchema = z.array(
+  z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)])
+).min(3, "An area needs at least 3 points");
+
+export type ServiceAreaPolygon = z.infer<typeof serviceAreaPolygonSchema>;
+
+export const insertServiceAreaSchema = createInsertSchema(serviceAreas, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  city: (schema) => schema.trim().min(1, "City is required"),
+  operator: () => z.string().trim().min(1).nullable().optional(),
+  polygon: () => serviceAreaPolygonSchema,
+}).pick({
+  name: true,
+  city: true,
+  operator: true,
+  polygon: true,
+  isActive: true,
+});
+
+export type InsertServiceArea = z.infer<typeof insertServiceAreaSchema>;
+export type ServiceArea = typeof serviceAreas.$inferSelect;
+
+// Body of the 422 returned when a pickup is outside every active service area
+export interface OutOfServiceAreaError {
+  code: "out_of_service_area";
+  message: string;
+  nearestArea: {
+    id: number;
+    name: string;
+    city: string;
+    distanceKm: number;
+    nearestPoint: [number, number]; // closest point on the area's boundary
+  } | null;
+}
+
+// Gazetteer for offline geocoding: localities, landmarks and pincode areas (see scripts/import-gazetteer.ts)
+export const placeKinds = ["locality", "landmark", "pincode"] as const;
+export type PlaceKind = typeof placeKinds[number];
+
+export const places = pgTable("places", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // for pincode entries, the post office area
+  kind: text("kind").notNull(), // see placeKinds
+  locality: text("locality"), // the area a landmark is in
+  city: text("city").notNull(),
+  pincode: text("pincode"),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  rank: integer("rank").notNull().default(0), // higher is more prominent, e.g. major landmarks
+}, (table) => ({
+  name: index("places_name_idx").on(table.name),
+  location: index("places_location_idx").on(table.latitude, table.longitude),
+}));
+
+export const insertPlaceSchema = createInsertSchema(places, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  kind: () => z.enum(placeKinds),
+  locality: () => z.string().trim().min(1).nullable().optional(),
+  city: (schema) => schema.trim().min(1, "City is required"),
+  pincode: () => z.string().trim().regex(/^\d{6}$/, "Pincode must be 6 digits").nullable().optional(),
+  latitude: (schema) => schema.min(-90).max(90),
+  longitude: (schema) => schema.min(-180).max(180),
+}).pick({
+  name: true,
+  kind: true,
+  locality: true,
+  city: true,
+  pincode: true,
+  latitude: true,
+  longitude: true,
+  rank: true,
+});
+
+export type InsertPlace = z.infer<typeof insertPlaceSchema>;
+export type Place = typeof places.$inferSelect;
+
+// Returned by the autocomplete endpoint; label is what goes into the address field
+export interface PlaceSuggestion {
+  id: number;
+  kind: PlaceKind;
+  name: string;
+  label: string;
+  latitude: number;
+  longitude: number;
+  pincode: string | null;
+  distanceKm?: number; // from the point the search was biased towards
+}
+
+export interface ReverseGeocodeResult {
+  label: string;
+  landmark: string | null;
+  locality: string | null;
+  city: string | null;
+  pincode: string | null;
+}
+
 // Bookings schema
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   ambulanceId: integer("ambulance_id"),
+  driverId: integer("driver_id"),
   ambulanceTypeId: integer("ambulance_type_id").notNull(),
   bookingType: text("booking_type").notNull(), // emergency, scheduled
-  status: text("status").notNull().default("pending"), // pending, confirmed, in_progress, completed, cancelled
+  status: text("status").notNull().default("pending"), // see bookingStatuses in booking-lifecycle.ts
   pickupLatitude: real("pickup_latitude").notNull(),
   pickupLongitude: real("pickup_longitude").notNull(),
   pickupAddress: text("pickup_address").notNull(),
@@ -111,32 +293,42 @@ export const bookings = pgTable("bookings", {
   destinationDetails: text("destination_details"),
   hospitalId: integer("hospital_id"),
   scheduledTime: timestamp("scheduled_time"),
+  seriesId: integer("series_id"), // Set for occurrences of a recurring booking
   patientDetails: json("patient_details").notNull(),
   emergencyContact: json("emergency_contact"),
   estimatedFare: real("estimated_fare"),
-  actualFare: real("actual_fare"),
-  rating: integer("rating"),
+  actualFare: real("actual_fare"), // set at completion by server/pricing.ts
+  fareBreakdown: json("fare_breakdown"), // FareBreakdown behind actualFare
+  tripDistanceKm: real("trip_distance_km"), // accumulated from location updates while the patient is onboard
+  paymentStatus: text("payment_status").notNull().default("unpaid"), // see bookingPaymentStatuses
+  rating: integer("rating"), // 1-5, set once by the patient after completion
   feedback: text("feedback"),
+  ratedAt: timestamp("rated_at"),
+  reviewStatus: text("review_status").notNull().default("published"), // see reviewStatuses
+  moderatedBy: integer("moderated_by"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Create the base booking schema from drizzle
 const baseBookingSchema = createInsertSchema(bookings)
-  .omit({ id: true, createdAt: true, updatedAt: true })
+  .omit({
+    id: true, createdAt: true, updatedAt: true, fareBreakdown: true, tripDistanceKm: true, paymentStatus: true,
+    rating: true, feedback: true, ratedAt: true, reviewStatus: true, moderatedBy: true,
+    // Fares are always priced by the server
+    estimatedFare: true, actualFare: true,
+  })
   .partial({
     ambulanceId: true,
+    driverId: true,
     destinationLatitude: true,
     destinationLongitude: true,
     destinationAddress: true,
     destinationDetails: true,
     hospitalId: true,
     scheduledTime: true,
+    seriesId: true,
     emergencyContact: true,
-    estimatedFare: true,
-    actualFare: true,
-    rating: true,
-    feedback: true,
   });
 
 // Custom date parser for scheduledTime
@@ -153,8 +345,55 @@ export const insertBookingSchema = baseBookingSchema.extend({
 });
 
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
+
+// What a patient can send when booking; it's made in their name, every booking starts as pending,
+// dispatch picks the unit and recurring series are created from the request's recurrence
+export const bookingRequestSchema = insertBookingSchema.omit({
+  userId: true,
+  status: true,
+  ambulanceId: true,
+  driverId: true,
+  seriesId: true,
+});
 export type Booking = typeof bookings.$inferSelect;
 
+// Booking series schema - recurring non-emergency transport (e.g. dialysis)
+export const recurringPatterns = ["daily", "weekly", "biweekly", "monthly"] as const;
+
+export const bookingSeries = pgTable("booking_series", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  recurringPattern: text("recurring_pattern").notNull(), // daily, weekly, biweekly, monthly
+  startTime: timestamp("start_time").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  status: text("status").notNull().default("active"), // active, cancelled
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertBookingSeriesSchema = createInsertSchema(bookingSeries).pick({
+  userId: true,
+  recurringPattern: true,
+  startTime: true,
+  endDate: true,
+  status: true,
+});
+
+export type InsertBookingSeries = z.infer<typeof insertBookingSeriesSchema>;
+export type BookingSeries = typeof bookingSeries.$inferSelect;
+
+// Recurrence requested alongside a scheduled booking
+export const recurrenceSchema = z.object({
+  pattern: z.enum(recurringPatterns),
+  endDate: z.preprocess((val) => {
+    if (typeof val === 'string' || val instanceof String) {
+      return new Date(val as string);
+    }
+    return val;
+  }, z.date()),
+});
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
 // Booking status updates schema
 export const bookingStatusUpdates = pgTable("booking_status_updates", {
   id: serial("id").primaryKey(),
@@ -179,6 +418,317 @@ export const insertBookingStatusUpdateSchema = createInsertSchema(bookingStatusU
 export type InsertBookingStatusUpdate = z.infer<typeof insertBookingStatusUpdateSchema>;
 export type BookingStatusUpdate = typeof bookingStatusUpdates.$inferSelect;
 
+// Location trail schema - GPS breadcrumbs per ambulance, tagged with the booking being served (see server/location-trail.ts)
+export const locationPings = pgTable("location_pings", {
+  id: serial("id").primaryKey(),
+  ambulanceId: integer("ambulance_id").notNull(),
+  bookingId: integer("booking_id"), // null while idle or on patrol
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  speedKmh: real("speed_kmh"),
+  heading: real("heading"), // degrees clockwise from north
+  accuracyM: real("accuracy_m"),
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+}, (table) => ({
+  ambulanceRecordedAt: index("location_pings_ambulance_recorded_at_idx").on(table.ambulanceId, table.recordedAt),
+  bookingRecordedAt: index("location_pings_booking_recorded_at_idx").on(table.bookingId, table.recordedAt),
+}));
+
+export const insertLocationPingSchema = createInsertSchema(locationPings).pick({
+  ambulanceId: true,
+  bookingId: true,
+  latitude: true,
+  longitude: true,
+  speedKmh: true,
+  heading: true,
+  accuracyM: true,
+  recordedAt: true,
+});
+
+export type InsertLocationPing = z.infer<typeof insertLocationPingSchema>;
+export type LocationPing = typeof locationPings.$inferSelect;
+
+// Returned by GET /api/admin/bookings/:id/replay
+export interface TripReplay {
+  booking: Booking;
+  trail: LocationPing[];
+  milestones: BookingStatusUpdate[]; // one per status change
+}
+
+// Dispatch offers schema - a job offered to a driver who must accept it before the booking is assigned
+export const dispatchOffers = pgTable("dispatch_offers", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  ambulanceId: integer("ambulance_id").notNull(),
+  driverId: integer("driver_id").notNull(),
+  status: text("status").notNull().default("pending"), // pending, accepted, declined, expired, cancelled
+  message: text("message"),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDispatchOfferSchema = createInsertSchema(dispatchOffers).pick({
+  bookingId: true,
+  ambulanceId: true,
+  driverId: true,
+  status: true,
+  message: true,
+  expiresAt: true,
+});
+
+export type InsertDispatchOffer = z.infer<typeof insertDispatchOfferSchema>;
+export type DispatchOffer = typeof dispatchOffers.$inferSelect;
+
+// Admin alerts schema - things the dispatch team has to act on by hand
+export const adminAlerts = pgTable("admin_alerts", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // scheduled_dispatch_failed, emergency_dispatch_failed
+  bookingId: integer("booking_id"),
+  message: text("message").notNull(),
+  acknowledgedBy: integer("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAdminAlertSchema = createInsertSchema(adminAlerts).pick({
+  type: true,
+  bookingId: true,
+  message: true,
+});
+
+export type InsertAdminAlert = z.infer<typeof insertAdminAlertSchema>;
+export type AdminAlert = typeof adminAlerts.$inferSelect;
+
+// Invoices schema - one GST invoice per completed booking, numbered consecutively within each financial year
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  financialYear: text("financial_year").notNull(), // e.g. 2026-27 (April to March)
+  sequence: integer("sequence").notNull(),
+  bookingId: integer("booking_id").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  fareBreakdown: json("fare_breakdown").notNull(), // FareBreakdown as billed; later repricing doesn't change it
+  total: real("total").notNull(),
+  issuedAt: timestamp("issued_at").defaultNow(),
+}, (table) => ({
+  financialYearSequence: unique().on(table.financialYear, table.sequence),
+}));
+
+export const insertInvoiceSchema = createInsertSchema(invoices).pick({
+  financialYear: true,
+  bookingId: true,
+  userId: true,
+  fareBreakdown: true,
+  total: true,
+});
+
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+
+// Ratings - one per completed booking; hidden reviews drop out of the averages
+export const reviewStatuses = ["published", "hidden"] as const;
+export type ReviewStatus = typeof reviewStatuses[number];
+
+export const bookingRatingSchema = z.object({
+  rating: z.number().int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  feedback: z.string().trim().max(1000, "Feedback must be 1000 characters or fewer").optional(),
+});
+
+export type BookingRating = z.infer<typeof bookingRatingSchema>;
+
+export interface RatingSummary {
+  average: number | null; // null until the first published rating
+  count: number;
+}
+
+// Returned by GET /api/secure/bookings/:id/crew-rating
+export interface CrewRating {
+  ambulance: RatingSummary | null;
+  driver: RatingSummary | null;
+}
+
+// Returned by GET /api/admin/reviews
+export interface AdminReview {
+  bookingId: number;
+  rating: number;
+  feedback: string | null;
+  ratedAt: Date | null;
+  reviewStatus: string;
+  patientName: string;
+  driverId: number | null;
+  driverName: string | null;
+  ambulanceId: number | null;
+  ambulanceRegistration: string | null;
+}
+
+// Payments schema - payment intents against a booking, settled through a provider (see server/payment-providers.ts)
+export const paymentMethods = ["cash", "upi", "card"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+
+export const paymentStatuses = [
+  "requires_confirmation", // created with the gateway, waiting for the patient to complete checkout
+  "succeeded",
+  "failed",
+  "cancelled",
+  "refunded",              // fully refunded; partial refunds keep "succeeded" with refundedAmount set
+] as const;
+
+// Rolled up onto bookings.paymentStatus from the booking's payments
+export const bookingPaymentStatuses = ["unpaid", "pending", "paid", "partially_refunded", "refunded"] as const;
+export type BookingPaymentStatus = typeof bookingPaymentStatuses[number];
+
+export const bookingPaymentStatusLabels: Record<BookingPaymentStatus, string> = {
+  unpaid: "Unpaid",
+  pending: "Payment Pending",
+  paid: "Paid",
+  partially_refunded: "Partially Refunded",
+  refunded: "Refunded",
+};
+
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  userId: integer("user_id").notNull(),
+  amount: real("amount").notNull(),
+  currency: text("currency").notNull().default("INR"),
+  method: text("method").notNull(), // see paymentMethods
+  provider: text("provider").notNull(),
+  providerReference: text("provider_reference"),
+  status: text("status").notNull(), // see paymentStatuses
+  refundedAmount: real("refunded_amount").notNull().default(0),
+  failureReason: text("failure_reason"),
+  recordedBy: integer("recorded_by"), // driver or admin who collected a cash payment
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).pick({
+  bookingId: true,
+  userId: true,
+  amount: true,
+  currency: true,
+  method: true,
+  provider: true,
+  providerReference: true,
+  status: true,
+  failureReason: true,
+  recordedBy: true,
+});
+
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull(),
+  amount: real("amount").notNull(),
+  reason: text("reason").notNull(),
+  providerReference: text("provider_reference"),
+  issuedBy: integer("issued_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertRefundSchema = createInsertSchema(refunds, {
+  amount: (schema) => schema.positive("Refund amount must be positive"),
+  reason: (schema) => schema.trim().min(1, "A reason is required"),
+}).pick({
+  paymentId: true,
+  amount: true,
+  reason: true,
+  providerReference: true,
+  issuedBy: true,
+});
+
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Refund = typeof refunds.$inferSelect;
+
+// Returned by GET /api/secure/bookings/:id/payments
+export interface BookingPaymentSummary {
+  paymentStatus: BookingPaymentStatus;
+  fare: number | null;
+  amountDue: number;
+  payments: (Payment & { refunds: Refund[] })[];
+}
+
+// Ledger schema - double-entry postings; the entries of one transactionId always balance
+export const ledgerAccounts = [
+  "cash_on_hand",     // cash collected by crews
+  "gateway_clearing", // UPI/card money held by the payment gateway until settlement
+  "fare_revenue",
+  "gst_payable",
+] as const;
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: text("transaction_id").notNull(),
+  account: text("account").notNull(), // see ledgerAccounts
+  debit: real("debit").notNull().default(0),
+  credit: real("credit").notNull().default(0),
+  bookingId: integer("booking_id"),
+  paymentId: integer("payment_id"),
+  refundId: integer("refund_id"),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).pick({
+  transactionId: true,
+  account: true,
+  debit: true,
+  credit: true,
+  bookingId: true,
+  paymentId: true,
+  refundId: true,
+  description: true,
+});
+
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+// Audit log - one row per change made through storage, and per read of patient records by
+// staff. Rows are only ever added; see server/audit.ts
+export const auditEventKinds = ["mutation", "phi_read"] as const;
+export type AuditEventKind = typeof auditEventKinds[number];
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // see auditEventKinds
+  action: text("action").notNull(), // storage method, e.g. updateBookingStatus
+  entityType: text("entity_type"), // booking, ambulance, user, ...
+  entityId: integer("entity_id"),
+  recordIds: json("record_ids"), // number[] when the action touched several records
+  diff: json("diff"), // AuditDiff; empty for reads
+  actorId: integer("actor_id"), // null for background jobs and signed-out visitors
+  actorRole: text("actor_role").notNull(), // the user's role, "anonymous" or "system"
+  ip: text("ip"),
+  route: text("route"), // e.g. "PATCH /api/admin/ambulances/12"
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  occurredAt: true,
+});
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// Changed fields with their values before and after; before is null for creations, after for deletions
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+// Search for the admin audit viewer, newest first; q matches the action, route, IP or entity type
+export interface AuditEventQuery {
+  q?: string;
+  kind?: AuditEventKind;
+  entityType?: string;
+  entityId?: number;
+  actorId?: number;
+  from?: Date;
+  to?: Date;
+  beforeId?: number; // for paging back through older events
+  limit: number;
+}
+
 // Patient details schema for form validation
 export const patientDetailsSchema = z.object({
   name: z.string().min(1, "Name is required"),